@@ -1,10 +1,37 @@
-import { Component } from '@angular/core';
+import { Component, HostListener, OnInit } from '@angular/core';
+import { ContextDraftService } from './services/context-draft.service';
+import { ContextStoreService } from './services/context-store.service';
 
 @Component({
   selector: 'app-root',
   templateUrl: './app.component.html',
   styleUrls: ['./app.component.scss']
 })
-export class AppComponent {
+export class AppComponent implements OnInit {
   title = 'CausalBench GUI';
+
+  constructor(private contextStore: ContextStoreService, private contextDrafts: ContextDraftService) { }
+
+  ngOnInit() {
+    this.contextDrafts.startAutosave();
+  }
+
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS) undo and redo context edits on every route
+  @HostListener('document:keydown', ['$event'])
+  onKeyDown(event: KeyboardEvent) {
+    if (!(event.ctrlKey || event.metaKey) || event.altKey || event.key.toLowerCase() !== 'z') {
+      return;
+    }
+    // Text fields keep their own undo
+    const target = event.target as HTMLElement | null;
+    if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) {
+      return;
+    }
+    event.preventDefault();
+    if (event.shiftKey) {
+      this.contextStore.redo();
+    } else {
+      this.contextStore.undo();
+    }
+  }
 }
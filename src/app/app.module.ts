@@ -18,6 +18,20 @@ import { TokenInputComponent } from './components/token-input/token-input.compon
 import { ContextViewComponent } from './components/context-view/context-view.component';
 import { NodeEditorComponent } from './components/node-editor/node-editor.component';
 import { ContextDesignerComponent } from './components/context-designer/context-designer.component';
+import { SettingsDialogComponent } from './components/settings-dialog/settings-dialog.component';
+import { CatalogPanelComponent } from './components/catalog-panel/catalog-panel.component';
+import { HistoryPanelComponent } from './components/history-panel/history-panel.component';
+import { DraftsDialogComponent } from './components/drafts-dialog/drafts-dialog.component';
+import { DraftRecoveryComponent } from './components/draft-recovery/draft-recovery.component';
+import { HyperparameterSweepComponent } from './components/hyperparameter-sweep/hyperparameter-sweep.component';
+import { HyperparameterInputComponent } from './components/hyperparameter-input/hyperparameter-input.component';
+import { VersionDiffDialogComponent } from './components/version-diff-dialog/version-diff-dialog.component';
+import { UpgradeDialogComponent } from './components/upgrade-dialog/upgrade-dialog.component';
+import { GraphDocumentsDialogComponent } from './components/graph-documents-dialog/graph-documents-dialog.component';
+import { ApiService } from './services/api.service';
+import { AppConfigService } from './services/app-config.service';
+import { CATALOG_PROVIDER } from './services/catalog-provider';
+import { MockDataService } from './services/mock-data.service';
 
 const routes: Routes = [
   { path: '', component: ContextDesignerComponent },
@@ -39,7 +53,17 @@ const routes: Routes = [
     TokenInputComponent,
     ContextViewComponent,
     NodeEditorComponent,
-    ContextDesignerComponent
+    ContextDesignerComponent,
+    SettingsDialogComponent,
+    CatalogPanelComponent,
+    HistoryPanelComponent,
+    DraftsDialogComponent,
+    DraftRecoveryComponent,
+    HyperparameterSweepComponent,
+    HyperparameterInputComponent,
+    VersionDiffDialogComponent,
+    UpgradeDialogComponent,
+    GraphDocumentsDialogComponent
   ],
   imports: [
     BrowserModule,
@@ -48,7 +72,14 @@ const routes: Routes = [
     CommonModule,
     RouterModule.forRoot(routes)
   ],
-  providers: [],
+  providers: [
+    // Offline mode (?offline or the settings dialog) swaps the server catalog for the bundled fixtures
+    {
+      provide: CATALOG_PROVIDER,
+      useFactory: (config: AppConfigService, api: ApiService, mock: MockDataService) => config.offline ? mock : api,
+      deps: [AppConfigService, ApiService, MockDataService]
+    }
+  ],
   bootstrap: [AppComponent]
 })
 export class AppModule { } 
\ No newline at end of file
@@ -0,0 +1,256 @@
+import { Component, EventEmitter, Input, OnChanges, OnDestroy, OnInit, Output, SimpleChanges } from '@angular/core';
+import { Subscription } from 'rxjs';
+import { CATALOG_RESOURCES, CatalogLoadState, CatalogQuery, CatalogSortState } from '../../services/catalog-provider';
+import { CatalogStoreService } from '../../services/catalog-store.service';
+import { CatalogResource } from '../../models/catalog';
+import {
+  ActiveCatalogFilter,
+  CatalogFilter,
+  activeCatalogFilters,
+  emptyCatalogFilters,
+  toggleCatalogFilterValue
+} from '../../models/catalog-filters';
+
+type QueryableResource = Exclude<CatalogResource, 'tasks'>;
+
+/** A record matching the panel's query, in the shape of the sidebar's search results. */
+export interface CatalogResult {
+  type: 'dataset' | 'model' | 'metric';
+  id: string;
+  name: string;
+  item: any;
+}
+
+// How to read the id and name of each resource's records
+const RESULT_FIELDS: Record<QueryableResource, { type: CatalogResult['type']; id: string; name: string }> = {
+  datasets: { type: 'dataset', id: 'dataset_id', name: 'dataset_name' },
+  models: { type: 'model', id: 'modl_id', name: 'modl_name' },
+  metrics: { type: 'metric', id: 'metric_id', name: 'metric_name' }
+};
+
+const SEARCH_DEBOUNCE_MS = 400;
+
+/**
+ * Server-side search, sort and filter options for the catalog and the "N of M loaded" progress of every resource.
+ * The records matching a query are listed here only; the rest of the designer always works on the full catalog.
+ */
+@Component({
+  selector: 'app-catalog-panel',
+  templateUrl: './catalog-panel.component.html',
+  styleUrls: ['./catalog-panel.component.scss']
+})
+export class CatalogPanelComponent implements OnInit, OnChanges, OnDestroy {
+  @Input() catalogLoad: Partial<Record<CatalogResource, CatalogLoadState>> = {};
+  @Input() catalogQueries: Partial<Record<CatalogResource, CatalogQuery>> = {};
+  @Output() queryChange = new EventEmitter<{ resource: CatalogResource; query: CatalogQuery }>();
+  @Output() refresh = new EventEmitter<void>();
+  @Output() resultSelect = new EventEmitter<CatalogResult>();
+
+  readonly resources = CATALOG_RESOURCES;
+  readonly labels: Record<CatalogResource, string> = {
+    datasets: 'Datasets',
+    models: 'Models',
+    metrics: 'Metrics',
+    tasks: 'Tasks'
+  };
+  // Sort fields as named by the fetch endpoints; '' keeps the server's default order
+  readonly sortFields = [
+    { value: '', label: 'Default order' },
+    { value: 'Name', label: 'Name' },
+    { value: 'Uploaded Date', label: 'Uploaded date' }
+  ];
+
+  resource: QueryableResource = 'datasets';
+  searchText = '';
+  sortField = '';
+  sortState: CatalogSortState = '';
+  showFilters = false;
+  // Text typed into the chips_search_bar filters, by filter name
+  filterInputs: Record<string, string> = {};
+  // Records matching the query of the selected resource
+  results: CatalogResult[] = [];
+  resultsLoad: CatalogLoadState | null = null;
+  private resultsSubscription: Subscription | null = null;
+  private searchTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(private catalogStore: CatalogStoreService) { }
+
+  ngOnInit() {
+    this.loadResults();
+  }
+
+  ngOnChanges(changes: SimpleChanges) {
+    if (changes['catalogQueries'] && changes['catalogQueries'].firstChange) {
+      this.loadQuery();
+    }
+  }
+
+  ngOnDestroy() {
+    this.cancelPendingSearch();
+    this.resultsSubscription?.unsubscribe();
+  }
+
+  onResourceChange() {
+    this.cancelPendingSearch();
+    this.filterInputs = {};
+    this.loadQuery();
+    this.loadResults();
+  }
+
+  /** Filter definitions of the selected resource with the values currently sent to the server. */
+  get filters(): CatalogFilter[] {
+    return this.catalogQueries[this.resource]?.filters ?? emptyCatalogFilters(this.resource);
+  }
+
+  // The schema is rebuilt while no filter is set, so keep the rendered inputs by name
+  trackByName(_index: number, filter: CatalogFilter): string {
+    return filter.name;
+  }
+
+  get activeFilters(): ActiveCatalogFilter[] {
+    return activeCatalogFilters(this.filters);
+  }
+
+  toggleFilterValue(filter: string, value: string) {
+    this.emitFilters(toggleCatalogFilterValue(this.filters, filter, value));
+  }
+
+  /** Add the text typed into a chips_search_bar filter as a value of that filter. */
+  addSearchValue(filter: CatalogFilter) {
+    const value = (this.filterInputs[filter.name] ?? '').trim();
+    this.filterInputs[filter.name] = '';
+    if (value && !filter.value.includes(value)) {
+      this.toggleFilterValue(filter.name, value);
+    }
+  }
+
+  clearFilters() {
+    this.emitFilters(emptyCatalogFilters(this.resource));
+  }
+
+  onSearchTextChange() {
+    this.cancelPendingSearch();
+    this.searchTimer = setTimeout(() => this.emitQuery(), SEARCH_DEBOUNCE_MS);
+  }
+
+  onSortChange() {
+    if (!this.sortField) {
+      this.sortState = '';
+    } else if (!this.sortState) {
+      this.sortState = this.sortField === 'Uploaded Date' ? 'desc' : 'asc';
+    }
+    this.emitQuery();
+  }
+
+  clearQuery() {
+    this.searchText = '';
+    this.sortField = '';
+    this.sortState = '';
+    this.cancelPendingSearch();
+    this.queryChange.emit({ resource: this.resource, query: {} });
+  }
+
+  get hasQuery(): boolean {
+    return !!(this.searchText || this.sortField || this.activeFilters.length > 0);
+  }
+
+  progressText(resource: CatalogResource): string {
+    const state = this.catalogLoad[resource];
+    if (!state || state.status === 'idle') {
+      return 'not loaded';
+    }
+    const count = state.total !== null ? `${state.loaded} of ${state.total} loaded` : `${state.loaded} loaded`;
+    switch (state.status) {
+      case 'loading':
+        return state.revalidating ? `refreshing, ${count}…` : `${count}…`;
+      case 'failed':
+        return `${count} (failed)`;
+      default:
+        return count;
+    }
+  }
+
+  get refreshing(): boolean {
+    return this.resources.some(resource => this.catalogLoad[resource]?.status === 'loading');
+  }
+
+  /** Width of the progress bar in percent, or null when the server sent no total. */
+  progressPercent(resource: CatalogResource): number | null {
+    const state = this.catalogLoad[resource];
+    if (!state || state.total === null) {
+      return null;
+    }
+    return state.total === 0 ? 100 : Math.min(100, Math.round(state.loaded / state.total * 100));
+  }
+
+  get resultsText(): string {
+    if (!this.resultsLoad || this.resultsLoad.status === 'idle') {
+      return 'Searching…';
+    }
+    const count = this.resultsLoad.total ?? this.results.length;
+    const text = `${count} matching ${this.labels[this.resource].toLowerCase()}`;
+    return this.resultsLoad.status === 'loading' ? `${text}, loading…` : this.resultsLoad.status === 'failed' ? `${text} (failed)` : text;
+  }
+
+  private loadResults() {
+    const fields = RESULT_FIELDS[this.resource];
+    this.resultsSubscription?.unsubscribe();
+    this.resultsSubscription = this.catalogStore.selectResults(this.resource).subscribe(snapshot => {
+      this.resultsLoad = snapshot.load;
+      this.results = (snapshot.items as any[]).map(item => ({
+        type: fields.type,
+        id: String(item[fields.id]),
+        name: item[fields.name] || `${this.labels[this.resource]} ${item[fields.id]}`,
+        item
+      }));
+    });
+  }
+
+  private loadQuery() {
+    const query = this.catalogQueries[this.resource] ?? {};
+    this.searchText = query.searchText ?? '';
+    this.sortField = query.sortField ?? '';
+    this.sortState = query.sortState ?? '';
+  }
+
+  private emitQuery() {
+    this.cancelPendingSearch();
+    const previous = this.catalogQueries[this.resource] ?? {};
+    const query: CatalogQuery = { ...previous };
+    const searchText = this.searchText.trim();
+    if (searchText) {
+      query.searchText = searchText;
+    } else {
+      delete query.searchText;
+    }
+    if (this.sortField) {
+      query.sortField = this.sortField;
+      query.sortState = this.sortState;
+    } else {
+      delete query.sortField;
+      delete query.sortState;
+    }
+    if (query.searchText === previous.searchText && query.sortField === previous.sortField && query.sortState === previous.sortState) {
+      return;
+    }
+    this.queryChange.emit({ resource: this.resource, query });
+  }
+
+  private emitFilters(filters: CatalogFilter[]) {
+    const query: CatalogQuery = { ...this.catalogQueries[this.resource] };
+    if (activeCatalogFilters(filters).length > 0) {
+      query.filters = filters;
+    } else {
+      // Without selections the server gets its default (empty) filter schema
+      delete query.filters;
+    }
+    this.queryChange.emit({ resource: this.resource, query });
+  }
+
+  private cancelPendingSearch() {
+    if (this.searchTimer !== null) {
+      clearTimeout(this.searchTimer);
+      this.searchTimer = null;
+    }
+  }
+}
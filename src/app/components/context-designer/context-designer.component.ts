@@ -1,179 +1,221 @@
-import { Component, OnInit } from '@angular/core';
-import { ApiService } from '../../services/api.service';
-import { TokenService } from '../../services/token.service';
+import { Component, Inject, OnDestroy, OnInit } from '@angular/core';
+import { Subscription } from 'rxjs';
+import { CATALOG_PROVIDER, CatalogLoadState, CatalogProvider, CatalogQuery } from '../../services/catalog-provider';
+import { CatalogStoreService } from '../../services/catalog-store.service';
+import { CompatibilityIssue, CompatibilityService } from '../../services/compatibility.service';
+import { ContextItem, ContextState, ContextStoreService } from '../../services/context-store.service';
+import { CatalogResource, DatasetDescriptor, MetricDescriptor, ModelDescriptor, TaskDescriptor } from '../../models/catalog';
+import { CatalogDecodeIssue } from '../../models/catalog-decoders';
+import { AppConfigService } from '../../services/app-config.service';
+import { ContextItemType, ContextProject, ContextProjectService } from '../../services/context-project.service';
+import { ContextScriptImportService } from '../../services/context-script-import.service';
+import { downloadFile, readFileAsText } from '../../utils/file-io';
 
 @Component({
   selector: 'app-context-designer',
   templateUrl: './context-designer.component.html',
   styleUrls: ['./context-designer.component.scss']
 })
-export class ContextDesignerComponent implements OnInit {
+export class ContextDesignerComponent implements OnInit, OnDestroy {
   title = 'CausalBench+ Designer GUI';
   showHelp = false;
   showAbout = false;
-  datasets: any[] = [];
-  models: any[] = [];
-  metrics: any[] = [];
-  currentItem: any = null;
-  currentItemType: 'dataset' | 'model' | 'metric' | null = null;
-  selectedTaskType: string = '';
-  selectedTaskId: string = '';
-  selectedTaskVersion: string = '';
+  showSettings = false;
+  showDrafts = false;
+  showUpgrades = false;
+  // The designed context lives in ContextStoreService, shared with the node editor
+  private context: ContextState;
+  // Dataset/model compatibility warnings for the whole context, refreshed with it
+  private compatibilityIssues: CompatibilityIssue[] = [];
 
   // Available items from API (for selection)
-  availableDatasets: any[] = [];
-  availableModels: any[] = [];
-  availableMetrics: any[] = [];
-  availableTasks: any[] = [];
+  availableDatasets: DatasetDescriptor[] = [];
+  availableModels: ModelDescriptor[] = [];
+  availableMetrics: MetricDescriptor[] = [];
+  availableTasks: TaskDescriptor[] = [];
 
-  // Loading states
-  loadingDatasets = false;
-  loadingModels = false;
-  loadingMetrics = false;
-  loadingTasks = false;
+  // Catalog records the API returned in a shape that could not be read
+  catalogIssues: CatalogDecodeIssue[] = [];
+  showCatalogIssues = false;
+
+  // Catalog paging: the sidebar's search/sort/filter options and the load progress of each resource
+  catalogQueries: Record<CatalogResource, CatalogQuery> = { datasets: {}, models: {}, metrics: {}, tasks: {} };
+  catalogLoad: Partial<Record<CatalogResource, CatalogLoadState>> = {};
+  private subscriptions = new Subscription();
 
   // Export dialog state
   showExportDialog = false;
 
   constructor(
-    private apiService: ApiService,
-    private tokenService: TokenService
-  ) { }
+    @Inject(CATALOG_PROVIDER) private catalogProvider: CatalogProvider,
+    private catalogStore: CatalogStoreService,
+    private contextStore: ContextStoreService,
+    private appConfig: AppConfigService,
+    private contextProjectService: ContextProjectService,
+    private contextScriptImportService: ContextScriptImportService,
+    private compatibilityService: CompatibilityService
+  ) {
+    this.context = this.contextStore.state;
+  }
+
+  get datasets(): ContextItem[] {
+    return this.context.datasets;
+  }
+
+  get models(): ContextItem[] {
+    return this.context.models;
+  }
+
+  get metrics(): ContextItem[] {
+    return this.context.metrics;
+  }
+
+  /** Warnings about the selected dataset, or about the selected model with the datasets it will run on. */
+  get compatibilityWarnings(): string[] {
+    const id = this.context.selectedItemId;
+    return this.compatibilityIssues
+      .filter(issue => issue.datasetId === id || issue.modelId === id)
+      .map(issue => issue.message);
+  }
+
+  get currentItem(): ContextItem | null {
+    return this.currentItemType ? this.findItem(this.context.selectedItemId) : null;
+  }
+
+  get currentItemType(): ContextItemType | null {
+    return this.contextStore.itemType(this.context.selectedItemId, this.context);
+  }
+
+  get selectedTaskId(): string {
+    return this.context.task.id;
+  }
+
+  get selectedTaskVersion(): string {
+    return this.context.task.version;
+  }
+
+  get selectedTaskType(): string {
+    return this.context.task.name;
+  }
+
+  // Two-way bound by the export dialog
+  get contextName(): string {
+    return this.context.name;
+  }
+
+  set contextName(name: string) {
+    this.contextStore.setDetails(name, this.context.description);
+  }
+
+  get contextDescription(): string {
+    return this.context.description;
+  }
+
+  set contextDescription(description: string) {
+    this.contextStore.setDetails(this.context.name, description);
+  }
+
+  get portalUrl(): string {
+    return this.appConfig.portalUrl;
+  }
+
+  get offline(): boolean {
+    return this.appConfig.offline;
+  }
+
+  get loadingDatasets(): boolean {
+    return this.isLoading('datasets');
+  }
+
+  get loadingModels(): boolean {
+    return this.isLoading('models');
+  }
+
+  get loadingMetrics(): boolean {
+    return this.isLoading('metrics');
+  }
+
+  get loadingTasks(): boolean {
+    return this.isLoading('tasks');
+  }
 
   ngOnInit() {
+    this.subscriptions.add(this.contextStore.state$.subscribe(context => {
+      this.context = context;
+      this.compatibilityIssues = this.compatibilityService.checkContext({
+        task: context.task,
+        datasets: context.datasets,
+        models: context.models
+      });
+    }));
+    this.subscriptions.add(this.catalogProvider.catalogIssues$.subscribe(issues => this.catalogIssues = issues));
+    this.subscriptions.add(this.catalogStore.queries$.subscribe(queries => this.catalogQueries = queries));
     this.loadAvailableData();
   }
 
+  ngOnDestroy() {
+    this.subscriptions.unsubscribe();
+  }
+
   loadAvailableData() {
-    this.tokenService.token$.subscribe(token => {
-      // Load available datasets from API with default request body
-      this.loadingDatasets = true;
-      this.apiService.getDatasets(token).subscribe({
-        next: (data) => {
-          this.availableDatasets = data;
-          console.log('Available datasets loaded:', data);
-          this.loadingDatasets = false;
-        },
-        error: (error) => {
-          console.error('Error loading datasets:', error);
-          this.loadingDatasets = false;
-          // Fallback to mock data or show error message
-        }
-      });
-      
-      // Load available models from API with default request body
-      this.loadingModels = true;
-      this.apiService.getModels(token).subscribe({
-        next: (data) => {
-          this.availableModels = data;
-          console.log('Available models loaded:', data);
-          this.loadingModels = false;
-        },
-        error: (error) => {
-          console.error('Error loading models:', error);
-          this.loadingModels = false;
-          // Fallback to mock data or show error message
-        }
-      });
-      
-      // Load available metrics from API with default request body
-      this.loadingMetrics = true;
-      this.apiService.getMetrics(token).subscribe({
-        next: (data) => {
-          this.availableMetrics = data;
-          console.log('Available metrics loaded:', data);
-          this.loadingMetrics = false;
-        },
-        error: (error) => {
-          console.error('Error loading metrics:', error);
-          this.loadingMetrics = false;
-          // Fallback to mock data or show error message
-        }
-      });
+    this.subscriptions.add(this.catalogStore.select('datasets').subscribe(snapshot => {
+      this.availableDatasets = snapshot.items;
+      this.setCatalogLoad('datasets', snapshot.load);
+    }));
+    this.subscriptions.add(this.catalogStore.select('models').subscribe(snapshot => {
+      this.availableModels = snapshot.items;
+      this.setCatalogLoad('models', snapshot.load);
+    }));
+    this.subscriptions.add(this.catalogStore.select('metrics').subscribe(snapshot => {
+      this.availableMetrics = snapshot.items;
+      this.setCatalogLoad('metrics', snapshot.load);
+    }));
+    this.subscriptions.add(this.catalogStore.select('tasks').subscribe(snapshot => {
+      this.availableTasks = snapshot.items;
+      this.setCatalogLoad('tasks', snapshot.load);
+    }));
+  }
 
-      // Load available tasks from API with default request body
-      this.loadingTasks = true;
-      this.apiService.getTasks(token).subscribe({
-        next: (data) => {
-          this.availableTasks = data;
-          console.log('Available tasks loaded:', data);
-          this.loadingTasks = false;
-        },
-        error: (error) => {
-          console.error('Error loading tasks:', error);
-          this.loadingTasks = false;
-          // Fallback to mock data or show error message
-        }
-      });
-    });
+  private findItem(id: string | null): ContextItem | null {
+    return [...this.datasets, ...this.models, ...this.metrics].find(item => item.id === id) ?? null;
   }
 
-  onItemSelected(item: any) {
-    // Deselect all items across all panels
-    this.deselectAllItems();
-    
-    // Select the new item
-    if (item) {
-      item.isSelected = true;
-      
-      // Determine the type of item selected
-      if (this.datasets.includes(item)) {
-        this.currentItemType = 'dataset';
-      } else if (this.models.includes(item)) {
-        this.currentItemType = 'model';
-      } else if (this.metrics.includes(item)) {
-        this.currentItemType = 'metric';
-      }
-    }
-    
-    this.currentItem = item;
+  /** Search/sort/filter options changed in the sidebar: load that resource for the new query. */
+  onCatalogQueryChange(change: { resource: CatalogResource; query: CatalogQuery }) {
+    this.catalogStore.setQuery(change.resource, change.query);
   }
 
-  deselectAllItems() {
-    // Deselect all datasets
-    this.datasets.forEach(dataset => {
-      dataset.isSelected = false;
-    });
-    
-    // Deselect all models
-    this.models.forEach(model => {
-      model.isSelected = false;
-    });
-    
-    // Deselect all metrics
-    this.metrics.forEach(metric => {
-      metric.isSelected = false;
-    });
+  onRefreshCatalog() {
+    this.catalogStore.refresh();
+  }
+
+  // Still loading for the first time; a background revalidation keeps the previous records usable
+  private isLoading(resource: CatalogResource): boolean {
+    const load = this.catalogLoad[resource];
+    return load?.status === 'loading' && !load.revalidating;
+  }
+
+  private setCatalogLoad(resource: CatalogResource, state: CatalogLoadState) {
+    this.catalogLoad = { ...this.catalogLoad, [resource]: state };
+  }
+
+  onItemSelected(item: ContextItem | null) {
+    this.contextStore.selectItem(item?.id ?? null);
   }
 
   onAddDataset() {
-    const newDataset = {
-      data: {},
-      isSelected: false
-    };
-    this.datasets.push(newDataset);
-    console.log('Added new dataset:', newDataset);
-    this.onItemSelected(newDataset);
+    this.contextStore.addItem('dataset');
+    console.log('Added new dataset:', this.currentItem);
   }
 
   onAddModel() {
-    const newModel = {
-      data: {},
-      isSelected: false
-    };
-    this.models.push(newModel);
-    console.log('Added new model:', newModel);
-    this.onItemSelected(newModel);
+    this.contextStore.addItem('model');
+    console.log('Added new model:', this.currentItem);
   }
 
   onAddMetric() {
-    const newMetric = {
-      data: {},
-      isSelected: false
-    };
-    this.metrics.push(newMetric);
-    console.log('Added new metric:', newMetric);
-    this.onItemSelected(newMetric);
+    this.contextStore.addItem('metric');
+    console.log('Added new metric:', this.currentItem);
   }
 
   onAddItemWithData(data: any) {
@@ -186,33 +228,10 @@ export class ContextDesignerComponent implements OnInit {
       return;
     }
     
-    let newItem: any;
-    
-    if (type === 'dataset') {
-      newItem = {
-        data: { ...item },
-        isSelected: false
-      };
-      newItem.data.selected_version = selectedVersion;
-      this.datasets.push(newItem);
-    } else if (type === 'model') {
-      newItem = {
-        data: { ...item },
-        isSelected: false
-      };
-      newItem.data.selected_version = selectedVersion;
-      this.models.push(newItem);
-    } else if (type === 'metric') {
-      newItem = {
-        data: { ...item },
-        isSelected: false
-      };
-      newItem.data.selected_version = selectedVersion;
-      this.metrics.push(newItem);
+    if (type === 'dataset' || type === 'model' || type === 'metric') {
+      this.contextStore.addItem(type, { ...item, selected_version: selectedVersion });
+      console.log('Added new item with data:', this.currentItem);
     }
-    
-    console.log('Added new item with data:', newItem);
-    this.onItemSelected(newItem);
   }
 
   isDuplicateItem(type: string, id: string, version: string): boolean {
@@ -248,16 +267,7 @@ export class ContextDesignerComponent implements OnInit {
 
   onRemoveItem() {
     if (this.currentItem) {
-      // Remove from appropriate array
-      if (this.datasets.includes(this.currentItem)) {
-        this.datasets = this.datasets.filter(item => item !== this.currentItem);
-      } else if (this.models.includes(this.currentItem)) {
-        this.models = this.models.filter(item => item !== this.currentItem);
-      } else if (this.metrics.includes(this.currentItem)) {
-        this.metrics = this.metrics.filter(item => item !== this.currentItem);
-      }
-      this.currentItem = null;
-      this.currentItemType = null;
+      this.contextStore.removeItem(this.currentItem.id);
     }
   }
 
@@ -271,68 +281,43 @@ export class ContextDesignerComponent implements OnInit {
       return;
     }
     
+    let data: any = null;
     if (type === 'dataset') {
       const dataset = this.availableDatasets.find(d => String(d.dataset_id) === id);
-      if (dataset) {
-        const versionInfo = dataset.dataset_version_info_list.find(
-          (v: any) => String(v.version.version_number) === version
-        );
-        if (versionInfo) {
-          item.data = { ...dataset };
-          item.data.selected_version = version;
-          item.data.is_new = false;
-          // Add file mappings if provided (similar to hyperparameters)
-          if (fileMappings) {
-            item.data.file_mappings = fileMappings;
-            console.log('Stored file mappings for dataset:', fileMappings);
-          }
-          // Update display name
-          if (item.getDisplayName) {
-            item.getDisplayName = () => versionInfo.dataset.dataset_name;
-          }
+      const versionInfo = dataset?.dataset_version_info_list.find(v => String(v.version.version_number) === version);
+      if (dataset && versionInfo) {
+        data = { ...dataset, selected_version: version, is_new: false };
+        // Add file mappings if provided (similar to hyperparameters)
+        if (fileMappings) {
+          data.file_mappings = fileMappings;
+          console.log('Stored file mappings for dataset:', fileMappings);
         }
       }
     } else if (type === 'model') {
       const model = this.availableModels.find(m => String(m.modl_id) === id);
-      if (model) {
-        const versionInfo = model.modl_version_info_list.find(
-          (v: any) => String(v.version.version_number) === version
-        );
-        if (versionInfo) {
-          item.data = { ...model };
-          item.data.selected_version = version;
-          item.data.is_new = false;
-          // Add hyperparameter sets if provided
-          if (hyperparameterSets) {
-            item.data.hyperparameter_sets = hyperparameterSets;
-          }
-          // Update display name
-          if (item.getDisplayName) {
-            item.getDisplayName = () => versionInfo.modl.modl_name;
-          }
+      const versionInfo = model?.modl_version_info_list.find(v => String(v.version.version_number) === version);
+      if (model && versionInfo) {
+        data = { ...model, selected_version: version, is_new: false };
+        // Add hyperparameter sets if provided
+        if (hyperparameterSets) {
+          data.hyperparameter_sets = hyperparameterSets;
         }
       }
     } else if (type === 'metric') {
       const metric = this.availableMetrics.find(m => String(m.metric_id) === id);
-      if (metric) {
-        const versionInfo = metric.metric_version_info_list.find(
-          (v: any) => String(v.version.version_number) === version
-        );
-        if (versionInfo) {
-          item.data = { ...metric };
-          item.data.selected_version = version;
-          item.data.is_new = false;
-          // Add hyperparameter sets if provided
-          if (hyperparameterSets) {
-            item.data.hyperparameter_sets = hyperparameterSets;
-          }
-          // Update display name
-          if (item.getDisplayName) {
-            item.getDisplayName = () => versionInfo.metric.metric_name;
-          }
+      const versionInfo = metric?.metric_version_info_list.find(v => String(v.version.version_number) === version);
+      if (metric && versionInfo) {
+        data = { ...metric, selected_version: version, is_new: false };
+        // Add hyperparameter sets if provided
+        if (hyperparameterSets) {
+          data.hyperparameter_sets = hyperparameterSets;
         }
       }
     }
+
+    if (data) {
+      this.contextStore.updateItem(item.id, data);
+    }
   }
 
   isDuplicateItemExcludingCurrent(type: string, id: string, version: string, currentItem: any): boolean {
@@ -350,7 +335,7 @@ export class ContextDesignerComponent implements OnInit {
     
     return items.some(item => {
       // Skip the current item being configured
-      if (item === currentItem) {
+      if (item.id === currentItem?.id) {
         return false;
       }
       
@@ -368,6 +353,12 @@ export class ContextDesignerComponent implements OnInit {
     this.showExportDialog = false;
   }
 
+  /** Select an item named in the export validation report so it can be fixed in the sidebar. */
+  onJumpToItem(itemId: string) {
+    this.showExportDialog = false;
+    this.contextStore.selectItem(itemId);
+  }
+
   getItemName(type: string, id: string): string {
     if (type === 'dataset') {
       const dataset = this.availableDatasets.find(d => String(d.dataset_id) === id);
@@ -384,14 +375,68 @@ export class ContextDesignerComponent implements OnInit {
 
   onTaskTypeChange(event: { taskName: string; taskId: string; taskVersion?: string } | string) {
     if (typeof event === 'string') {
-      this.selectedTaskType = event;
-      this.selectedTaskId = '';
-      this.selectedTaskVersion = '';
+      this.contextStore.setTask({ id: '', version: '', name: event });
     } else {
-      this.selectedTaskType = event.taskName;
-      this.selectedTaskId = event.taskId ?? '';
-      this.selectedTaskVersion = event.taskVersion ?? '';
+      this.contextStore.setTask({ id: event.taskId ?? '', version: event.taskVersion ?? '', name: event.taskName });
     }
   }
-}
 
+  onSaveProject() {
+    const json = this.contextProjectService.toJson({
+      name: this.contextName,
+      description: this.contextDescription,
+      task: this.selectedTaskId
+        ? { id: this.selectedTaskId, version: this.selectedTaskVersion, name: this.selectedTaskType }
+        : null,
+      datasets: this.datasets,
+      models: this.models,
+      metrics: this.metrics
+    });
+    try {
+      downloadFile(json, 'context_project.json', 'application/json');
+    } catch (error) {
+      alert(`Cannot save context_project.json: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  onOpenProject(file: File) {
+    this.loadProjectFile(file, text => this.contextProjectService.parse(text));
+  }
+
+  onImportScript(file: File) {
+    this.loadProjectFile(file, text => this.contextScriptImportService.toProject(text, this.getCatalog()));
+  }
+
+  private getCatalog() {
+    return {
+      datasets: this.availableDatasets,
+      models: this.availableModels,
+      metrics: this.availableMetrics,
+      tasks: this.availableTasks
+    };
+  }
+
+  /** Read a project (or exported script) file, convert it with `toProject` and replace the designed context with it. */
+  private async loadProjectFile(file: File, toProject: (text: string) => ContextProject) {
+    if (this.loadingDatasets || this.loadingModels || this.loadingMetrics || this.loadingTasks) {
+      alert('The catalog is still loading. Please wait a moment and try again.');
+      return;
+    }
+
+    let project: ContextProject;
+    try {
+      project = toProject(await readFileAsText(file));
+    } catch (error) {
+      console.error(`Error opening ${file.name}:`, error);
+      alert(`Cannot open ${file.name}: ${error instanceof Error ? error.message : error}`);
+      return;
+    }
+
+    const restored = this.contextProjectService.restore(project, this.getCatalog());
+    this.contextStore.load(restored);
+
+    if (restored.missing.length > 0) {
+      alert(`${file.name} was opened, but these entries no longer exist on the server and are marked as unavailable:\n\n- ${restored.missing.join('\n- ')}`);
+    }
+  }
+}
@@ -1,16 +1,18 @@
-import { Component, OnInit, Input, Output, EventEmitter } from '@angular/core';
-import { ApiService } from '../../services/api.service';
-import { TokenService } from '../../services/token.service';
+import { Component, OnInit, OnChanges, OnDestroy, SimpleChanges, Input, Output, EventEmitter } from '@angular/core';
+import { Subscription } from 'rxjs';
+import { CatalogStoreService } from '../../services/catalog-store.service';
+import { TaskDescriptor } from '../../models/catalog';
 
 @Component({
   selector: 'app-context-view',
   templateUrl: './context-view.component.html',
   styleUrls: ['./context-view.component.scss']
 })
-export class ContextViewComponent implements OnInit {
-  availableTasks: any[] = [];
-  selectedTaskId: string = '';
-  selectedTaskVersion: string = '';
+export class ContextViewComponent implements OnInit, OnChanges, OnDestroy {
+  availableTasks: TaskDescriptor[] = [];
+  // Bound by the parent so a restored project can preselect its task
+  @Input() selectedTaskId: string = '';
+  @Input() selectedTaskVersion: string = '';
   taskVersions: string[] = [];
   selectedTaskType: string = ''; // task_name, used for filtering models/metrics and export
   loadingTasks: boolean = false;
@@ -26,15 +28,35 @@ export class ContextViewComponent implements OnInit {
   @Output() addMetric = new EventEmitter<void>();
   @Output() taskTypeChange = new EventEmitter<{ taskName: string; taskId: string; taskVersion: string }>();
 
-  constructor(
-    private apiService: ApiService,
-    private tokenService: TokenService
-  ) { }
+  private tasksSubscription?: Subscription;
+
+  constructor(private catalogStore: CatalogStoreService) { }
 
   ngOnInit() {
     this.fetchTasks();
   }
 
+  ngOnDestroy() {
+    this.tasksSubscription?.unsubscribe();
+  }
+
+  ngOnChanges(changes: SimpleChanges) {
+    if (changes['selectedTaskId'] || changes['selectedTaskVersion']) {
+      this.syncTaskSelection();
+    }
+  }
+
+  /** Refresh the version list and task name for a task selected from outside (without emitting taskTypeChange). */
+  private syncTaskSelection() {
+    const task = this.availableTasks.find(t => String(t.task_id) === String(this.selectedTaskId));
+    if (!task) {
+      this.taskVersions = [];
+      return;
+    }
+    this.selectedTaskType = task.task_name;
+    this.taskVersions = task.task_version_info_list.map(v => String(v.version.version_number));
+  }
+
   /** Match when the module's task (version.tasks entry) task id equals selected task_id. Use task_id/taskId only; never task.id (can be model id). Supports task as object or primitive id. */
   private taskMatches(task: any): boolean {
     if (!this.selectedTaskId) return false;
@@ -57,10 +79,7 @@ export class ContextViewComponent implements OnInit {
       const versionInfo = versionList.find(
         (v: any) => String(v.version?.version_number) === String(model.data?.selected_version)
       );
-      if (versionInfo?.version?.tasks) {
-        return versionInfo.version.tasks.some((task: any) => this.taskMatches(task));
-      }
-      const tasks = model.data?.version?.tasks ?? model.version?.tasks ?? [];
+      const tasks = versionInfo?.version?.tasks ?? [];
       return tasks.some((task: any) => this.taskMatches(task));
     });
   }
@@ -77,27 +96,16 @@ export class ContextViewComponent implements OnInit {
       const versionInfo = versionList.find(
         (v: any) => String(v.version?.version_number) === String(metric.data?.selected_version)
       );
-      if (versionInfo?.version?.tasks) {
-        return versionInfo.version.tasks.some((task: any) => this.taskMatches(task));
-      }
-      const tasks = metric.data?.version?.tasks ?? metric.version?.tasks ?? [];
+      const tasks = versionInfo?.version?.tasks ?? [];
       return tasks.some((task: any) => this.taskMatches(task));
     });
   }
 
   fetchTasks() {
-    this.tokenService.token$.subscribe(token => {
-      this.loadingTasks = true;
-      this.apiService.getTasks(token).subscribe({
-        next: (tasks: any[]) => {
-          this.availableTasks = tasks;
-          this.loadingTasks = false;
-        },
-        error: (error) => {
-          console.error('Error fetching tasks:', error);
-          this.loadingTasks = false;
-        }
-      });
+    this.tasksSubscription = this.catalogStore.select('tasks').subscribe(snapshot => {
+      this.availableTasks = snapshot.items;
+      this.syncTaskSelection();
+      this.loadingTasks = snapshot.load.status === 'loading' && !snapshot.load.revalidating;
     });
   }
 
@@ -105,11 +113,10 @@ export class ContextViewComponent implements OnInit {
     this.selectedTaskId = taskId || '';
     this.selectedTaskVersion = '';
     this.taskVersions = [];
-    const task = this.availableTasks.find((t: any) => String(t.task_id) === String(taskId));
+    const task = this.availableTasks.find(t => String(t.task_id) === String(taskId));
     if (task) {
       this.selectedTaskType = task.task_name;
-      const versionList = task.task_version_info_list ?? [];
-      this.taskVersions = versionList.map((v: any) => String(v.version?.version_number ?? v.version_number ?? v));
+      this.taskVersions = task.task_version_info_list.map(v => String(v.version.version_number));
       if (this.taskVersions.length > 0) {
         this.selectedTaskVersion = this.taskVersions[0];
       }
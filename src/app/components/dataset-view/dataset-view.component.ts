@@ -20,7 +20,8 @@ export class DatasetViewComponent {
       if (dataset.data.dataset_version_info_list && dataset.data.dataset_version_info_list.length > 0) {
         return dataset.data.dataset_version_info_list[0].dataset.dataset_name || 'Unknown Dataset';
       }
-      return 'Configured Dataset';
+      // Restored project entries that no longer exist on the server only carry their saved name
+      return dataset.data.dataset_name || 'Configured Dataset';
     } else {
       // New item without data
       return 'New Dataset';
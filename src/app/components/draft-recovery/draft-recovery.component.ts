@@ -0,0 +1,40 @@
+import { Component } from '@angular/core';
+import { ContextDraft, ContextDraftService } from '../../services/context-draft.service';
+
+/** Startup prompt offering to restore the newest draft left by an earlier session. */
+@Component({
+  selector: 'app-draft-recovery',
+  templateUrl: './draft-recovery.component.html',
+  styleUrls: ['./draft-recovery.component.scss']
+})
+export class DraftRecoveryComponent {
+  draft: ContextDraft | null;
+
+  constructor(private contextDrafts: ContextDraftService) {
+    this.draft = contextDrafts.recoverableDraft;
+  }
+
+  /** Drafts from earlier sessions besides the one offered */
+  get olderDraftCount(): number {
+    return this.contextDrafts.recoverableDrafts.length - 1;
+  }
+
+  onRestore() {
+    if (this.draft && !this.contextDrafts.open(this.draft.id)) {
+      alert('This draft is no longer available.');
+    }
+    this.draft = null;
+  }
+
+  onDiscard() {
+    if (this.draft) {
+      this.contextDrafts.discard(this.draft.id);
+    }
+    this.draft = null;
+  }
+
+  /** Keep the draft for later; it stays in the drafts list. */
+  onDismiss() {
+    this.draft = null;
+  }
+}
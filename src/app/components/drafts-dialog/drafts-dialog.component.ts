@@ -0,0 +1,63 @@
+import { Component, EventEmitter, Input, OnDestroy, OnInit, Output } from '@angular/core';
+import { Subscription } from 'rxjs';
+import { ContextDraft, ContextDraftService } from '../../services/context-draft.service';
+
+/** Autosaved drafts, with buttons to reopen or discard them. */
+@Component({
+  selector: 'app-drafts-dialog',
+  templateUrl: './drafts-dialog.component.html',
+  styleUrls: ['./drafts-dialog.component.scss']
+})
+export class DraftsDialogComponent implements OnInit, OnDestroy {
+  @Input() showDialog = false;
+  @Output() closeDialog = new EventEmitter<void>();
+
+  drafts: ContextDraft[] = [];
+  private subscription?: Subscription;
+
+  constructor(private contextDrafts: ContextDraftService) { }
+
+  ngOnInit() {
+    this.subscription = this.contextDrafts.drafts$.subscribe(drafts => this.drafts = drafts);
+  }
+
+  ngOnDestroy() {
+    this.subscription?.unsubscribe();
+  }
+
+  isCurrent(draft: ContextDraft): boolean {
+    return draft.id === this.contextDrafts.sessionDraftId;
+  }
+
+  get hasOtherDrafts(): boolean {
+    return this.drafts.some(d => !this.isCurrent(d));
+  }
+
+  onOpen(draft: ContextDraft) {
+    if (this.contextDrafts.hasCurrentWork && !confirm('Replace the current context with this draft? You can undo this.')) {
+      return;
+    }
+    this.contextDrafts.open(draft.id);
+    this.onClose();
+  }
+
+  onDiscard(draft: ContextDraft) {
+    if (confirm(`Discard the draft "${draft.title}"? This cannot be undone.`)) {
+      this.contextDrafts.discard(draft.id);
+    }
+  }
+
+  onDiscardOthers() {
+    if (confirm('Discard all drafts from earlier sessions? This cannot be undone.')) {
+      this.contextDrafts.discardOthers();
+    }
+  }
+
+  onClose() {
+    this.closeDialog.emit();
+  }
+
+  trackById(index: number, draft: ContextDraft) {
+    return draft.id;
+  }
+}
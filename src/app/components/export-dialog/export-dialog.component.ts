@@ -1,11 +1,32 @@
-import { Component, Input, Output, EventEmitter } from '@angular/core';
+import { Component, Input, Output, EventEmitter, OnChanges } from '@angular/core';
+import { downloadFile } from '../../utils/file-io';
+import { highlightCode } from '../../utils/syntax-highlight';
+import {
+  ContextExportFormat,
+  ContextExportService,
+  ExportedContext,
+  ExportedDataset,
+  ExportedModule,
+  ExportedPipeline,
+  ExportedProcessor,
+  HyperparameterValue,
+  hasProcessors
+} from '../../services/context-export.service';
+import {
+  ContextIssue,
+  ContextValidationReport,
+  ContextValidationService,
+  isConfiguredItem,
+  moduleSupportsTask
+} from '../../services/context-validation.service';
+import { GraphPipeline, GraphTopology, exportedPipelines } from '../../utils/graph-topology';
 
 @Component({
   selector: 'app-export-dialog',
   templateUrl: './export-dialog.component.html',
   styleUrls: ['./export-dialog.component.scss']
 })
-export class ExportDialogComponent {
+export class ExportDialogComponent implements OnChanges {
   @Input() showDialog = false;
   @Input() datasets: any[] = [];
   @Input() models: any[] = [];
@@ -13,257 +34,291 @@ export class ExportDialogComponent {
   @Input() selectedTaskType = 'discovery.temporal';
   @Input() selectedTaskId = '';
   @Input() selectedTaskVersion = '';
+  /** Graph wiring from the node editor; only the dataset → model → metric pipelines drawn are exported */
+  @Input() topology: GraphTopology | null = null;
 
   @Output() closeDialog = new EventEmitter<void>();
+  /** Id of the context item to select, from the validation report */
+  @Output() jumpToItem = new EventEmitter<string>();
+
+  // Form fields (two-way bound so the context name survives project save/load)
+  @Input() name = '';
+  @Input() description = '';
+  @Output() nameChange = new EventEmitter<string>();
+  @Output() descriptionChange = new EventEmitter<string>();
+
+  format: ContextExportFormat = 'python';
+  readonly formats: { value: ContextExportFormat; label: string }[] = [
+    { value: 'python', label: 'Python script' },
+    { value: 'yaml', label: 'YAML descriptor' },
+    { value: 'json', label: 'JSON descriptor' }
+  ];
+
+  // Output filename; empty means "derive from the context name"
+  customFilename = '';
+  copyStatus: 'idle' | 'copied' | 'failed' = 'idle';
+  private copyStatusTimer: ReturnType<typeof setTimeout> | null = null;
+
+  // Computed once per change of the inputs, the name, the description or the format (see refresh)
+  /** Errors block the export; warnings explain what will be left out or filled in. */
+  validationReport: ContextValidationReport = { issues: [], errorCount: 0, warningCount: 0 };
+  exportedContext: ExportedContext | null = null;
+  /** The graph's pipelines go through processors, which the export lists but does not run */
+  listsProcessors = false;
+  preview = '';
+  previewHtml = '';
+
+  constructor(private contextExportService: ContextExportService, private contextValidationService: ContextValidationService) { }
+
+  ngOnChanges() {
+    if (this.showDialog) {
+      this.refresh();
+    }
+  }
+
+  /** Re-run the validation and regenerate the exported context and its preview. */
+  refresh() {
+    this.validationReport = this.contextValidationService.validate({
+      task: { id: this.selectedTaskId, version: this.selectedTaskVersion, name: this.selectedTaskType },
+      datasets: this.datasets,
+      models: this.models,
+      metrics: this.metrics,
+      topology: this.topology
+    });
+    this.exportedContext = this.buildExportedContext();
+    this.listsProcessors = hasProcessors(this.exportedContext);
+    this.refreshPreview();
+  }
 
-  /** Match when the module's task (version.tasks entry) task id equals selected task_id. Use task_id/taskId only; never task.id (can be model id). Supports task as object or primitive id. */
-  private taskMatches(task: any): boolean {
-    if (!this.selectedTaskId) return false;
-    const taskId = typeof task === 'object' && task != null
-      ? (task.task_id ?? task.taskId ?? '')
-      : String(task ?? '');
-    return String(taskId) === String(this.selectedTaskId);
+  private refreshPreview() {
+    const source = this.exportedContext ? this.contextExportService.render(this.exportedContext, this.format) : '';
+    if (source !== this.preview || !this.previewHtml) {
+      this.preview = source;
+      this.previewHtml = highlightCode(source, this.format);
+    }
   }
 
-  // Form fields
-  name = '';
-  description = '';
+  onNameChange(name: string) {
+    this.name = name;
+    this.nameChange.emit(name);
+    this.refresh();
+  }
 
-  // Computed properties for summary
+  onDescriptionChange(description: string) {
+    this.description = description;
+    this.descriptionChange.emit(description);
+    this.refresh();
+  }
+
+  onFormatChange(format: ContextExportFormat) {
+    this.format = format;
+    this.previewHtml = '';
+    this.refreshPreview();
+  }
+
+  // Summary of the exported items
   get configuredDatasetsCount(): number {
-    return this.datasets.filter(d => d.data && d.data.dataset_id && d.data.selected_version).length;
+    return this.exportedContext?.datasets.length ?? 0;
   }
 
   get configuredModelsCount(): number {
-    return this.getFilteredModels().length;
+    return this.exportedContext?.models.length ?? 0;
   }
 
   get configuredMetricsCount(): number {
-    return this.getFilteredMetrics().length;
+    return this.exportedContext?.metrics.length ?? 0;
+  }
+
+  /** Number of dataset → model pipelines wired in the node editor graph, or null when every combination runs */
+  get pipelineCount(): number | null {
+    return this.exportedContext?.pipelines?.length ?? null;
   }
 
   onClose() {
     this.closeDialog.emit();
   }
 
-  /** Returns the task expression for export: Task(module_id=X, version=Y) using selected task id/version. */
-  getTaskExportExpression(): string {
-    const id = this.selectedTaskId || '1';
-    const version = this.selectedTaskVersion || '1';
-    return `Task(module_id=${id}, version=${version})`;
+  get canExport(): boolean {
+    return !!this.name.trim() && this.validationReport.errorCount === 0;
   }
 
-  private getFilteredModels() {
-    return this.models.filter(model => {
-      // First check if it's a configured model
-      if (!model.data || !model.data.modl_id || !model.data.selected_version) {
-        return false;
-      }
-
-      // Show new models that don't have version info yet
-      if (!model.data.modl_version_info_list) {
-        return true;
-      }
-
-      // Check for tasks in version info list
-      const versionInfo = model.data.modl_version_info_list.find(
-        (v: any) => String(v.version.version_number) === model.data.selected_version
-      );
+  /** Context items can be jumped to from both views, processors only in the node editor (which passes a topology). */
+  canJumpTo(issue: ContextIssue): boolean {
+    return !!issue.itemId || (!!issue.nodeId && !!this.topology);
+  }
 
-      if (versionInfo?.version?.tasks) {
-        return versionInfo.version.tasks.some((task: any) => this.taskMatches(task));
-      }
+  onJumpToItem(issue: ContextIssue) {
+    const id = issue.itemId ?? (this.topology ? issue.nodeId : null);
+    if (id) {
+      this.jumpToItem.emit(id);
+    }
+  }
 
-      const tasks = model.data?.version?.tasks || [];
-      return tasks.some((task: any) => this.taskMatches(task));
-    });
+  private getFilteredModels() {
+    return this.models.filter(model =>
+      isConfiguredItem(model, 'model') && moduleSupportsTask(model.data, 'modl', this.selectedTaskId));
   }
 
   private getFilteredMetrics() {
-    return this.metrics.filter(metric => {
-      // First check if it's a configured metric
-      if (!metric.data || !metric.data.metric_id || !metric.data.selected_version) {
-        return false;
-      }
+    return this.metrics.filter(metric =>
+      isConfiguredItem(metric, 'metric') && moduleSupportsTask(metric.data, 'metric', this.selectedTaskId));
+  }
 
-      // Show new metrics that don't have version info yet
-      if (!metric.data.metric_version_info_list) {
-        return true;
-      }
+  /** Collect the configured datasets and the task-filtered models/metrics into a format-independent document. */
+  buildExportedContext(): ExportedContext {
+    let datasetItems = this.datasets.filter(item => isConfiguredItem(item, 'dataset'));
+    let modelItems = this.getFilteredModels();
+    let metricItems = this.getFilteredMetrics();
+
+    // With wired pipelines, nodes outside of them are left out
+    const pipelines = this.wiredPipelines(datasetItems, modelItems, metricItems);
+    if (pipelines) {
+      const used = new Set(pipelines.flatMap(p => [p.datasetId, p.modelId, ...p.metricIds]));
+      datasetItems = datasetItems.filter(item => used.has(item.id));
+      modelItems = modelItems.filter(item => used.has(item.id));
+      metricItems = metricItems.filter(item => used.has(item.id));
+    }
 
-      // Check for tasks in version info list
-      const versionInfo = metric.data.metric_version_info_list.find(
-        (v: any) => String(v.version.version_number) === metric.data.selected_version
-      );
+    const datasets: ExportedDataset[] = [];
+    for (const item of datasetItems) {
+      // Use generic file mappings if available, otherwise fall back to defaults
+      let fileMappings = { data: 'file1', ground_truth: 'file2' };
 
-      if (versionInfo?.version?.tasks) {
-        return versionInfo.version.tasks.some((task: any) => this.taskMatches(task));
+      if (item.data.file_mappings) {
+        fileMappings = {
+          data: item.data.file_mappings.generic_data || 'file1',
+          ground_truth: item.data.file_mappings.generic_ground_truth || 'file2'
+        };
       }
 
-      const tasks = metric.data?.version?.tasks || [];
-      return tasks.some((task: any) => this.taskMatches(task));
-    });
+      datasets.push({
+        module_id: item.data.dataset_id,
+        version: item.data.selected_version,
+        file_mappings: fileMappings
+      });
+    }
+
+    const indexOf = (items: any[], id: string) => items.findIndex(item => item.id === id);
+    return {
+      name: this.name,
+      description: this.description,
+      task: {
+        module_id: this.selectedTaskId || '1',
+        version: this.selectedTaskVersion || '1',
+        name: this.selectedTaskType
+      },
+      datasets,
+      models: modelItems.map(item => this.toExportedModule(item.data.modl_id, item.data)),
+      metrics: metricItems.map(item => this.toExportedModule(item.data.metric_id, item.data)),
+      ...(pipelines ? {
+        pipelines: pipelines.map((p): ExportedPipeline => ({
+          dataset: indexOf(datasetItems, p.datasetId),
+          model: indexOf(modelItems, p.modelId),
+          metrics: p.metricIds.map(id => indexOf(metricItems, id)),
+          processors: this.toExportedProcessors(p.processorIds),
+          output_processors: this.toExportedProcessors(p.outputProcessorIds)
+        }))
+      } : {})
+    };
   }
 
-  onExport() {
-    // Collect all items from each view
-    const allDatasets = [];
-    const allModels = [];
-    const allMetrics = [];
-
-    // Get all datasets (datasets are global)
-    for (const item of this.datasets) {
-      if (item.data && item.data.dataset_id && item.data.selected_version) {
-        // Use generic file mappings if available, otherwise fall back to defaults
-        let fileMappings = { data: 'file1', ground_truth: 'file2' };
-        
-        if (item.data.file_mappings) {
-          fileMappings = {
-            data: item.data.file_mappings.generic_data || 'file1',
-            ground_truth: item.data.file_mappings.generic_ground_truth || 'file2'
-          };
-        }
-        
-        allDatasets.push({
-          id: item.data.dataset_id,
-          version: item.data.selected_version,
-          fileMappings: fileMappings
-        });
-      }
+  /** Pipelines among the exported items, or null to export every combination (no graph, or nothing wired). */
+  private wiredPipelines(datasets: any[], models: any[], metrics: any[]): GraphPipeline[] | null {
+    if (!this.topology) {
+      return null;
     }
+    const ids = (items: any[]) => items.map(item => item.id);
+    const pipelines = exportedPipelines(this.topology, ids(datasets), ids(models), ids(metrics));
+    return pipelines.length > 0 ? pipelines : null;
+  }
 
-    // Get filtered models with hyperparameters
-    for (const item of this.getFilteredModels()) {
-      const modelData = {
-        id: item.data.modl_id,
-        version: item.data.selected_version,
-        hyperparameterSets: item.data.hyperparameter_sets || []
-      };
-      allModels.push(modelData);
-    }
+  /** Configured processors only; unconfigured ones pass the data through unchanged. */
+  private toExportedProcessors(ids: string[]): ExportedProcessor[] {
+    return ids
+      .map(id => this.topology?.processors[id])
+      .filter(data => data?.processor_id)
+      .map(data => ({ processor_id: data.processor_id, parameters: this.toParameterValues(data.parameters ?? {}) }));
+  }
 
-    // Get filtered metrics with hyperparameters
-    for (const item of this.getFilteredMetrics()) {
-      const metricData = {
-        id: item.data.metric_id,
-        version: item.data.selected_version,
-        hyperparameterSets: item.data.hyperparameter_sets || []
-      };
-      allMetrics.push(metricData);
-    }
+  /** Keep only parameters that were given a value (parameters[name] = { value, data_type }). */
+  private toExportedModule(id: string | number, data: any): ExportedModule {
+    const sets: any[] = data.hyperparameter_sets || [];
+    return {
+      module_id: id,
+      version: data.selected_version,
+      hyperparameter_sets: sets.map(set => this.toParameterValues(set.parameters))
+    };
+  }
 
-    // Format the output
-    let output = `# Created using CausalBench+ Designer v1.2a
-from causalbench.modules import Dataset, Model, Metric, Task, Context, Run
-
-context1: Context = Context.create(task=${this.getTaskExportExpression()},
-   name='${this.name}',
-   description='${this.description}',
-   datasets=[
-`;
-
-    // Add datasets
-    for (let i = 0; i < allDatasets.length; i++) {
-      const dataset = allDatasets[i];
-      const fileMapping = `{'data': '${dataset.fileMappings.data}', 'ground_truth': '${dataset.fileMappings.ground_truth}'}`;
-      output += `      (Dataset(module_id=${dataset.id}, version=${dataset.version}), ${fileMapping})`;
-      if (i < allDatasets.length - 1) {
-        output += ',';
+  private toParameterValues(values: Record<string, any>): Record<string, HyperparameterValue> {
+    const parameters: Record<string, HyperparameterValue> = {};
+    for (const [paramName, paramValue] of Object.entries(values)) {
+      const hasType = paramValue && typeof paramValue === 'object' && 'value' in paramValue;
+      const scalar = hasType ? paramValue.value : paramValue;
+      if (scalar !== undefined && scalar !== null && scalar !== '') {
+        parameters[paramName] = { value: scalar, data_type: hasType ? paramValue.data_type : '' };
       }
-      output += '\n';
     }
+    return parameters;
+  }
 
-    output += '   ],\n   models=[';
-
-    // Add models with hyperparameters
-    const modelEntries = [];
-    for (const model of allModels) {
-      // If model has hyperparameter sets, create entries for each set
-      if (model.hyperparameterSets && model.hyperparameterSets.length > 0) {
-        for (const hyperparamSet of model.hyperparameterSets) {
-          const hyperparamEntries = [];
-          for (const [paramName, paramValue] of Object.entries(hyperparamSet.parameters as Record<string, { value: any; data_type: string }>)) {
-            const scalar = paramValue && typeof paramValue === 'object' && 'value' in paramValue ? paramValue.value : paramValue;
-            if (scalar !== undefined && scalar !== null && scalar !== '') {
-              const isString = paramValue && typeof paramValue === 'object' && paramValue.data_type === 'string';
-              if (isString || typeof scalar === 'string') {
-                hyperparamEntries.push(`'${paramName}': '${String(scalar).replace(/'/g, "\\'")}'`);
-              } else {
-                hyperparamEntries.push(`'${paramName}': ${scalar}`);
-              }
-            }
-          }
-          
-          const hyperparamConfig = hyperparamEntries.length > 0 ? 
-            `{${hyperparamEntries.join(', ')}}` : '{}';
-          
-          modelEntries.push(`(Model(module_id=${model.id}, version=${model.version}), ${hyperparamConfig})`);
-        }
-      } else {
-        // No hyperparameters defined
-        modelEntries.push(`(Model(module_id=${model.id}, version=${model.version}), {})`);
-      }
+  /** Default filename: a slug of the context name, e.g. "My Context!" -> my_context.py */
+  get defaultFilename(): string {
+    const slug = this.name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+    return `${slug || 'context_export'}.${this.contextExportService.fileExtension(this.format)}`;
+  }
+
+  get exportFilename(): string {
+    const custom = this.customFilename.trim();
+    if (!custom) {
+      return this.defaultFilename;
     }
-    
-    output += modelEntries.join(', ');
-
-    output += '],\n   metrics=[';
-
-    // Add metrics with hyperparameters (same structure as models: parameters[name] = { value, data_type })
-    const metricEntries = [];
-    for (const metric of allMetrics) {
-      // If metric has hyperparameter sets, create entries for each set
-      if (metric.hyperparameterSets && metric.hyperparameterSets.length > 0) {
-        for (const hyperparamSet of metric.hyperparameterSets) {
-          const hyperparamEntries = [];
-          for (const [paramName, paramValue] of Object.entries(hyperparamSet.parameters as Record<string, { value: any; data_type: string }>)) {
-            const scalar = paramValue && typeof paramValue === 'object' && 'value' in paramValue ? paramValue.value : paramValue;
-            if (scalar !== undefined && scalar !== null && scalar !== '') {
-              const isString = paramValue && typeof paramValue === 'object' && paramValue.data_type === 'string';
-              if (isString || typeof scalar === 'string') {
-                hyperparamEntries.push(`'${paramName}': '${String(scalar).replace(/'/g, "\\'")}'`);
-              } else {
-                hyperparamEntries.push(`'${paramName}': ${scalar}`);
-              }
-            }
-          }
-          const hyperparamConfig = hyperparamEntries.length > 0 ? `{${hyperparamEntries.join(', ')}}` : '{}';
-          metricEntries.push(`(Metric(module_id=${metric.id}, version=${metric.version}), ${hyperparamConfig})`);
-        }
-      } else {
-        metricEntries.push(`(Metric(module_id=${metric.id}, version=${metric.version}), {})`);
+    const extension = `.${this.contextExportService.fileExtension(this.format)}`;
+    return custom.toLowerCase().endsWith(extension) ? custom : custom + extension;
+  }
+
+  async onCopyToClipboard() {
+    if (this.validationReport.errorCount > 0) {
+      return;
+    }
+    const text = this.preview;
+    try {
+      await navigator.clipboard.writeText(text);
+      this.copyStatus = 'copied';
+    } catch (error) {
+      // Clipboard API is unavailable outside secure contexts; fall back to a temporary textarea
+      const textarea = document.createElement('textarea');
+      textarea.value = text;
+      textarea.style.position = 'fixed';
+      textarea.style.opacity = '0';
+      document.body.appendChild(textarea);
+      textarea.select();
+      this.copyStatus = document.execCommand('copy') ? 'copied' : 'failed';
+      document.body.removeChild(textarea);
+      if (this.copyStatus === 'failed') {
+        console.error('Error copying context to clipboard:', error);
       }
     }
-    
-    output += metricEntries.join(', ');
 
-    output += `])
-# Uncomment if you'd like to publish the context to the CausalBench+ server.
-# context1.publish()
-run: Run = context1.execute()
-print(run)
-# Uncomment if you'd like to publish the run to the CausalBench+ server (requires the context to be published first).
-# run.publish()`;
+    if (this.copyStatusTimer) {
+      clearTimeout(this.copyStatusTimer);
+    }
+    this.copyStatusTimer = setTimeout(() => this.copyStatus = 'idle', 2000);
+  }
 
+  onExport() {
+    if (this.validationReport.errorCount > 0) {
+      alert('Fix the errors listed under "Validation" before exporting.');
+      return;
+    }
+    const filename = this.exportFilename;
+    const output = this.preview;
 
     // Create and download the file
-    this.downloadFile(output, 'context_export.py');
-    
+    downloadFile(output, filename, this.contextExportService.mimeType(this.format));
+    console.log(`Context exported successfully to: ${filename}`);
+
     // Close the dialog
     this.onClose();
   }
-
-  private downloadFile(content: string, filename: string) {
-    const blob = new Blob([content], { type: 'text/plain' });
-    const url = window.URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = filename;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    window.URL.revokeObjectURL(url);
-    
-    console.log(`Context exported successfully to: ${filename}`);
-  }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,106 @@
+import { Component, EventEmitter, Input, OnChanges, OnDestroy, OnInit, Output, SimpleChanges } from '@angular/core';
+import { Subscription } from 'rxjs';
+import { GraphDocument, GraphDocumentService, GraphView, SavedGraph } from '../../services/graph-document.service';
+import { downloadFile, readFileAsText } from '../../utils/file-io';
+
+/** Saves the node editor graph to this browser or a JSON file, and opens saved graphs. */
+@Component({
+  selector: 'app-graph-documents-dialog',
+  templateUrl: './graph-documents-dialog.component.html',
+  styleUrls: ['./graph-documents-dialog.component.scss']
+})
+export class GraphDocumentsDialogComponent implements OnInit, OnChanges, OnDestroy {
+  @Input() showDialog = false;
+  /** Canvas pan and zoom, saved with the graph */
+  @Input() view: GraphView = { offset: { x: 0, y: 0 }, scale: 1 };
+  /** Suggested name, e.g. the context name */
+  @Input() defaultName = '';
+  /** Whether opening a graph would replace nodes on the canvas */
+  @Input() hasCurrentGraph = false;
+  @Output() closeDialog = new EventEmitter<void>();
+  /** Emitted after a graph was opened, with the canvas view to show it with */
+  @Output() opened = new EventEmitter<GraphView>();
+
+  graphName = '';
+  savedGraphs: SavedGraph[] = [];
+  private subscription?: Subscription;
+
+  constructor(private graphDocuments: GraphDocumentService) { }
+
+  ngOnInit() {
+    this.subscription = this.graphDocuments.saved$.subscribe(graphs => this.savedGraphs = graphs);
+  }
+
+  ngOnChanges(changes: SimpleChanges) {
+    if (changes['showDialog'] && this.showDialog) {
+      this.graphName = this.defaultName;
+    }
+  }
+
+  ngOnDestroy() {
+    this.subscription?.unsubscribe();
+  }
+
+  get trimmedName(): string {
+    return this.graphName.trim() || 'Untitled graph';
+  }
+
+  onSaveToBrowser() {
+    const name = this.trimmedName;
+    if (this.savedGraphs.some(g => g.name === name) && !confirm(`Replace the saved graph "${name}"?`)) {
+      return;
+    }
+    try {
+      this.graphDocuments.saveToBrowser(this.graphDocuments.create(name, this.view));
+    } catch (error) {
+      alert(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  onDownload() {
+    const document = this.graphDocuments.create(this.trimmedName, this.view);
+    const filename = `${this.trimmedName.replace(/[^\w.-]+/g, '_')}.graph.json`;
+    downloadFile(this.graphDocuments.toJson(document), filename, 'application/json');
+  }
+
+  async onOpenFile(event: Event) {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    // Reset so selecting the same file again still triggers a change
+    input.value = '';
+    if (!file) {
+      return;
+    }
+    try {
+      this.open(this.graphDocuments.parse(await readFileAsText(file)));
+    } catch (error) {
+      alert(`Could not open graph: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  onOpenSaved(graph: SavedGraph) {
+    this.open(graph.document);
+  }
+
+  onDelete(graph: SavedGraph) {
+    if (confirm(`Delete the saved graph "${graph.name}"? This cannot be undone.`)) {
+      this.graphDocuments.remove(graph.id);
+    }
+  }
+
+  onClose() {
+    this.closeDialog.emit();
+  }
+
+  trackById(index: number, graph: SavedGraph) {
+    return graph.id;
+  }
+
+  private open(document: GraphDocument) {
+    if (this.hasCurrentGraph && !confirm('Replace the current graph? You can undo this.')) {
+      return;
+    }
+    this.opened.emit(this.graphDocuments.open(document));
+    this.onClose();
+  }
+}
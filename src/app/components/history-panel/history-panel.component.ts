@@ -0,0 +1,67 @@
+import { Component, HostListener, OnDestroy, OnInit } from '@angular/core';
+import { Subscription } from 'rxjs';
+import { ContextHistory, ContextStoreService } from '../../services/context-store.service';
+
+/** Undo/redo buttons for the title bar, with a dropdown listing the recorded edits. */
+@Component({
+  selector: 'app-history-panel',
+  templateUrl: './history-panel.component.html',
+  styleUrls: ['./history-panel.component.scss']
+})
+export class HistoryPanelComponent implements OnInit, OnDestroy {
+  history: ContextHistory = { past: [], future: [] };
+  showList = false;
+  private subscription?: Subscription;
+
+  constructor(private contextStore: ContextStoreService) { }
+
+  ngOnInit() {
+    this.subscription = this.contextStore.history$.subscribe(history => this.history = history);
+  }
+
+  ngOnDestroy() {
+    this.subscription?.unsubscribe();
+  }
+
+  get undoLabel(): string {
+    const last = this.history.past[this.history.past.length - 1];
+    return last ? `Undo ${last.label} (Ctrl+Z)` : 'Nothing to undo';
+  }
+
+  get redoLabel(): string {
+    const next = this.history.future[0];
+    return next ? `Redo ${next.label} (Ctrl+Shift+Z)` : 'Nothing to redo';
+  }
+
+  /** Applied edits, newest first. */
+  get pastEntries() {
+    return [...this.history.past].reverse();
+  }
+
+  /** Undone edits, the one furthest from the current state first. */
+  get futureEntries() {
+    return [...this.history.future].reverse();
+  }
+
+  undo() {
+    this.contextStore.undo();
+  }
+
+  redo() {
+    this.contextStore.redo();
+  }
+
+  jumpTo(id: number | null) {
+    this.contextStore.jumpTo(id);
+  }
+
+  toggleList(event: Event) {
+    event.stopPropagation();
+    this.showList = !this.showList;
+  }
+
+  @HostListener('document:click')
+  onDocumentClick() {
+    this.showList = false;
+  }
+}
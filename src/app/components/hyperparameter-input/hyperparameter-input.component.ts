@@ -0,0 +1,48 @@
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+import { Hyperparameter } from '../../models/catalog';
+import { HyperparameterWidget, hyperparameterWidget, validateHyperparameterValue } from '../../utils/hyperparameter-validation';
+
+/** Value input for one hyperparameter, picked by data type and allowed values, with an inline validation message. */
+@Component({
+  selector: 'app-hyperparameter-input',
+  templateUrl: './hyperparameter-input.component.html',
+  styleUrls: ['./hyperparameter-input.component.scss']
+})
+export class HyperparameterInputComponent {
+  @Input() param!: Hyperparameter;
+  /** Text of the value; empty means the default */
+  @Input() value = '';
+  /** Another set already uses this value */
+  @Input() duplicate = false;
+  @Output() valueChange = new EventEmitter<string>();
+
+  get widget(): HyperparameterWidget {
+    return hyperparameterWidget(this.param);
+  }
+
+  get error(): string | null {
+    return validateHyperparameterValue(this.value, this.param);
+  }
+
+  /** The stored value is not one of the options (e.g. restored from an older version), so it gets its own entry */
+  get valueNotListed(): boolean {
+    return this.value !== '' && !this.param.allowed_values.includes(String(this.value));
+  }
+
+  get checked(): boolean {
+    return /^(true|yes|on|1)$/i.test(String(this.value).trim() || this.param.hyperparameter_value.trim());
+  }
+
+  onValueChange(value: string) {
+    this.value = value;
+    this.valueChange.emit(value);
+  }
+
+  onInput(event: Event) {
+    this.onValueChange((event.target as HTMLInputElement | HTMLTextAreaElement).value);
+  }
+
+  onToggle(event: Event) {
+    this.onValueChange((event.target as HTMLInputElement).checked ? 'True' : 'False');
+  }
+}
@@ -0,0 +1,97 @@
+import { Component, EventEmitter, Input, OnChanges, Output, SimpleChanges } from '@angular/core';
+import { Hyperparameter } from '../../models/catalog';
+import {
+  MAX_SWEEP_COMBINATIONS,
+  SweepMode,
+  SweepParameter,
+  SweepParameterValues,
+  countSweepCombinations,
+  createSweepParameter,
+  expandSweep,
+  supportsRange
+} from '../../utils/hyperparameter-sweep';
+
+export interface SweepGenerated {
+  sets: SweepParameterValues[];
+  /** Replace the existing configurations instead of appending */
+  replace: boolean;
+}
+
+/** Sweep editor: a list or (log-)range of values per hyperparameter, expanded into one configuration per combination. */
+@Component({
+  selector: 'app-hyperparameter-sweep',
+  templateUrl: './hyperparameter-sweep.component.html',
+  styleUrls: ['./hyperparameter-sweep.component.scss']
+})
+export class HyperparameterSweepComponent implements OnChanges {
+  @Input() hyperparameters: Hyperparameter[] = [];
+  @Output() generate = new EventEmitter<SweepGenerated>();
+
+  readonly maxCombinations = MAX_SWEEP_COMBINATIONS;
+  parameters: SweepParameter[] = [];
+  combinationCount = 0;
+  errorMessage = '';
+
+  ngOnChanges(changes: SimpleChanges) {
+    if (changes['hyperparameters']) {
+      // Keep what was typed for parameters that are still there (e.g. after switching version)
+      this.parameters = this.hyperparameters.map(hp =>
+        this.parameters.find(p => p.name === hp.hyperparameter_name) ?? createSweepParameter(hp));
+      this.updatePreview();
+    }
+  }
+
+  supportsRange(parameter: SweepParameter): boolean {
+    return supportsRange(parameter.data_type);
+  }
+
+  hyperparameterFor(parameter: SweepParameter): Hyperparameter | undefined {
+    return this.hyperparameters.find(hp => hp.hyperparameter_name === parameter.name);
+  }
+
+  onModeChange(parameter: SweepParameter, mode: SweepMode) {
+    parameter.mode = mode;
+    this.updatePreview();
+  }
+
+  useAllowedValues(parameter: SweepParameter) {
+    const hyperparameter = this.hyperparameterFor(parameter);
+    if (hyperparameter) {
+      parameter.mode = 'list';
+      parameter.values = hyperparameter.allowed_values.join(', ');
+      this.updatePreview();
+    }
+  }
+
+  updatePreview() {
+    try {
+      this.combinationCount = countSweepCombinations(this.parameters);
+      this.errorMessage = this.combinationCount > MAX_SWEEP_COMBINATIONS
+        ? `${this.combinationCount} combinations exceed the limit of ${MAX_SWEEP_COMBINATIONS}.`
+        : '';
+    } catch (error) {
+      this.combinationCount = 0;
+      this.errorMessage = error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  onGenerate(replace: boolean) {
+    try {
+      const sets = expandSweep(this.parameters);
+      if (sets.length > 0) {
+        this.generate.emit({ sets, replace });
+      }
+    } catch (error) {
+      this.errorMessage = error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  onClear() {
+    this.parameters = this.hyperparameters.map(createSweepParameter);
+    this.updatePreview();
+  }
+
+  trackByName(index: number, parameter: SweepParameter) {
+    return parameter.name;
+  }
+}
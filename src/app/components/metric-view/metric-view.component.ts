@@ -20,7 +20,8 @@ export class MetricViewComponent {
       if (metric.data.metric_version_info_list && metric.data.metric_version_info_list.length > 0) {
         return metric.data.metric_version_info_list[0].metric.metric_name || 'Unknown Metric';
       }
-      return 'Configured Metric';
+      // Restored project entries that no longer exist on the server only carry their saved name
+      return metric.data.metric_name || 'Configured Metric';
     } else {
       // New item without data
       return 'New Metric';
@@ -20,7 +20,8 @@ export class ModelViewComponent {
       if (model.data.modl_version_info_list && model.data.modl_version_info_list.length > 0) {
         return model.data.modl_version_info_list[0].modl.modl_name || 'Unknown Model';
       }
-      return 'Configured Model';
+      // Restored project entries that no longer exist on the server only carry their saved name
+      return model.data.modl_name || 'Configured Model';
     } else {
       // New item without data
       return 'New Model';
@@ -0,0 +1,80 @@
+import { of } from 'rxjs';
+import { CatalogStoreService } from '../../services/catalog-store.service';
+import { CompatibilityService } from '../../services/compatibility.service';
+import { ContextStoreService } from '../../services/context-store.service';
+import { NodeEditorComponent } from './node-editor.component';
+
+const NOTEARS = { modl_id: 7, modl_name: 'NOTEARS', selected_version: '2', hyperparameter_sets: [{ name: 'a', parameters: { alpha: { value: '1', data_type: 'int' } } }] };
+
+describe('NodeEditorComponent copy and paste', () => {
+  let store: ContextStoreService;
+  let editor: NodeEditorComponent;
+
+  beforeEach(() => {
+    const emptyCatalog = { items: [], load: { status: 'complete', loaded: 0, total: 0, fetchedAt: null, revalidating: false } };
+    const catalogStore = jasmine.createSpyObj<CatalogStoreService>('CatalogStoreService', { select: of(emptyCatalog) as any });
+    store = new ContextStoreService();
+    editor = new NodeEditorComponent(catalogStore, store, new CompatibilityService());
+    editor.ngOnInit();
+    spyOn(window, 'alert');
+  });
+
+  afterEach(() => editor.ngOnDestroy());
+
+  /** A processor feeding a configured model, as one selection. */
+  function selectPipeline(): { processor: string; model: string } {
+    const processor = store.addProcessor({ x: 0, y: 0 }, { processor_id: 'normalize' });
+    const model = store.addItem('model', NOTEARS, { x: 100, y: 0 });
+    store.addEdge({ sourceNodeId: processor, sourcePortId: 'output', targetNodeId: model, targetPortId: 'data' });
+    editor.selectNodes([processor, model]);
+    return { processor, model };
+  }
+
+  it('pastes copies with their edges as one command, further away on each paste', () => {
+    const { processor, model } = selectPipeline();
+    editor.copySelection();
+
+    editor.pasteClipboard();
+    editor.pasteClipboard();
+
+    const processors = store.state.graph.processors;
+    expect(processors.length).toBe(3);
+    expect(store.state.graph.positions[processors[1].id]).toEqual({ x: 30, y: 30 });
+    expect(store.state.graph.positions[processors[2].id]).toEqual({ x: 60, y: 60 });
+    expect(store.state.graph.edges.length).toBe(3);
+    const pasted = store.state.graph.edges[2];
+    expect([pasted.sourceNodeId, pasted.targetNodeId]).toEqual([processors[2].id, store.state.models[2].id]);
+    expect(editor.selectedNodeIds).toEqual([processors[2].id, store.state.models[2].id]);
+    expect(editor.selectedNodeIds).not.toContain(processor);
+    expect(editor.selectedNodeIds).not.toContain(model);
+
+    store.undo();
+    expect(store.state.graph.processors.length).toBe(2);
+    expect(store.state.models.length).toBe(2);
+  });
+
+  it('clears the version of a copied item that is already in the context and keeps its other settings', () => {
+    selectPipeline();
+
+    editor.duplicateSelection();
+
+    const [original, copy] = store.state.models;
+    expect(original.data.selected_version).toBe('2');
+    expect(copy.data.selected_version).toBeUndefined();
+    expect(copy.data.hyperparameter_sets).toEqual(NOTEARS.hyperparameter_sets);
+    expect(copy.data).not.toBe(original.data);
+    expect(window.alert).toHaveBeenCalledWith('The same version is already in the context, so these copies have no version selected yet:\nNOTEARS v2');
+  });
+
+  it('keeps the version of a copy once the original is gone', () => {
+    const { processor, model } = selectPipeline();
+    editor.copySelection();
+    store.removeNode(model);
+    store.removeNode(processor);
+
+    editor.pasteClipboard();
+
+    expect(store.state.models.map(item => item.data.selected_version)).toEqual(['2']);
+    expect(window.alert).not.toHaveBeenCalled();
+  });
+});
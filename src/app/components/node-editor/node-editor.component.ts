@@ -1,11 +1,24 @@
-import { Component, OnInit, ViewChild, ElementRef, HostListener } from '@angular/core';
-import { ApiService } from '../../services/api.service';
-import { TokenService } from '../../services/token.service';
+import { Component, OnInit, OnDestroy, ViewChild, ElementRef, HostListener } from '@angular/core';
+import { Subscription } from 'rxjs';
+import { CatalogLoadState } from '../../services/catalog-provider';
+import { CatalogStoreService } from '../../services/catalog-store.service';
+import { CompatibilityService } from '../../services/compatibility.service';
+import { findDuplicateItem } from '../../services/context-validation.service';
+import { GraphView } from '../../services/graph-document.service';
+import { ContextEdge, ContextItem, ContextNodePosition, ContextState, ContextStoreService } from '../../services/context-store.service';
+import { DatasetDescriptor, MetricDescriptor, ModelDescriptor, TaskDescriptor, VersionInfo } from '../../models/catalog';
+import { PROCESSOR_CATALOG, ProcessorConfig, ProcessorDescriptor, defaultProcessorConfig, describeProcessorParameters, findProcessor } from '../../models/processor-catalog';
+import { createFileMappings } from '../../utils/file-mappings';
+import { GraphTopology, analyzeGraphTopology } from '../../utils/graph-topology';
+import { describeHyperparameterIssues, findHyperparameterIssues } from '../../utils/hyperparameter-validation';
+import { PORT_DATA_TYPES, PortDataType, PortDefinition, canonicalEdges, nodeInputPorts, nodeOutputPorts, portConnectionProblem } from '../../utils/node-ports';
+import { SweepGenerated } from '../hyperparameter-sweep/hyperparameter-sweep.component';
 
 export interface NodePort {
   id: string;
   name: string;
   type: 'input' | 'output';
+  dataType: PortDataType;
   x: number;
   y: number;
 }
@@ -24,20 +37,23 @@ export interface GraphNode {
   selected: boolean;
 }
 
-export interface GraphEdge {
-  id: string;
-  sourceNodeId: string;
-  sourcePortId: string;
-  targetNodeId: string;
-  targetPortId: string;
+export type GraphEdge = ContextEdge;
+
+/** Nodes copied in the node editor, with the edges between them. */
+interface GraphClipboard {
+  nodes: { id: string; type: GraphNode['type']; data: any; position: ContextNodePosition }[];
+  edges: GraphEdge[];
 }
 
+// Pasted and duplicated nodes are moved this far right and down, so they do not hide the originals
+const PASTE_OFFSET = 30;
+
 @Component({
   selector: 'app-node-editor',
   templateUrl: './node-editor.component.html',
   styleUrls: ['./node-editor.component.scss']
 })
-export class NodeEditorComponent implements OnInit {
+export class NodeEditorComponent implements OnInit, OnDestroy {
   @ViewChild('canvas', { static: true }) canvasRef!: ElementRef<SVGElement>;
   @ViewChild('container', { static: true }) containerRef!: ElementRef<HTMLDivElement>;
 
@@ -50,10 +66,17 @@ export class NodeEditorComponent implements OnInit {
   isPanning = false;
   panStart = { x: 0, y: 0 };
   
-  // Node interaction
-  selectedNode: GraphNode | null = null;
-  draggingNode: GraphNode | null = null;
-  dragOffset = { x: 0, y: 0 };
+  // Node interaction; the last selected node is the one selected in the list designer
+  selectedNodeIds: string[] = [];
+  // Rubber-band selection, in canvas coordinates
+  selectionBox: { start: ContextNodePosition; end: ContextNodePosition; additive: boolean } | null = null;
+  // Nodes being dragged, with their positions when the drag started
+  private drag: { start: ContextNodePosition; origins: Map<string, ContextNodePosition>; collapseTo: string | null } | null = null;
+  // Set after a rubber-band selection, so the click that ends it does not clear the selection
+  private suppressCanvasClick = false;
+  private clipboard: GraphClipboard | null = null;
+  // Each paste of the same clipboard lands a bit further away
+  private pasteCount = 0;
   
   // Edge creation
   connectingPort: { nodeId: string; portId: string; type: 'input' | 'output' } | null = null;
@@ -72,9 +95,9 @@ export class NodeEditorComponent implements OnInit {
   detailNode: GraphNode | null = null;
   
   // Available items from API
-  availableDatasets: any[] = [];
-  availableModels: any[] = [];
-  availableMetrics: any[] = [];
+  availableDatasets: DatasetDescriptor[] = [];
+  availableModels: ModelDescriptor[] = [];
+  availableMetrics: MetricDescriptor[] = [];
   loadingDatasets = false;
   loadingModels = false;
   loadingMetrics = false;
@@ -84,6 +107,13 @@ export class NodeEditorComponent implements OnInit {
   selectedVersion = '';
   versions: string[] = [];
   itemName = '';
+  showVersionDiff = false;
+  showGraphDocuments = false;
+
+  // Processor detail panel: built-in processors and the configuration being edited
+  readonly dataProcessors = PROCESSOR_CATALOG.filter(p => p.stage === 'data');
+  readonly outputProcessors = PROCESSOR_CATALOG.filter(p => p.stage === 'output');
+  processorConfig: ProcessorConfig | null = null;
   itemDescription = '';
   itemAuthor = '';
   itemVisibility = '';
@@ -106,10 +136,11 @@ export class NodeEditorComponent implements OnInit {
   // Hyperparameter management
   availableHyperparameters: any[] = [];
   hyperparameterSets: any[] = [];
+  showSweepEditor = false;
   showHyperparameterSection = false;
   
   // Task selection (full descriptors: task_id, task_name, task_version_info_list)
-  availableTasks: any[] = [];
+  availableTasks: TaskDescriptor[] = [];
   selectedTaskId: string = '';
   selectedTaskVersion: string = '';
   taskVersions: string[] = [];
@@ -119,104 +150,199 @@ export class NodeEditorComponent implements OnInit {
   // Export dialog state
   showExportDialog = false;
 
+  // Compatibility warnings of the edges that feed a model, and of edges whose port types no longer match, by edge id
+  edgeWarnings: Record<string, string[]> = {};
+  readonly portDataTypes = PORT_DATA_TYPES;
+  readonly portLegend = Object.values(PORT_DATA_TYPES);
+  readonly edgeMarkers = [
+    ...Object.entries(PORT_DATA_TYPES).map(([id, type]) => ({ id, color: type.color })),
+    { id: 'warning', color: '#e67e22' },
+    { id: 'default', color: '#666' }
+  ];
+  // Dataset → model → metric pipelines drawn in the graph, used by the export
+  topology: GraphTopology = { pipelines: [], issues: [], processors: {} };
+
+  private subscriptions = new Subscription();
+  private context!: ContextState;
+
   constructor(
-    private apiService: ApiService,
-    private tokenService: TokenService
+    private catalogStore: CatalogStoreService,
+    private contextStore: ContextStoreService,
+    private compatibilityService: CompatibilityService
   ) { }
 
   ngOnInit() {
-    this.updatePortPositions();
+    this.subscriptions.add(this.contextStore.state$.subscribe(context => this.applyContext(context)));
     this.loadAvailableData();
     this.loadTasks();
-    // Initialize canvas with some default nodes for demonstration
-    setTimeout(() => {
-      this.updateCanvasSize();
-      // Add some example nodes to demonstrate the Blueprints design
-      this.addExampleNodes();
-    }, 100);
+    setTimeout(() => this.updateCanvasSize(), 100);
   }
 
-  loadTasks() {
-    this.tokenService.token$.subscribe(token => {
-      this.loadingTasks = true;
-      this.apiService.getTasks(token).subscribe({
-        next: (tasks: any[]) => {
-          this.availableTasks = tasks;
-          this.loadingTasks = false;
-        },
-        error: (error) => {
-          console.error('Error fetching tasks:', error);
-          this.loadingTasks = false;
-        }
+  ngOnDestroy() {
+    this.subscriptions.unsubscribe();
+  }
+
+  /** Rebuild the graph from the shared context; nodes are local copies, so dragging can move them before the drop is stored. */
+  private applyContext(context: ContextState) {
+    const taskChanged = context.task !== this.context?.task;
+    this.context = context;
+    this.nodes = this.buildNodes(context);
+    this.edges = canonicalEdges(context);
+    this.edgeWarnings = this.checkEdgeCompatibility(context);
+    this.checkEdgePortTypes();
+    this.topology = analyzeGraphTopology(context);
+    this.updatePortPositions();
+
+    const byId = (node: GraphNode | null) => node ? this.nodes.find(n => n.id === node.id) ?? null : null;
+    this.selectedNodeIds = this.selectedNodeIds.filter(id => this.nodes.some(n => n.id === id));
+    this.detailNode = byId(this.detailNode);
+    if (!this.detailNode) {
+      this.showDetailPanel = false;
+    }
+
+    if (taskChanged) {
+      this.selectedTaskId = context.task.id;
+      this.selectedTaskVersion = context.task.version;
+      this.selectedTaskName = context.task.name;
+      this.syncTaskVersions();
+      // Refresh dropdown options when task changes (for task-based filtering/highlighting)
+      this.updateDropdownOptions();
+    }
+  }
+
+  /**
+   * For each edge into a model, the compatibility warnings of the datasets that reach it (directly or through
+   * processors) and of those datasets with the model.
+   */
+  private checkEdgeCompatibility(context: ContextState): Record<string, string[]> {
+    const datasets = new Map(context.datasets.map(item => [item.id, item]));
+    const models = new Map(context.models.map(item => [item.id, item]));
+    const upstreamDatasets = (nodeId: string, visited = new Set<string>()): string[] => {
+      if (visited.has(nodeId)) {
+        return [];
+      }
+      visited.add(nodeId);
+      if (datasets.has(nodeId)) {
+        return [nodeId];
+      }
+      return context.graph.edges
+        .filter(edge => edge.targetNodeId === nodeId)
+        .flatMap(edge => upstreamDatasets(edge.sourceNodeId, visited));
+    };
+
+    const warnings: Record<string, string[]> = {};
+    for (const edge of context.graph.edges) {
+      const model = models.get(edge.targetNodeId);
+      if (!model) {
+        continue;
+      }
+      const messages = upstreamDatasets(edge.sourceNodeId).flatMap(id => {
+        const dataset = datasets.get(id)!;
+        return [
+          ...this.compatibilityService.checkDataset(dataset, context.task),
+          ...this.compatibilityService.checkPair(dataset, model, context.task)
+        ];
       });
-    });
+      if (messages.length > 0) {
+        warnings[edge.id] = Array.from(new Set(messages));
+      }
+    }
+    return warnings;
   }
 
-  onTaskIdSelect() {
-    this.selectedTaskVersion = '';
-    this.taskVersions = [];
-    this.selectedTaskName = '';
-    const task = this.availableTasks.find((t: any) => String(t.task_id) === String(this.selectedTaskId));
-    if (task) {
-      this.selectedTaskName = task.task_name;
-      const versionList = task.task_version_info_list ?? [];
-      this.taskVersions = versionList.map((v: any) => String(v.version?.version_number ?? v.version_number ?? v));
-      if (this.taskVersions.length > 0) {
-        this.selectedTaskVersion = this.taskVersions[0];
+  /** Edges drawn before a node changed its ports' types, e.g. a processor configured for another stage. */
+  private checkEdgePortTypes() {
+    for (const edge of this.edges) {
+      const sourcePort = this.nodes.find(n => n.id === edge.sourceNodeId)?.outputPorts.find(p => p.id === edge.sourcePortId);
+      const targetPort = this.nodes.find(n => n.id === edge.targetNodeId)?.inputPorts.find(p => p.id === edge.targetPortId);
+      const problem = sourcePort && targetPort ? portConnectionProblem(sourcePort.dataType, targetPort.dataType) : null;
+      if (problem) {
+        this.edgeWarnings[edge.id] = [...(this.edgeWarnings[edge.id] ?? []), problem];
       }
     }
-    // Refresh dropdown options when task changes (for task-based filtering/highlighting)
-    this.updateDropdownOptions();
+  }
+
+  private buildNodes(context: ContextState): GraphNode[] {
+    const nodes: GraphNode[] = [];
+    const add = (id: string, type: GraphNode['type'], data: any, index: number) => {
+      // Keep nodes that are being dragged where the pointer is
+      const dragging = this.drag?.origins.has(id) ? this.nodes.find(n => n.id === id) : undefined;
+      const position = dragging ?? context.graph.positions[id] ?? this.defaultPosition(type, index);
+      nodes.push({
+        id,
+        type,
+        x: position.x,
+        y: position.y,
+        width: 200,
+        height: 140, // Increased height to accommodate subtitle and hyperparameter info
+        title: this.getNodeTitle(type),
+        data,
+        inputPorts: this.getInputPorts(type, data),
+        outputPorts: this.getOutputPorts(type, data),
+        selected: false
+      });
+    };
+    context.datasets.forEach((item, index) => add(item.id, 'dataset', item.data, index));
+    context.graph.processors.forEach((processor, index) => add(processor.id, 'processor', processor.data, index));
+    context.models.forEach((item, index) => add(item.id, 'model', item.data, index));
+    context.metrics.forEach((item, index) => add(item.id, 'metric', item.data, index));
+    return nodes;
+  }
+
+  /** Column per node type for items added in the list designer, which have no position yet. */
+  private defaultPosition(type: GraphNode['type'], index: number): ContextNodePosition {
+    const columns: Record<GraphNode['type'], number> = { dataset: 100, processor: 350, model: 600, metric: 850 };
+    return { x: columns[type], y: 100 + index * 180 };
+  }
+
+  loadTasks() {
+    this.subscriptions.add(this.catalogStore.select('tasks').subscribe(snapshot => {
+      this.availableTasks = snapshot.items;
+      this.loadingTasks = this.isLoading(snapshot.load);
+      this.syncTaskVersions();
+    }));
+  }
+
+  private syncTaskVersions() {
+    const task = this.availableTasks.find(t => String(t.task_id) === String(this.selectedTaskId));
+    this.taskVersions = task ? task.task_version_info_list.map(v => String(v.version.version_number)) : [];
+  }
+
+  onTaskIdSelect() {
+    const task = this.availableTasks.find(t => String(t.task_id) === String(this.selectedTaskId));
+    if (!task) {
+      this.contextStore.setTask(null);
+      return;
+    }
+    const versions = task.task_version_info_list.map(v => String(v.version.version_number));
+    this.contextStore.setTask({ id: this.selectedTaskId, version: versions[0] ?? '', name: task.task_name });
   }
 
   onTaskVersionSelect() {
-    // Version selection updated
+    this.contextStore.setTask({ id: this.selectedTaskId, version: this.selectedTaskVersion, name: this.selectedTaskName });
   }
 
   loadAvailableData() {
-    this.tokenService.token$.subscribe(token => {
-      // Load available datasets
-      this.loadingDatasets = true;
-      this.apiService.getDatasets(token).subscribe({
-        next: (data) => {
-          this.availableDatasets = data;
-          this.updateDropdownOptions();
-          this.loadingDatasets = false;
-        },
-        error: (error) => {
-          console.error('Error loading datasets:', error);
-          this.loadingDatasets = false;
-        }
-      });
-      
-      // Load available models
-      this.loadingModels = true;
-      this.apiService.getModels(token).subscribe({
-        next: (data) => {
-          this.availableModels = data;
-          this.updateDropdownOptions();
-          this.loadingModels = false;
-        },
-        error: (error) => {
-          console.error('Error loading models:', error);
-          this.loadingModels = false;
-        }
-      });
-      
-      // Load available metrics
-      this.loadingMetrics = true;
-      this.apiService.getMetrics(token).subscribe({
-        next: (data) => {
-          this.availableMetrics = data;
-          this.updateDropdownOptions();
-          this.loadingMetrics = false;
-        },
-        error: (error) => {
-          console.error('Error loading metrics:', error);
-          this.loadingMetrics = false;
-        }
-      });
-    });
+    this.subscriptions.add(this.catalogStore.select('datasets').subscribe(snapshot => {
+      this.availableDatasets = snapshot.items;
+      this.updateDropdownOptions();
+      this.loadingDatasets = this.isLoading(snapshot.load);
+    }));
+    this.subscriptions.add(this.catalogStore.select('models').subscribe(snapshot => {
+      this.availableModels = snapshot.items;
+      this.updateDropdownOptions();
+      this.loadingModels = this.isLoading(snapshot.load);
+    }));
+    this.subscriptions.add(this.catalogStore.select('metrics').subscribe(snapshot => {
+      this.availableMetrics = snapshot.items;
+      this.updateDropdownOptions();
+      this.loadingMetrics = this.isLoading(snapshot.load);
+    }));
+  }
+
+  // Cached records being revalidated in the background count as loaded
+  private isLoading(load: CatalogLoadState): boolean {
+    return load.status === 'loading' && !load.revalidating;
   }
 
   /** Match when the module's task (version.tasks entry) task id equals selected task_id. Use task_id/taskId only; never task.id (can be model id). Supports task as object or primitive id. */
@@ -353,37 +479,55 @@ export class NodeEditorComponent implements OnInit {
     this.onIdSelect();
   }
 
+  get contextName(): string {
+    return this.context.name;
+  }
+
+  get graphView(): GraphView {
+    return { offset: this.canvasOffset, scale: this.canvasScale };
+  }
+
+  /** Show an opened graph with the pan and zoom it was saved with. */
+  onGraphOpened(view: GraphView) {
+    this.canvasOffset = { ...view.offset };
+    this.canvasScale = view.scale;
+    this.selectedNodeIds = [];
+  }
+
+  /** Start over with an empty graph; the task stays selected. */
+  onNewBlankGraph() {
+    if (this.nodes.length > 0 && !confirm('Remove all nodes and start a blank graph? You can undo this.')) {
+      return;
+    }
+    const task = this.context.task;
+    this.contextStore.batch('New blank graph', () => {
+      this.contextStore.reset();
+      this.contextStore.setTask(task.id ? task : null);
+    });
+    this.canvasOffset = { x: 0, y: 0 };
+    this.canvasScale = 1.0;
+    this.selectedNodeIds = [];
+  }
+
   addExampleNodes() {
     // Add example nodes to show the Blueprints-style workflow
     const centerX = 400;
     const centerY = 300;
     
-    // Dataset node
-    this.createNode('dataset', centerX - 300, centerY - 50);
-    
-    // Preprocessing node
-    this.createNode('processor', centerX - 100, centerY - 50);
-    
-    // Model node
-    this.createNode('model', centerX + 100, centerY - 50);
-    
-    // Metric node
-    this.createNode('metric', centerX + 300, centerY - 50);
-    
-    // Auto-connect them to show the flow
-    setTimeout(() => {
-      if (this.nodes.length >= 4) {
-        // Connect dataset -> preprocessing
-        this.createEdge(this.nodes[0].id, this.nodes[0].outputPorts[0].id, 
-                       this.nodes[1].id, this.nodes[1].inputPorts[0].id);
-        // Connect preprocessing -> model
-        this.createEdge(this.nodes[1].id, this.nodes[1].outputPorts[0].id,
-                       this.nodes[2].id, this.nodes[2].inputPorts[0].id);
-        // Connect model -> metric
-        this.createEdge(this.nodes[2].id, this.nodes[2].outputPorts[0].id,
-                       this.nodes[3].id, this.nodes[3].inputPorts[0].id);
-      }
-    }, 200);
+    // Recorded as a single history entry
+    this.contextStore.batch('Add example nodes', () => {
+      const dataset = this.createNode('dataset', centerX - 300, centerY - 50);
+      const processor = this.createNode('processor', centerX - 100, centerY - 50);
+      const model = this.createNode('model', centerX + 100, centerY - 50);
+      const metric = this.createNode('metric', centerX + 300, centerY - 50);
+
+      // Connect them to show the flow: dataset -> preprocessing -> model -> metric, with the ground truth for the metric
+      this.createEdge(dataset, 'data', processor, 'input');
+      this.createEdge(processor, 'output', model, 'data');
+      this.createEdge(model, 'prediction', metric, 'prediction');
+      this.createEdge(dataset, 'ground_truth', metric, 'ground_truth');
+    });
+    this.selectNodes([]);
   }
 
   updateCanvasSize() {
@@ -410,14 +554,21 @@ export class NodeEditorComponent implements OnInit {
       this.panStart = { x: event.clientX, y: event.clientY };
     }
     
-    if (this.draggingNode) {
-      const rect = this.containerRef.nativeElement.getBoundingClientRect();
-      const x = (event.clientX - rect.left - this.canvasOffset.x) / this.canvasScale;
-      const y = (event.clientY - rect.top - this.canvasOffset.y) / this.canvasScale;
-      this.draggingNode.x = x - this.dragOffset.x;
-      this.draggingNode.y = y - this.dragOffset.y;
+    if (this.drag) {
+      const point = this.toCanvasPoint(event);
+      for (const node of this.nodes) {
+        const origin = this.drag.origins.get(node.id);
+        if (origin) {
+          node.x = origin.x + point.x - this.drag.start.x;
+          node.y = origin.y + point.y - this.drag.start.y;
+        }
+      }
       this.updatePortPositions();
     }
+
+    if (this.selectionBox) {
+      this.selectionBox.end = this.toCanvasPoint(event);
+    }
     
     if (this.tempEdgeEnd) {
       const rect = this.containerRef.nativeElement.getBoundingClientRect();
@@ -429,14 +580,64 @@ export class NodeEditorComponent implements OnInit {
   @HostListener('mouseup', ['$event'])
   onMouseUp(event: MouseEvent) {
     this.isPanning = false;
-    this.draggingNode = null;
+    if (this.drag) {
+      const drag = this.drag;
+      this.drag = null;
+      const dragged = this.nodes.filter(node => drag.origins.has(node.id));
+      const origin = (node: GraphNode) => drag.origins.get(node.id)!;
+      // A click without movement leaves the nodes where they were and records nothing
+      const moved = dragged.filter(node => node.x !== origin(node).x || node.y !== origin(node).y);
+      if (moved.length === 1) {
+        this.contextStore.moveNode(moved[0].id, { x: moved[0].x, y: moved[0].y });
+      } else if (moved.length > 1) {
+        this.contextStore.batch(`Move ${moved.length} nodes`, () => {
+          moved.forEach(node => this.contextStore.moveNode(node.id, { x: node.x, y: node.y }));
+        });
+      }
+      if (drag.collapseTo && moved.length === 0) {
+        this.selectNodes([drag.collapseTo]);
+      }
+    }
+
+    if (this.selectionBox) {
+      const box = this.selectionRect!;
+      const additive = this.selectionBox.additive;
+      this.selectionBox = null;
+      // A plain click on the canvas is left to onCanvasClick
+      if (box.width < 3 && box.height < 3) {
+        return;
+      }
+      this.suppressCanvasClick = true;
+      const inside = this.nodes
+        .filter(n => n.x < box.x + box.width && n.x + n.width > box.x && n.y < box.y + box.height && n.y + n.height > box.y)
+        .map(n => n.id);
+      this.selectNodes(additive ? [...this.selectedNodeIds, ...inside] : inside);
+    }
+  }
+
+  /** The rubber-band selection as a rectangle in canvas coordinates. */
+  get selectionRect(): { x: number; y: number; width: number; height: number } | null {
+    if (!this.selectionBox) {
+      return null;
+    }
+    const { start, end } = this.selectionBox;
+    return {
+      x: Math.min(start.x, end.x),
+      y: Math.min(start.y, end.y),
+      width: Math.abs(end.x - start.x),
+      height: Math.abs(end.y - start.y)
+    };
   }
 
   @HostListener('click', ['$event'])
   onCanvasClick(event: MouseEvent) {
+    if (this.suppressCanvasClick) {
+      this.suppressCanvasClick = false;
+      return;
+    }
     if (event.target === this.containerRef.nativeElement || 
         (event.target as Element).tagName === 'svg') {
-      this.selectedNode = null;
+      this.selectNodes([]);
       this.connectingPort = null;
       this.tempEdgeEnd = null;
       this.contextMenuVisible = false;
@@ -444,14 +645,28 @@ export class NodeEditorComponent implements OnInit {
   }
 
   onCanvasMouseDown(event: MouseEvent) {
+    this.suppressCanvasClick = false;
     if (event.button === 1 || (event.button === 0 && event.ctrlKey)) {
       // Middle mouse or Ctrl+Left mouse for panning
       this.isPanning = true;
       this.panStart = { x: event.clientX, y: event.clientY };
       event.preventDefault();
+    } else if (event.button === 0 && !(event.target as Element).closest('.node-group')) {
+      // Left drag on the empty canvas draws a selection box; with Shift it adds to the selection
+      const point = this.toCanvasPoint(event);
+      this.selectionBox = { start: point, end: point, additive: event.shiftKey };
+      event.preventDefault();
     }
   }
 
+  private toCanvasPoint(event: MouseEvent): ContextNodePosition {
+    const rect = this.containerRef.nativeElement.getBoundingClientRect();
+    return {
+      x: (event.clientX - rect.left - this.canvasOffset.x) / this.canvasScale,
+      y: (event.clientY - rect.top - this.canvasOffset.y) / this.canvasScale
+    };
+  }
+
   onCanvasWheel(event: WheelEvent) {
     event.preventDefault();
     const delta = event.deltaY > 0 ? 0.9 : 1.1;
@@ -459,32 +674,175 @@ export class NodeEditorComponent implements OnInit {
   }
 
   private lastClickTime = 0;
-  private lastClickedNode: GraphNode | null = null;
+  private lastClickedNodeId: string | null = null;
 
   onNodeMouseDown(event: MouseEvent, node: GraphNode) {
     event.stopPropagation();
-    this.selectedNode = node;
+    let collapseTo: string | null = null;
+    if (event.shiftKey) {
+      // Shift-click adds the node to the selection, or takes it out again
+      if (this.isNodeSelected(node)) {
+        this.selectNodes(this.selectedNodeIds.filter(id => id !== node.id));
+        return;
+      }
+      this.selectNodes([...this.selectedNodeIds, node.id]);
+    } else if (this.isNodeSelected(node)) {
+      // Keep the selection so the group can be dragged; a click without moving selects only this node
+      collapseTo = this.selectedNodeIds.length > 1 ? node.id : null;
+      this.selectNodes([...this.selectedNodeIds.filter(id => id !== node.id), node.id]);
+    } else {
+      this.selectNodes([node.id]);
+    }
     
-    // Handle double-click
+    // Handle double-click (nodes are rebuilt on context changes, so compare ids)
     const currentTime = Date.now();
-    if (this.lastClickedNode === node && (currentTime - this.lastClickTime) < 300) {
+    if (this.lastClickedNodeId === node.id && (currentTime - this.lastClickTime) < 300) {
       // Double-click detected
       this.openDetailPanel(node);
       this.lastClickTime = 0;
-      this.lastClickedNode = null;
+      this.lastClickedNodeId = null;
       return;
     }
     
     this.lastClickTime = currentTime;
-    this.lastClickedNode = node;
+    this.lastClickedNodeId = node.id;
     
-    // Start dragging
-    this.draggingNode = node;
-    const rect = this.containerRef.nativeElement.getBoundingClientRect();
-    const nodeX = (node.x * this.canvasScale) + this.canvasOffset.x;
-    const nodeY = (node.y * this.canvasScale) + this.canvasOffset.y;
-    this.dragOffset.x = (event.clientX - rect.left - nodeX) / this.canvasScale;
-    this.dragOffset.y = (event.clientY - rect.top - nodeY) / this.canvasScale;
+    // Start dragging the selected nodes
+    this.drag = {
+      start: this.toCanvasPoint(event),
+      origins: new Map(this.nodes.filter(n => this.isNodeSelected(n)).map(n => [n.id, { x: n.x, y: n.y }])),
+      collapseTo
+    };
+  }
+
+  get selectedNode(): GraphNode | null {
+    const id = this.selectedNodeIds[this.selectedNodeIds.length - 1];
+    return this.nodes.find(n => n.id === id) ?? null;
+  }
+
+  isNodeSelected(node: GraphNode): boolean {
+    return this.selectedNodeIds.includes(node.id);
+  }
+
+  /** Replace the selection; dataset/model/metric nodes are selected in the list designer as well. */
+  selectNodes(ids: string[]) {
+    this.selectedNodeIds = Array.from(new Set(ids));
+    const primary = this.selectedNode;
+    this.contextStore.selectItem(primary && primary.type !== 'processor' ? primary.id : null);
+  }
+
+  // Ctrl+C / Ctrl+V / Ctrl+D (Cmd on macOS) copy, paste and duplicate the selected nodes; Delete removes them
+  @HostListener('document:keydown', ['$event'])
+  onKeyDown(event: KeyboardEvent) {
+    const target = event.target as HTMLElement | null;
+    if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) {
+      return;
+    }
+    if (this.showExportDialog || this.showGraphDocuments || this.showVersionDiff || this.showSweepEditor) {
+      return;
+    }
+    const key = event.key.toLowerCase();
+    const hasSelection = this.selectedNodeIds.length > 0;
+    if ((event.ctrlKey || event.metaKey) && !event.altKey && !event.shiftKey) {
+      // Selected page text is copied as usual
+      if (key === 'c' && hasSelection && window.getSelection()?.isCollapsed !== false) {
+        event.preventDefault();
+        this.copySelection();
+      } else if (key === 'v' && this.clipboard) {
+        event.preventDefault();
+        this.pasteClipboard();
+      } else if (key === 'd' && hasSelection) {
+        event.preventDefault();
+        this.duplicateSelection();
+      }
+    } else if ((key === 'delete' || key === 'backspace') && hasSelection) {
+      event.preventDefault();
+      this.deleteSelection();
+    }
+  }
+
+  copySelection() {
+    this.clipboard = this.copyNodes(this.selectedNodeIds);
+    this.pasteCount = 0;
+  }
+
+  pasteClipboard() {
+    if (!this.clipboard) {
+      return;
+    }
+    this.pasteCount++;
+    this.pasteNodes(this.clipboard, this.pasteCount * PASTE_OFFSET, 'Paste');
+  }
+
+  duplicateSelection() {
+    this.pasteNodes(this.copyNodes(this.selectedNodeIds), PASTE_OFFSET, 'Duplicate');
+  }
+
+  deleteSelection() {
+    const ids = [...this.selectedNodeIds];
+    if (ids.length === 1) {
+      this.deleteNode(this.selectedNode!);
+      return;
+    }
+    this.contextStore.batch(`Delete ${ids.length} nodes`, () => ids.forEach(id => this.contextStore.removeNode(id)));
+    this.selectNodes([]);
+  }
+
+  /** The nodes with their configuration (including hyperparameter sets) and the edges between them. */
+  private copyNodes(ids: string[]): GraphClipboard {
+    return {
+      nodes: this.nodes
+        .filter(n => ids.includes(n.id))
+        .map(n => ({ id: n.id, type: n.type, data: this.cloneData(n.data), position: { x: n.x, y: n.y } })),
+      edges: this.edges.filter(e => ids.includes(e.sourceNodeId) && ids.includes(e.targetNodeId))
+    };
+  }
+
+  /**
+   * Add copies of the clipboard nodes and their edges as one undoable command, and select the copies. A copy of
+   * a dataset, model or metric has its version cleared, since the context cannot hold the same version twice.
+   */
+  private pasteNodes(clipboard: GraphClipboard, offset: number, action: string) {
+    const copies = new Map<string, string>();
+    const unversioned: string[] = [];
+    const label = clipboard.nodes.length === 1
+      ? `${action} ${this.getNodeTypeLabel(clipboard.nodes[0].type).toLowerCase()}`
+      : `${action} ${clipboard.nodes.length} nodes`;
+    this.contextStore.batch(label, () => {
+      for (const node of clipboard.nodes) {
+        const position = { x: node.position.x + offset, y: node.position.y + offset };
+        const data = this.cloneData(node.data);
+        if (node.type === 'processor') {
+          copies.set(node.id, this.contextStore.addProcessor(position, data));
+          continue;
+        }
+        if (findDuplicateItem(this.contextItems(node.type), node.type, data)) {
+          unversioned.push(`${this.getItemName(node.type, data)} v${data.selected_version}`);
+          delete data.selected_version;
+        }
+        copies.set(node.id, this.contextStore.addItem(node.type, data, position));
+      }
+      for (const edge of clipboard.edges) {
+        this.createEdge(copies.get(edge.sourceNodeId)!, edge.sourcePortId, copies.get(edge.targetNodeId)!, edge.targetPortId);
+      }
+    });
+    this.selectNodes(Array.from(copies.values()));
+    if (unversioned.length > 0) {
+      alert(`The same version is already in the context, so these copies have no version selected yet:\n${unversioned.join('\n')}`);
+    }
+  }
+
+  private getItemName(type: 'dataset' | 'model' | 'metric', data: any): string {
+    return data.dataset_name || data.modl_name || data.metric_name || this.getNodeTypeLabel(type);
+  }
+
+  private contextItems(type: 'dataset' | 'model' | 'metric'): ContextItem[] {
+    const state = this.contextStore.state;
+    return type === 'dataset' ? state.datasets : type === 'model' ? state.models : state.metrics;
+  }
+
+  private cloneData(data: any): any {
+    return data === undefined ? {} : JSON.parse(JSON.stringify(data));
   }
 
   openDetailPanel(node: GraphNode) {
@@ -503,6 +861,7 @@ export class NodeEditorComponent implements OnInit {
     this.selectedId = '';
     this.selectedVersion = '';
     this.versions = [];
+    this.processorConfig = null;
     this.clearInfoFields();
     
     // Check if node already has data configured
@@ -521,10 +880,8 @@ export class NodeEditorComponent implements OnInit {
         this.selectedVersion = node.data.selected_version || '';
         this.populateMetricFields(node.data);
         this.loadHyperparameters();
-      } else if (node.type === 'processor' && node.data.processor_id) {
-        // Handle processor if it has similar structure
-        this.selectedId = String(node.data.processor_id);
-        this.selectedVersion = node.data.selected_version || '';
+      } else if (node.type === 'processor' && findProcessor(node.data.processor_id)) {
+        this.processorConfig = { ...node.data, parameters: { ...node.data.parameters } };
       }
     }
     
@@ -560,20 +917,21 @@ export class NodeEditorComponent implements OnInit {
         this.itemUrl = versionInfo.metadata?.url || '';
         this.itemTimestamp = versionInfo.metadata?.upload_timestamp || '';
         
-        // Load dataset files
-        if (versionInfo.files) {
-          this.availableDatasetFiles = versionInfo.files.map((f: any) => ({
-            filename: f.filename,
-            filetype: f.filetype
+        // Load dataset files (each feature has file_name and file_type)
+        this.availableDatasetFiles = versionInfo.version.features
+          .filter((f, index, all) => f.file_name && f.file_type
+            && all.findIndex(other => other.file_name === f.file_name && other.file_type === f.file_type) === index)
+          .map(f => ({
+            filename: f.file_name,
+            filetype: f.file_type
           }));
-        }
       }
     }
     
     // Load file mappings if they exist
     if (data.file_mappings) {
-      this.selectedDataFile = data.file_mappings.data_file || '';
-      this.selectedGroundTruthFile = data.file_mappings.ground_truth_file || '';
+      this.selectedDataFile = data.file_mappings.data || '';
+      this.selectedGroundTruthFile = data.file_mappings.ground_truth || '';
     }
   }
 
@@ -585,7 +943,7 @@ export class NodeEditorComponent implements OnInit {
       );
       if (versionInfo) {
         // Extract fields from version info structure (same as sidebar)
-        this.itemName = versionInfo.modl?.modl_name || versionInfo.model?.model_name || '';
+        this.itemName = versionInfo.modl.modl_name || '';
         this.itemDescription = versionInfo.description?.description_text || '';
         this.itemAuthor = versionInfo.description?.author || '';
         this.itemVisibility = versionInfo.metadata?.visibility || '';
@@ -748,6 +1106,14 @@ export class NodeEditorComponent implements OnInit {
     this.hyperparameterSets.push(newSet);
   }
 
+  /** Configurations generated by the sweep editor, collapsed so a large sweep stays readable. */
+  onSweepGenerated(event: SweepGenerated) {
+    const baseId = Date.now();
+    const sets = event.sets.map((parameters, index) => ({ id: baseId + index, parameters, collapsed: true }));
+    this.hyperparameterSets = event.replace ? sets : [...this.hyperparameterSets, ...sets];
+    this.showSweepEditor = false;
+  }
+
   toggleHyperparameterSetCollapse(setId: number) {
     const set = this.hyperparameterSets.find(s => s.id === setId);
     if (set) {
@@ -772,13 +1138,6 @@ export class NodeEditorComponent implements OnInit {
     }
   }
 
-  onHyperparameterInput(event: Event, setId: number, parameterName: string) {
-    const target = event.target as HTMLInputElement;
-    if (target) {
-      this.updateHyperparameterValue(setId, parameterName, target.value);
-    }
-  }
-
   isDuplicateHyperparameter(setId: number, parameterName: string, value: string): boolean {
     return this.hyperparameterSets.some(set => 
       set.id !== setId && 
@@ -812,6 +1171,18 @@ export class NodeEditorComponent implements OnInit {
     return tooltip;
   }
 
+  /** All versions of the module selected in the detail panel, for the version compare dialog */
+  get moduleVersions(): VersionInfo[] {
+    if (this.detailNode?.type === 'dataset') {
+      return this.availableDatasets.find(d => String(d.dataset_id) === this.selectedId)?.dataset_version_info_list ?? [];
+    } else if (this.detailNode?.type === 'model') {
+      return this.availableModels.find(m => String(m.modl_id) === this.selectedId)?.modl_version_info_list ?? [];
+    } else if (this.detailNode?.type === 'metric') {
+      return this.availableMetrics.find(m => String(m.metric_id) === this.selectedId)?.metric_version_info_list ?? [];
+    }
+    return [];
+  }
+
   updateVersions() {
     if (!this.selectedId || !this.detailNode) {
       this.versions = [];
@@ -844,11 +1215,76 @@ export class NodeEditorComponent implements OnInit {
     });
   }
 
+  get selectedProcessor(): ProcessorDescriptor | undefined {
+    return findProcessor(this.processorConfig?.processor_id);
+  }
+
+  /** Why the selected processor does not fit where the node is wired, if it does not. */
+  get processorStageWarning(): string {
+    const processor = this.selectedProcessor;
+    if (!processor || !this.detailNode) {
+      return '';
+    }
+    const label = this.getProcessorLabel(this.detailNode);
+    if (processor.stage === 'data' && label === 'Model Output Processor') {
+      return `${processor.processor_name} processes datasets, but this node receives model output.`;
+    }
+    if (processor.stage === 'output' && label === 'Data Processor') {
+      return `${processor.processor_name} processes model output, but this node sits between a dataset and a model.`;
+    }
+    return '';
+  }
+
+  get canApplyConfiguration(): boolean {
+    return this.detailNode?.type === 'processor' ? !!this.processorConfig : !!(this.selectedId && this.selectedVersion);
+  }
+
+  onProcessorSelect(processorId: string) {
+    const processor = findProcessor(processorId);
+    this.processorConfig = processor ? defaultProcessorConfig(processor) : null;
+  }
+
+  processorParameterValue(name: string): string {
+    const entry: { value: string } | undefined = this.processorConfig?.parameters[name];
+    return entry?.value ?? '';
+  }
+
+  updateProcessorParameter(name: string, value: string) {
+    if (this.processorConfig) {
+      const entry = this.processorConfig.parameters[name];
+      this.processorConfig.parameters = { ...this.processorConfig.parameters, [name]: { ...entry, value } };
+    }
+  }
+
+  private applyProcessorConfiguration() {
+    const processor = this.selectedProcessor;
+    if (!this.detailNode || !processor || !this.processorConfig) {
+      alert('Please select a processor');
+      return;
+    }
+    const issues = findHyperparameterIssues([this.processorConfig], processor.parameters);
+    if (issues.length > 0) {
+      alert(`Cannot apply configuration, some parameter values are invalid:\n${issues.map(i => `${i.parameter}: ${i.message}`).join('\n')}`);
+      return;
+    }
+    this.contextStore.updateProcessor(this.detailNode.id, this.processorConfig);
+    this.closeDetailPanel();
+  }
+
   onApplyConfiguration() {
+    if (this.detailNode?.type === 'processor') {
+      this.applyProcessorConfiguration();
+      return;
+    }
     if (!this.detailNode || !this.selectedId || !this.selectedVersion) {
       alert('Please select an ID and Version');
       return;
     }
+    const issues = findHyperparameterIssues(this.hyperparameterSets, this.availableHyperparameters);
+    if (issues.length > 0) {
+      alert(`Cannot apply configuration, some hyperparameter values are invalid:\n${describeHyperparameterIssues(issues).join('\n')}`);
+      return;
+    }
     
     let itemData: any = {};
     
@@ -858,10 +1294,12 @@ export class NodeEditorComponent implements OnInit {
         itemData = { ...dataset };
         itemData.selected_version = this.selectedVersion;
         if (this.selectedDataFile || this.selectedGroundTruthFile) {
-          itemData.file_mappings = {
-            data_file: this.selectedDataFile,
-            ground_truth_file: this.selectedGroundTruthFile
-          };
+          // Same keys as the list designer, with the generic names the export uses
+          itemData.file_mappings = createFileMappings(
+            this.selectedDataFile,
+            this.selectedGroundTruthFile,
+            this.availableDatasetFiles.map(f => ({ file_name: f.filename, file_type: f.filetype }))
+          );
         }
       }
     } else if (this.detailNode.type === 'model') {
@@ -884,29 +1322,18 @@ export class NodeEditorComponent implements OnInit {
       }
     }
     
-      // Update node data
-    this.detailNode.data = itemData;
-    
     // Save hyperparameter sets if they exist
     if (this.hyperparameterSets.length > 0) {
-      this.detailNode.data.hyperparameter_sets = this.hyperparameterSets;
+      itemData.hyperparameter_sets = this.hyperparameterSets;
     }
-    
-    // Update node title to show configured name and version
-    let newTitle = '';
-    if (itemData.dataset_name) {
-      newTitle = itemData.dataset_name;
-    } else if (itemData.modl_name) {
-      newTitle = itemData.modl_name;
-    } else if (itemData.metric_name) {
-      newTitle = itemData.metric_name;
+
+    const type = this.detailNode.type;
+    if (findDuplicateItem(this.contextItems(type), type, itemData, this.detailNode.id)) {
+      alert(`Cannot apply configuration: ${this.getItemName(type, itemData)} (ID: ${this.selectedId}, Version: ${this.selectedVersion}) already exists in the context.`);
+      return;
     }
     
-    if (newTitle && this.selectedVersion) {
-      this.detailNode.title = `${newTitle} (v${this.selectedVersion})`;
-    } else if (newTitle) {
-      this.detailNode.title = newTitle;
-    }
+    this.contextStore.updateItem(this.detailNode.id, itemData);
     
     this.closeDetailPanel();
   }
@@ -957,32 +1384,33 @@ export class NodeEditorComponent implements OnInit {
     this.showExportDialog = false;
   }
 
-  // Convert nodes to the format expected by export dialog
-  getExportDatasets(): any[] {
-    return this.nodes
-      .filter(node => node.type === 'dataset' && node.data && node.data.dataset_id && node.data.selected_version)
-      .map(node => ({
-        data: node.data,
-        isSelected: false
-      }));
+  // Context items in the format expected by the export dialog
+  getExportDatasets(): ContextItem[] {
+    return this.context.datasets;
   }
 
-  getExportModels(): any[] {
-    return this.nodes
-      .filter(node => node.type === 'model' && node.data && node.data.modl_id && node.data.selected_version)
-      .map(node => ({
-        data: node.data,
-        isSelected: false
-      }));
+  getExportModels(): ContextItem[] {
+    return this.context.models;
   }
 
-  getExportMetrics(): any[] {
-    return this.nodes
-      .filter(node => node.type === 'metric' && node.data && node.data.metric_id && node.data.selected_version)
-      .map(node => ({
-        data: node.data,
-        isSelected: false
-      }));
+  getExportMetrics(): ContextItem[] {
+    return this.context.metrics;
+  }
+
+  /** Select and open the node a validation issue is about. */
+  onJumpToItem(id: string) {
+    const node = this.nodes.find(n => n.id === id);
+    this.showExportDialog = false;
+    if (node) {
+      this.selectNodes([node.id]);
+      this.openDetailPanel(node);
+    }
+  }
+
+  /** Parameter values shown under the title of a configured processor node */
+  getProcessorSummary(node: GraphNode): string {
+    const summary = describeProcessorParameters(node.data);
+    return summary.length > 32 ? summary.slice(0, 31) + '…' : summary;
   }
 
   getNodeDisplayTitle(node: GraphNode): string {
@@ -1012,32 +1440,18 @@ export class NodeEditorComponent implements OnInit {
     event.stopPropagation();
     
     if (this.connectingPort) {
-      // Complete connection - validate connection rules
-      if (this.connectingPort.type !== port.type && 
-          this.connectingPort.nodeId !== node.id) {
-        
-        // Get source and target nodes
-        const sourceNode = this.nodes.find(n => n.id === this.connectingPort!.nodeId);
-        const targetNode = node;
-        
-        if (sourceNode && this.isValidConnection(sourceNode, targetNode)) {
-          if (port.type === 'input') {
-            this.createEdge(
-              this.connectingPort.nodeId,
-              this.connectingPort.portId,
-              node.id,
-              port.id
-            );
-          } else {
-            this.createEdge(
-              node.id,
-              port.id,
-              this.connectingPort.nodeId,
-              this.connectingPort.portId
-            );
-          }
+      // Complete connection - validate the data types of the two ports
+      const startNode = this.nodes.find(n => n.id === this.connectingPort!.nodeId);
+      const startPort = this.findConnectingPort();
+      if (startNode && startPort && this.connectingPort.type !== port.type && startNode.id !== node.id) {
+        const [sourceNode, sourcePort, targetNode, targetPort] = port.type === 'input'
+          ? [startNode, startPort, node, port]
+          : [node, port, startNode, startPort];
+        const problem = this.getConnectionProblem(sourcePort, targetPort);
+        if (problem) {
+          alert(`Invalid connection from ${this.getNodeTypeLabel(sourceNode.type)} "${sourcePort.name}" to ${this.getNodeTypeLabel(targetNode.type)} "${targetPort.name}": ${problem}`);
         } else {
-          alert(`Invalid connection: ${this.getNodeTypeLabel(sourceNode!.type)} cannot connect to ${this.getNodeTypeLabel(targetNode.type)}`);
+          this.createEdge(sourceNode.id, sourcePort.id, targetNode.id, targetPort.id);
         }
       }
       this.connectingPort = null;
@@ -1053,29 +1467,62 @@ export class NodeEditorComponent implements OnInit {
     }
   }
 
-  isValidConnection(sourceNode: GraphNode, targetNode: GraphNode): boolean {
-    const sourceType = sourceNode.type;
-    const targetType = targetNode.type;
-    
-    // Connection rules:
-    // Dataset -> Processor, Model
-    // Model -> Processor, Metric
-    // Processor -> Processor, Model, Metric
-    
-    if (sourceType === 'dataset') {
-      return targetType === 'processor' || targetType === 'model';
+  /** Why the output port cannot feed the input port, or null if the connection is allowed. */
+  getConnectionProblem(sourcePort: NodePort, targetPort: NodePort): string | null {
+    return portConnectionProblem(sourcePort.dataType, targetPort.dataType);
+  }
+
+  isConnectingFrom(node: GraphNode, port: NodePort): boolean {
+    return this.connectingPort?.nodeId === node.id && this.connectingPort.portId === port.id && this.connectingPort.type === port.type;
+  }
+
+  /** While connecting, ports the pending connection cannot end on are dimmed. */
+  isPortUnavailable(node: GraphNode, port: NodePort): boolean {
+    const startPort = this.findConnectingPort();
+    if (!this.connectingPort || !startPort || this.isConnectingFrom(node, port)) {
+      return false;
     }
-    
-    if (sourceType === 'model') {
-      return targetType === 'processor' || targetType === 'metric';
+    if (port.type === this.connectingPort.type || node.id === this.connectingPort.nodeId) {
+      return true;
     }
-    
-    if (sourceType === 'processor') {
-      return targetType === 'processor' || targetType === 'model' || targetType === 'metric';
+    return port.type === 'input'
+      ? this.getConnectionProblem(startPort, port) !== null
+      : this.getConnectionProblem(port, startPort) !== null;
+  }
+
+  getPortColor(port: NodePort): string {
+    return PORT_DATA_TYPES[port.dataType].color;
+  }
+
+  /** Edges take the colour of the data they carry; edges with warnings stay orange. */
+  getEdgeColor(edge: GraphEdge): string {
+    if (this.edgeWarnings[edge.id]) {
+      return '#e67e22';
     }
-    
-    // Metric cannot be a source; Processor cannot connect to Dataset
-    return false;
+    const sourcePort = this.nodes.find(n => n.id === edge.sourceNodeId)?.outputPorts.find(p => p.id === edge.sourcePortId);
+    return sourcePort ? this.getPortColor(sourcePort) : '#666';
+  }
+
+  getTempEdgeColor(): string {
+    const port = this.findConnectingPort();
+    return port ? this.getPortColor(port) : '#3498db';
+  }
+
+  getEdgeMarker(edge: GraphEdge): string {
+    if (this.edgeWarnings[edge.id]) {
+      return 'url(#arrowhead-warning)';
+    }
+    const sourcePort = this.nodes.find(n => n.id === edge.sourceNodeId)?.outputPorts.find(p => p.id === edge.sourcePortId);
+    return `url(#arrowhead-${sourcePort?.dataType ?? 'default'})`;
+  }
+
+  private findConnectingPort(): NodePort | undefined {
+    const connecting = this.connectingPort;
+    if (!connecting) {
+      return undefined;
+    }
+    return this.nodes.find(n => n.id === connecting.nodeId)?.[connecting.type === 'input' ? 'inputPorts' : 'outputPorts']
+      .find(p => p.id === connecting.portId);
   }
 
   onCanvasContextMenu(event: MouseEvent) {
@@ -1109,7 +1556,8 @@ export class NodeEditorComponent implements OnInit {
     }
   }
 
-  createNode(type: 'dataset' | 'processor' | 'model' | 'metric', x?: number, y?: number) {
+  /** Add a node to the shared context and return its id; dataset/model/metric nodes also appear in the list designer. */
+  createNode(type: 'dataset' | 'processor' | 'model' | 'metric', x?: number, y?: number): string {
     let nodeX: number;
     let nodeY: number;
     
@@ -1128,25 +1576,13 @@ export class NodeEditorComponent implements OnInit {
       nodeY = centerY - 50;
     }
     
-    const nodeId = `node-${Date.now()}`;
-    const node: GraphNode = {
-      id: nodeId,
-      type: type,
-      x: nodeX,
-      y: nodeY,
-      width: 200,
-      height: 140, // Increased height to accommodate subtitle and hyperparameter info
-      title: this.getNodeTitle(type),
-      data: {},
-      inputPorts: this.getInputPorts(type),
-      outputPorts: this.getOutputPorts(type),
-      selected: false
-    };
-    
-    this.nodes.push(node);
-    this.updatePortPositions();
+    const position = { x: nodeX, y: nodeY };
+    const nodeId = type === 'processor'
+      ? this.contextStore.addProcessor(position)
+      : this.contextStore.addItem(type, {}, position);
     this.showNodeMenu = false;
-    this.selectedNode = node;
+    this.selectNodes([nodeId]);
+    return nodeId;
   }
 
   getNodeTitle(type: string): string {
@@ -1159,24 +1595,16 @@ export class NodeEditorComponent implements OnInit {
     return titles[type] || 'Node';
   }
 
-  getInputPorts(type: string): NodePort[] {
-    const ports: { [key: string]: NodePort[] } = {
-      'dataset': [],
-      'processor': [{ id: 'input-1', name: 'Input', type: 'input', x: 0, y: 0 }],
-      'model': [{ id: 'input-1', name: 'Input', type: 'input', x: 0, y: 0 }],
-      'metric': [{ id: 'input-1', name: 'Input', type: 'input', x: 0, y: 0 }]
-    };
-    return ports[type] || [];
+  getInputPorts(type: GraphNode['type'], data: any): NodePort[] {
+    return nodeInputPorts(type, data).map(port => this.toNodePort(port, 'input'));
   }
 
-  getOutputPorts(type: string): NodePort[] {
-    const ports: { [key: string]: NodePort[] } = {
-      'dataset': [{ id: 'output-1', name: 'Output', type: 'output', x: 0, y: 0 }],
-      'processor': [{ id: 'output-1', name: 'Output', type: 'output', x: 0, y: 0 }],
-      'model': [{ id: 'output-1', name: 'Output', type: 'output', x: 0, y: 0 }],
-      'metric': []
-    };
-    return ports[type] || [];
+  getOutputPorts(type: GraphNode['type'], data: any): NodePort[] {
+    return nodeOutputPorts(type, data).map(port => this.toNodePort(port, 'output'));
+  }
+
+  private toNodePort(port: PortDefinition, type: NodePort['type']): NodePort {
+    return { id: port.id, name: port.name, type, dataType: port.dataType, x: 0, y: 0 };
   }
 
   updatePortPositions() {
@@ -1198,39 +1626,17 @@ export class NodeEditorComponent implements OnInit {
   }
 
   createEdge(sourceNodeId: string, sourcePortId: string, targetNodeId: string, targetPortId: string) {
-    // Check if edge already exists
-    const exists = this.edges.some(edge =>
-      edge.sourceNodeId === sourceNodeId &&
-      edge.sourcePortId === sourcePortId &&
-      edge.targetNodeId === targetNodeId &&
-      edge.targetPortId === targetPortId
-    );
-    
-    if (!exists) {
-      const edge: GraphEdge = {
-        id: `edge-${Date.now()}`,
-        sourceNodeId,
-        sourcePortId,
-        targetNodeId,
-        targetPortId
-      };
-      this.edges.push(edge);
-    }
+    this.contextStore.addEdge({ sourceNodeId, sourcePortId, targetNodeId, targetPortId });
   }
 
   deleteNode(node: GraphNode) {
-    // Remove all edges connected to this node
-    this.edges = this.edges.filter(edge =>
-      edge.sourceNodeId !== node.id && edge.targetNodeId !== node.id
-    );
-    
-    // Remove the node
-    this.nodes = this.nodes.filter(n => n.id !== node.id);
-    this.selectedNode = null;
+    // Removes the node's edges too; an item node is removed from the list designer as well
+    this.contextStore.removeNode(node.id);
+    this.selectedNodeIds = this.selectedNodeIds.filter(id => id !== node.id);
   }
 
   deleteEdge(edge: GraphEdge) {
-    this.edges = this.edges.filter(e => e.id !== edge.id);
+    this.contextStore.removeEdge(edge.id);
   }
 
   getNodeColor(type: string): string {
@@ -1267,14 +1673,8 @@ export class NodeEditorComponent implements OnInit {
   }
 
   getTempEdgePath(): string {
-    if (!this.connectingPort || !this.tempEdgeEnd) return '';
-    
-    const node = this.nodes.find(n => n.id === this.connectingPort!.nodeId);
-    if (!node) return '';
-    
-    const port = node[this.connectingPort.type === 'input' ? 'inputPorts' : 'outputPorts']
-      .find(p => p.id === this.connectingPort!.portId);
-    if (!port) return '';
+    const port = this.findConnectingPort();
+    if (!port || !this.tempEdgeEnd) return '';
     
     const x1 = (port.x * this.canvasScale) + this.canvasOffset.x;
     const y1 = (port.y * this.canvasScale) + this.canvasOffset.y;
@@ -0,0 +1,80 @@
+import { Component, EventEmitter, Input, OnChanges, Output, SimpleChanges } from '@angular/core';
+import { AppConfigService } from '../../services/app-config.service';
+import { EnvironmentProfileName } from '../../../environments/profiles';
+
+@Component({
+  selector: 'app-settings-dialog',
+  templateUrl: './settings-dialog.component.html',
+  styleUrls: ['./settings-dialog.component.scss']
+})
+export class SettingsDialogComponent implements OnChanges {
+  @Input() showDialog = false;
+  @Output() closeDialog = new EventEmitter<void>();
+
+  profile: EnvironmentProfileName = 'production';
+  apiBaseUrl = '';
+  portalUrl = '';
+  offline = false;
+  errorMessage = '';
+
+  constructor(public appConfig: AppConfigService) { }
+
+  ngOnChanges(changes: SimpleChanges) {
+    if (changes['showDialog'] && this.showDialog) {
+      this.loadCurrentSettings();
+    }
+  }
+
+  get profileNames(): EnvironmentProfileName[] {
+    return Object.keys(this.appConfig.profiles) as EnvironmentProfileName[];
+  }
+
+  /** Defaults of the selected profile, shown as placeholders for the URL fields. */
+  get profileDefaults() {
+    return this.appConfig.profiles[this.profile];
+  }
+
+  onProfileChange() {
+    // Switching profile starts from that profile's URLs
+    this.apiBaseUrl = '';
+    this.portalUrl = '';
+    this.errorMessage = '';
+  }
+
+  onSave() {
+    try {
+      this.appConfig.saveOverrides({
+        profile: this.profile,
+        apiBaseUrl: this.apiBaseUrl,
+        portalUrl: this.portalUrl,
+        offline: this.offline
+      });
+    } catch (error) {
+      this.errorMessage = error instanceof Error ? error.message : String(error);
+      return;
+    }
+    // The catalog and the token handshake depend on these URLs, so start over with the new configuration
+    window.location.reload();
+  }
+
+  onResetToDefaults() {
+    this.appConfig.resetOverrides();
+    window.location.reload();
+  }
+
+  onClose() {
+    this.errorMessage = '';
+    this.closeDialog.emit();
+  }
+
+  private loadCurrentSettings() {
+    const config = this.appConfig.config;
+    const defaults = this.appConfig.profiles[config.profile];
+    this.profile = config.profile;
+    // Only show values that differ from the profile; the defaults appear as placeholders
+    this.apiBaseUrl = config.apiBaseUrl !== defaults.apiBaseUrl ? config.apiBaseUrl : '';
+    this.portalUrl = config.portalUrl !== defaults.portalUrl ? config.portalUrl : '';
+    this.offline = config.offline;
+    this.errorMessage = '';
+  }
+}
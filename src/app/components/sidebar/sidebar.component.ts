@@ -1,4 +1,9 @@
 import { Component, Input, Output, EventEmitter, HostListener } from '@angular/core';
+import { CatalogResource, DatasetDescriptor, Hyperparameter, MetricDescriptor, ModelDescriptor, VersionInfo } from '../../models/catalog';
+import { CatalogLoadState, CatalogQuery } from '../../services/catalog-provider';
+import { CatalogResult } from '../catalog-panel/catalog-panel.component';
+import { describeHyperparameterIssues, findHyperparameterIssues } from '../../utils/hyperparameter-validation';
+import { SweepGenerated } from '../hyperparameter-sweep/hyperparameter-sweep.component';
 
 @Component({
   selector: 'app-sidebar',
@@ -6,9 +11,9 @@ import { Component, Input, Output, EventEmitter, HostListener } from '@angular/c
   styleUrls: ['./sidebar.component.scss']
 })
 export class SidebarComponent {
-  @Input() availableDatasets: any[] = [];
-  @Input() availableModels: any[] = [];
-  @Input() availableMetrics: any[] = [];
+  @Input() availableDatasets: DatasetDescriptor[] = [];
+  @Input() availableModels: ModelDescriptor[] = [];
+  @Input() availableMetrics: MetricDescriptor[] = [];
   @Input() currentItem: any = null;
   @Input() currentItemType: 'dataset' | 'model' | 'metric' | null = null;
   @Input() loadingDatasets = false;
@@ -21,6 +26,11 @@ export class SidebarComponent {
   @Input() currentMetrics: any[] = [];
   @Input() selectedTaskId = '';
   @Input() selectedTaskType = '';
+  /** Compatibility warnings about the current item (see CompatibilityService) */
+  @Input() compatibilityWarnings: string[] = [];
+  // Server-side catalog paging, shown in the catalog panel
+  @Input() catalogLoad: Partial<Record<CatalogResource, CatalogLoadState>> = {};
+  @Input() catalogQueries: Partial<Record<CatalogResource, CatalogQuery>> = {};
 
   @Output() itemSelected = new EventEmitter<any>();
   @Output() addDataset = new EventEmitter<void>();
@@ -30,9 +40,15 @@ export class SidebarComponent {
   @Output() removeItem = new EventEmitter<void>();
   @Output() exportContext = new EventEmitter<void>();
   @Output() applyItem = new EventEmitter<any>();
+  @Output() saveProject = new EventEmitter<void>();
+  @Output() openProject = new EventEmitter<File>();
+  @Output() importScript = new EventEmitter<File>();
+  @Output() catalogQueryChange = new EventEmitter<{ resource: CatalogResource; query: CatalogQuery }>();
+  @Output() refreshCatalog = new EventEmitter<void>();
 
   // Query and Information section
   selectedType: 'dataset' | 'model' | 'metric' | null = null;
+  showVersionDiff = false;
   selectedId = '';
   selectedVersion = '';
   
@@ -50,8 +66,9 @@ export class SidebarComponent {
   itemTimestamp = '';
 
   // Hyperparameter management
-  availableHyperparameters: any[] = [];
+  availableHyperparameters: Hyperparameter[] = [];
   hyperparameterSets: any[] = [];
+  showSweepEditor = false;
   showHyperparameterSection = false;
 
   // Dataset file mapping
@@ -365,6 +382,18 @@ export class SidebarComponent {
     this.updateInfo();
   }
 
+  /** All versions of the selected module, for the version compare dialog */
+  get moduleVersions(): VersionInfo[] {
+    if (this.selectedType === 'dataset') {
+      return this.availableDatasets.find(d => String(d.dataset_id) === this.selectedId)?.dataset_version_info_list ?? [];
+    } else if (this.selectedType === 'model') {
+      return this.availableModels.find(m => String(m.modl_id) === this.selectedId)?.modl_version_info_list ?? [];
+    } else if (this.selectedType === 'metric') {
+      return this.availableMetrics.find(m => String(m.metric_id) === this.selectedId)?.metric_version_info_list ?? [];
+    }
+    return [];
+  }
+
   updateVersions() {
     if (!this.selectedId || !this.selectedType) {
       this.versions = [];
@@ -497,6 +526,14 @@ export class SidebarComponent {
     this.hyperparameterSets.push(newSet);
   }
 
+  /** Configurations generated by the sweep editor, collapsed so a large sweep stays readable. */
+  onSweepGenerated(event: SweepGenerated) {
+    const baseId = Date.now();
+    const sets = event.sets.map((parameters, index) => ({ id: baseId + index, parameters, collapsed: true }));
+    this.hyperparameterSets = event.replace ? sets : [...this.hyperparameterSets, ...sets];
+    this.showSweepEditor = false;
+  }
+
   toggleHyperparameterSetCollapse(setId: number) {
     const set = this.hyperparameterSets.find(s => s.id === setId);
     if (set) {
@@ -521,13 +558,6 @@ export class SidebarComponent {
     }
   }
 
-  onHyperparameterInput(event: Event, setId: number, parameterName: string) {
-    const target = event.target as HTMLInputElement;
-    if (target) {
-      this.updateHyperparameterValue(setId, parameterName, target.value);
-    }
-  }
-
   isDuplicateHyperparameter(setId: number, parameterName: string, value: string): boolean {
     return this.hyperparameterSets.some(set => 
       set.id !== setId && 
@@ -679,12 +709,18 @@ export class SidebarComponent {
 
   onApplyItem() {
     if (this.currentItem && this.selectedId && this.selectedVersion) {
+      const issues = findHyperparameterIssues(this.hyperparameterSets, this.availableHyperparameters);
+      if (issues.length > 0) {
+        alert(`Cannot apply configuration, some hyperparameter values are invalid:\n${describeHyperparameterIssues(issues).join('\n')}`);
+        return;
+      }
+
       // Debug: log task id/version for model (and metric) when applying
       if (this.selectedType === 'model' && this.currentItem?.data) {
         const versionInfo = this.currentItem.data.modl_version_info_list?.find(
           (v: any) => String(v.version?.version_number) === String(this.selectedVersion)
         );
-        const tasks = versionInfo?.version?.tasks ?? this.currentItem.data?.version?.tasks ?? [];
+        const tasks = versionInfo?.version?.tasks ?? [];
         console.debug('[Apply Model]', {
           modelId: this.selectedId,
           modelVersion: this.selectedVersion,
@@ -695,7 +731,7 @@ export class SidebarComponent {
         const versionInfo = this.currentItem.data.metric_version_info_list?.find(
           (v: any) => String(v.version?.version_number) === String(this.selectedVersion)
         );
-        const tasks = versionInfo?.version?.tasks ?? this.currentItem.data?.version?.tasks ?? [];
+        const tasks = versionInfo?.version?.tasks ?? [];
         console.debug('[Apply Metric]', {
           metricId: this.selectedId,
           metricVersion: this.selectedVersion,
@@ -747,6 +783,32 @@ export class SidebarComponent {
     this.removeItem.emit();
   }
 
+  onSaveProject() {
+    this.saveProject.emit();
+  }
+
+  onProjectFileSelected(event: Event) {
+    const file = this.takeSelectedFile(event);
+    if (file) {
+      this.openProject.emit(file);
+    }
+  }
+
+  onScriptFileSelected(event: Event) {
+    const file = this.takeSelectedFile(event);
+    if (file) {
+      this.importScript.emit(file);
+    }
+  }
+
+  private takeSelectedFile(event: Event): File | undefined {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    // Reset so that selecting the same file again still triggers a change event
+    input.value = '';
+    return file;
+  }
+
   showExport() {
     this.showExportDialog = true;
   }
@@ -821,7 +883,15 @@ export class SidebarComponent {
   onSearchResultSelect(result: any) {
     this.searchQuery = result.name;
     this.showSearchResults = false;
-    
+    this.addSearchResult(result);
+  }
+
+  /** A record found by the catalog panel's server-side search is added like a search result. */
+  onCatalogResultSelect(result: CatalogResult) {
+    this.addSearchResult(result);
+  }
+
+  private addSearchResult(result: any) {
     // Set the type and ID automatically
     this.selectedType = result.type;
     this.selectedId = String(result.id);
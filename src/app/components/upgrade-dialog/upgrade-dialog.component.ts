@@ -0,0 +1,80 @@
+import { Component, EventEmitter, Input, OnChanges, Output, SimpleChanges } from '@angular/core';
+import { DatasetDescriptor, MetricDescriptor, ModelDescriptor } from '../../models/catalog';
+import { ContextStoreService } from '../../services/context-store.service';
+import { VersionUpgrade, VersionUpgradeService } from '../../services/version-upgrade.service';
+
+/** Lists the context items with a newer version available and upgrades the checked ones. */
+@Component({
+  selector: 'app-upgrade-dialog',
+  templateUrl: './upgrade-dialog.component.html',
+  styleUrls: ['./upgrade-dialog.component.scss']
+})
+export class UpgradeDialogComponent implements OnChanges {
+  @Input() showDialog = false;
+  @Input() availableDatasets: DatasetDescriptor[] = [];
+  @Input() availableModels: ModelDescriptor[] = [];
+  @Input() availableMetrics: MetricDescriptor[] = [];
+  @Output() closeDialog = new EventEmitter<void>();
+
+  upgrades: VersionUpgrade[] = [];
+  // Checked and expanded rows, by context item id
+  selected: Record<string, boolean> = {};
+  expanded: Record<string, boolean> = {};
+
+  constructor(
+    private contextStore: ContextStoreService,
+    private versionUpgrade: VersionUpgradeService
+  ) { }
+
+  ngOnChanges(changes: SimpleChanges) {
+    if (changes['showDialog'] && this.showDialog) {
+      this.scan();
+    }
+  }
+
+  get selectedUpgrades(): VersionUpgrade[] {
+    return this.upgrades.filter(upgrade => this.selected[upgrade.itemId]);
+  }
+
+  get allSelected(): boolean {
+    return this.upgrades.length > 0 && this.selectedUpgrades.length === this.upgrades.length;
+  }
+
+  onToggleAll(checked: boolean) {
+    for (const upgrade of this.upgrades) {
+      this.selected[upgrade.itemId] = checked;
+    }
+  }
+
+  onUpgrade() {
+    const upgrades = this.selectedUpgrades;
+    const dropped = upgrades.filter(upgrade => upgrade.droppedParameters.length > 0);
+    if (dropped.length > 0 && !confirm(
+      `Some hyperparameters no longer exist and their values will be dropped:\n`
+      + dropped.map(upgrade => `${upgrade.name}: ${upgrade.droppedParameters.join(', ')}`).join('\n')
+      + '\n\nUpgrade anyway? You can undo this.'
+    )) {
+      return;
+    }
+    this.versionUpgrade.apply(upgrades);
+    this.scan();
+  }
+
+  onClose() {
+    this.closeDialog.emit();
+  }
+
+  trackByItemId(index: number, upgrade: VersionUpgrade) {
+    return upgrade.itemId;
+  }
+
+  private scan() {
+    this.upgrades = this.versionUpgrade.findUpgrades(this.contextStore.state, {
+      datasets: this.availableDatasets,
+      models: this.availableModels,
+      metrics: this.availableMetrics
+    });
+    this.selected = Object.fromEntries(this.upgrades.map(upgrade => [upgrade.itemId, true]));
+    this.expanded = {};
+  }
+}
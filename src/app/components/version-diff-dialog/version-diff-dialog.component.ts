@@ -0,0 +1,70 @@
+import { Component, EventEmitter, Input, OnChanges, Output, SimpleChanges } from '@angular/core';
+import { VersionInfo } from '../../models/catalog';
+import { VersionDiffSection, compareVersionNumbers, countVersionChanges, diffVersions } from '../../utils/version-diff';
+
+/** Side-by-side comparison of two versions of one dataset, model or metric. */
+@Component({
+  selector: 'app-version-diff-dialog',
+  templateUrl: './version-diff-dialog.component.html',
+  styleUrls: ['./version-diff-dialog.component.scss']
+})
+export class VersionDiffDialogComponent implements OnChanges {
+  @Input() showDialog = false;
+  /** Module name shown in the header */
+  @Input() moduleName = '';
+  @Input() versions: VersionInfo[] = [];
+  /** Version compared against its predecessor when the dialog opens */
+  @Input() selectedVersion = '';
+  @Output() closeDialog = new EventEmitter<void>();
+
+  beforeVersion = '';
+  afterVersion = '';
+  showUnchanged = false;
+
+  ngOnChanges(changes: SimpleChanges) {
+    if (changes['showDialog'] && this.showDialog) {
+      const numbers = this.versionNumbers;
+      const selected = numbers.indexOf(this.selectedVersion);
+      // Newest first, so the predecessor is the next entry
+      const after = selected >= 0 ? selected : 0;
+      this.afterVersion = numbers[after] ?? '';
+      this.beforeVersion = numbers[after + 1] ?? numbers[after - 1] ?? '';
+    }
+  }
+
+  /** Version numbers, newest first */
+  get versionNumbers(): string[] {
+    return this.versions
+      .map(v => String(v.version.version_number))
+      .sort((a, b) => compareVersionNumbers(b, a));
+  }
+
+  get sections(): VersionDiffSection[] {
+    const before = this.findVersion(this.beforeVersion);
+    const after = this.findVersion(this.afterVersion);
+    return before && after ? diffVersions(before, after) : [];
+  }
+
+  /** Sections with the unchanged rows left out unless asked for; sections without rows to show are dropped */
+  get visibleSections(): VersionDiffSection[] {
+    return this.sections
+      .map(section => ({ ...section, rows: section.rows.filter(row => this.showUnchanged || row.change !== 'unchanged') }))
+      .filter(section => section.rows.length > 0);
+  }
+
+  get changeCount(): number {
+    return countVersionChanges(this.sections);
+  }
+
+  onSwap() {
+    [this.beforeVersion, this.afterVersion] = [this.afterVersion, this.beforeVersion];
+  }
+
+  onClose() {
+    this.closeDialog.emit();
+  }
+
+  private findVersion(versionNumber: string): VersionInfo | undefined {
+    return this.versions.find(v => String(v.version.version_number) === versionNumber);
+  }
+}
@@ -0,0 +1,310 @@
+import {
+  CatalogId,
+  CatalogResource,
+  DatasetDescriptor,
+  Feature,
+  Hyperparameter,
+  MetricDescriptor,
+  ModelDescriptor,
+  ModuleVersion,
+  TaskDescriptor,
+  TaskRef,
+  TaskVersionInfo,
+  VersionInfo
+} from './catalog';
+
+/**
+ * Runtime decoders for catalog records. They accept the field name variants the different endpoints use
+ * (e.g. `task_id`/`id`/`taskId`) and fill in defaults, so the rest of the app can rely on the types in catalog.ts.
+ */
+
+export class CatalogDecodeError extends Error {
+  constructor(message: string, public readonly path: string) {
+    super(`${path}: ${message}`);
+    this.name = 'CatalogDecodeError';
+  }
+}
+
+/** A catalog record that could not be decoded and was left out of the result. */
+export interface CatalogDecodeIssue {
+  resource: CatalogResource;
+  /** Position in the response list, or null when the whole response was unusable */
+  index: number | null;
+  /** Id of the record, when it could still be read */
+  id: string | null;
+  message: string;
+}
+
+export interface CatalogDecodeResult<T> {
+  items: T[];
+  issues: CatalogDecodeIssue[];
+}
+
+type RawRecord = Record<string, unknown>;
+type Decoder<T> = (raw: unknown, path: string) => T;
+
+function isRecord(value: unknown): value is RawRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function expectRecord(raw: unknown, path: string): RawRecord {
+  if (!isRecord(raw)) {
+    throw new CatalogDecodeError(`expected an object but found ${raw === null ? 'null' : typeof raw}`, path);
+  }
+  return raw;
+}
+
+/** First of the given fields that is set (not null/undefined). */
+function pick(raw: RawRecord, fields: string[]): unknown {
+  for (const field of fields) {
+    if (raw[field] !== undefined && raw[field] !== null) {
+      return raw[field];
+    }
+  }
+  return undefined;
+}
+
+function isId(value: unknown): value is CatalogId {
+  return (typeof value === 'number' && Number.isFinite(value)) || (typeof value === 'string' && value.trim() !== '');
+}
+
+function readId(raw: RawRecord, fields: string[], path: string): CatalogId {
+  const value = pick(raw, fields);
+  if (!isId(value)) {
+    throw new CatalogDecodeError(`missing ${fields[0]}`, path);
+  }
+  return value;
+}
+
+function readText(raw: RawRecord, fields: string[]): string {
+  const value = pick(raw, fields);
+  return typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean' ? String(value) : '';
+}
+
+function readList<T>(raw: RawRecord, fields: string[], path: string, decoder: Decoder<T>): T[] {
+  const field = fields.find(f => raw[f] !== undefined && raw[f] !== null);
+  if (!field) {
+    return [];
+  }
+  const value = raw[field];
+  if (!Array.isArray(value)) {
+    throw new CatalogDecodeError(`${field} must be a list`, path);
+  }
+  return value.map((item, index) => decoder(item, `${path}.${field}[${index}]`));
+}
+
+export function decodeHyperparameter(raw: unknown, path: string): Hyperparameter {
+  const record = expectRecord(raw, path);
+  const name = readText(record, ['hyperparameter_name', 'parameter_name', 'name']);
+  if (!name) {
+    throw new CatalogDecodeError('missing hyperparameter_name', path);
+  }
+
+  const value = pick(record, ['hyperparameter_value', 'default_value', 'value']);
+  const allowed = pick(record, ['allowed_values']);
+  return {
+    hyperparameter_name: name,
+    hyperparameter_value: value === undefined ? '' : typeof value === 'object' ? JSON.stringify(value) : String(value),
+    hyperparameter_data_type: readText(record, ['hyperparameter_data_type', 'data_type', 'parameter_type']),
+    hyperparameter_description: readText(record, ['hyperparameter_description', 'parameter_description', 'description']),
+    allowed_values: Array.isArray(allowed)
+      ? allowed.map(v => String(v))
+      : typeof allowed === 'string' && allowed.trim() !== '' ? allowed.split(',').map(v => v.trim()) : []
+  };
+}
+
+export function decodeFeature(raw: unknown, path: string): Feature {
+  const record = expectRecord(raw, path);
+  return {
+    file_name: readText(record, ['file_name', 'filename']),
+    file_type: readText(record, ['file_type', 'filetype'])
+  };
+}
+
+/** Task reference of a model/metric version; either an object or a bare task id. Never reads `id`, which can be the module's own id. */
+export function decodeTaskRef(raw: unknown, path: string): TaskRef {
+  if (isId(raw)) {
+    return { task_id: raw, task_name: '', version_number: null };
+  }
+  const record = expectRecord(raw, path);
+  const version = pick(record, ['version_number', 'version']);
+  return {
+    task_id: readId(record, ['task_id', 'taskId'], path),
+    task_name: readText(record, ['task_name', 'taskName', 'name']),
+    version_number: isId(version) ? version : null
+  };
+}
+
+/** A non-negative whole number, also when sent as text; null otherwise. */
+function readCount(raw: RawRecord, field: string): number | null {
+  const text = raw[field];
+  const value = typeof text === 'string' && text.trim() !== '' ? Number(text) : text;
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0 ? value : null;
+}
+
+export function decodeModuleVersion(raw: unknown, path: string): ModuleVersion {
+  const record = expectRecord(raw, path);
+  return {
+    version_number: readId(record, ['version_number'], path),
+    hyperparameters: readList(record, ['hyperparameters', 'parameters'], path, decodeHyperparameter),
+    features: readList(record, ['features'], path, decodeFeature),
+    tasks: readList(record, ['tasks'], path, decodeTaskRef),
+    min_row_count: readCount(record, 'min_row_count'),
+    max_row_count: readCount(record, 'max_row_count'),
+    min_column_count: readCount(record, 'min_column_count'),
+    max_column_count: readCount(record, 'max_column_count')
+  };
+}
+
+/** Older records keep the description and metadata inside the `dataset`/`modl`/`metric` block, which is used as the fallback. */
+function decodeVersionInfo(record: RawRecord, path: string, prefix: string): VersionInfo {
+  const block = isRecord(record[prefix]) ? record[prefix] as RawRecord : {};
+  const description = isRecord(record['description']) ? record['description'] : {};
+  const metadata = isRecord(record['metadata']) ? record['metadata'] : {};
+  return {
+    version: decodeModuleVersion(record['version'], `${path}.version`),
+    description: {
+      description_text: typeof record['description'] === 'string'
+        ? record['description']
+        : readText(description, ['description_text', 'text']) || readText(block, [`${prefix}_description`]),
+      author: readText(description, ['author']) || readText(block, ['author'])
+    },
+    metadata: {
+      visibility: readText(metadata, ['visibility']) || readText(block, ['visibility']),
+      url: readText(metadata, ['url']) || readText(block, ['url']),
+      upload_timestamp: readText(metadata, ['upload_timestamp', 'timestamp']) || readText(block, ['timestamp'])
+    }
+  };
+}
+
+/** The `dataset`/`modl`/`metric` block of a version info entry, completed from the descriptor it belongs to. */
+function decodeModuleBlock(record: RawRecord, prefix: string, id: CatalogId, name: string) {
+  const block = isRecord(record[prefix]) ? record[prefix] as RawRecord : {};
+  return {
+    id: isId(block[`${prefix}_id`]) ? block[`${prefix}_id`] as CatalogId : id,
+    name: readText(block, [`${prefix}_name`]) || name,
+    description: readText(block, [`${prefix}_description`])
+  };
+}
+
+/** Shared part of the dataset/model/metric decoders; `prefix` is the field prefix used by the API (`dataset`, `modl`, `metric`). */
+function decodeModuleDescriptor(raw: unknown, path: string, prefix: string) {
+  const record = expectRecord(raw, path);
+  const id = readId(record, [`${prefix}_id`, 'id'], path);
+  const name = readText(record, [`${prefix}_name`, 'name']);
+  const versions = readList(record, [`${prefix}_version_info_list`], path, (entry, entryPath) => {
+    const entryRecord = expectRecord(entry, entryPath);
+    return { info: decodeVersionInfo(entryRecord, entryPath, prefix), block: decodeModuleBlock(entryRecord, prefix, id, name) };
+  });
+  return { id, name: name || versions[0]?.block.name || '', versions };
+}
+
+export function decodeDatasetDescriptor(raw: unknown, path: string): DatasetDescriptor {
+  const { id, name, versions } = decodeModuleDescriptor(raw, path, 'dataset');
+  return {
+    dataset_id: id,
+    dataset_name: name,
+    dataset_version_info_list: versions.map(({ info, block }) => ({
+      ...info,
+      dataset: { dataset_id: block.id, dataset_name: block.name, dataset_description: block.description }
+    }))
+  };
+}
+
+export function decodeModelDescriptor(raw: unknown, path: string): ModelDescriptor {
+  const { id, name, versions } = decodeModuleDescriptor(raw, path, 'modl');
+  return {
+    modl_id: id,
+    modl_name: name,
+    modl_version_info_list: versions.map(({ info, block }) => ({
+      ...info,
+      modl: { modl_id: block.id, modl_name: block.name, modl_description: block.description }
+    }))
+  };
+}
+
+export function decodeMetricDescriptor(raw: unknown, path: string): MetricDescriptor {
+  const { id, name, versions } = decodeModuleDescriptor(raw, path, 'metric');
+  return {
+    metric_id: id,
+    metric_name: name,
+    metric_version_info_list: versions.map(({ info, block }) => ({
+      ...info,
+      metric: { metric_id: block.id, metric_name: block.name, metric_description: block.description }
+    }))
+  };
+}
+
+function decodeTaskVersionInfo(raw: unknown, path: string): TaskVersionInfo {
+  if (isId(raw)) {
+    return { version: { version_number: raw } };
+  }
+  const record = expectRecord(raw, path);
+  const version = isRecord(record['version']) ? record['version'] : record;
+  return { version: { version_number: readId(version, ['version_number'], path) } };
+}
+
+/** Task descriptors come in several shapes; a bare id is accepted as a task without versions. */
+export function decodeTaskDescriptor(raw: unknown, path: string): TaskDescriptor {
+  if (isId(raw)) {
+    return { task_id: String(raw), task_name: String(raw), task_version_info_list: [] };
+  }
+  const record = expectRecord(raw, path);
+  const id = readId(record, ['task_id', 'id', 'taskId'], path);
+  return {
+    task_id: id,
+    task_name: readText(record, ['task_name', 'name', 'taskName']) || String(id),
+    task_version_info_list: readList(record, ['task_version_info_list', 'version_info_list', 'versions'], path, decodeTaskVersionInfo)
+  };
+}
+
+/**
+ * Decode the descriptor list of a fetch response (`{ data: { <listField>: [...] } }`).
+ * Records that fail to decode are reported as issues and left out; a response without the list throws.
+ */
+export function decodeCatalogResponse<T>(
+  resource: CatalogResource,
+  response: unknown,
+  listField: string,
+  decoder: Decoder<T>
+): CatalogDecodeResult<T> {
+  const data = isRecord(response) ? response['data'] : undefined;
+  const list = isRecord(data) ? data[listField] : undefined;
+  if (!Array.isArray(list)) {
+    throw new CatalogDecodeError(`response has no data.${listField} list`, resource);
+  }
+  return decodeCatalogList(resource, list, decoder);
+}
+
+/** Decode a list of raw descriptors, collecting the records that fail instead of aborting. */
+export function decodeCatalogList<T>(resource: CatalogResource, list: unknown[], decoder: Decoder<T>): CatalogDecodeResult<T> {
+  const result: CatalogDecodeResult<T> = { items: [], issues: [] };
+  list.forEach((raw, index) => {
+    try {
+      result.items.push(decoder(raw, `${resource}[${index}]`));
+    } catch (error) {
+      if (!(error instanceof CatalogDecodeError)) {
+        throw error;
+      }
+      const id = isRecord(raw) ? pick(raw, ['dataset_id', 'modl_id', 'metric_id', 'task_id', 'id']) : undefined;
+      result.issues.push({ resource, index, id: isId(id) ? String(id) : null, message: error.message });
+    }
+  });
+  return result;
+}
+
+/** Total number of records reported by a paged fetch response, or null when the server does not send one. */
+export function readCatalogTotal(response: unknown): number | null {
+  const data = isRecord(response) ? response['data'] : undefined;
+  for (const source of [data, response]) {
+    if (!isRecord(source)) {
+      continue;
+    }
+    const value = pick(source, ['total_count', 'totalCount', 'total_records', 'totalRecords', 'total']);
+    const total = typeof value === 'string' ? Number(value) : value;
+    if (typeof total === 'number' && Number.isInteger(total) && total >= 0) {
+      return total;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,82 @@
+import { CatalogResource } from './catalog';
+
+/**
+ * Filter definitions of the `/<module>_version/fetch` request bodies. The server expects every definition in the
+ * `filters` array; a filter is active when its `value` list is not empty.
+ */
+
+/** `chip` filters select from `metaData` options; `chips_search_bar` filters take free-text values. */
+export type CatalogFilterType = 'chip' | 'chips_search_bar';
+
+export interface CatalogFilterOption {
+  name: string;
+  value: string;
+}
+
+/** One entry of the `filters` array of a fetch request body. */
+export interface CatalogFilter {
+  name: string;
+  type: CatalogFilterType;
+  value: string[];
+  metaData: CatalogFilterOption[];
+}
+
+/** A selected filter value, as shown in the active filter chips. */
+export interface ActiveCatalogFilter {
+  filter: string;
+  value: string;
+  label: string;
+}
+
+function searchBar(name: string): CatalogFilter {
+  return { name, type: 'chips_search_bar', value: [], metaData: [] };
+}
+
+function chip(name: string, options: [string, string][]): CatalogFilter {
+  return { name, type: 'chip', value: [], metaData: options.map(([label, value]) => ({ name: label, value })) };
+}
+
+const RUNS = chip('Runs', [['>10s', '10'], ['>100s', '100'], ['>1000s', '1000'], ['>100000s', '100000']]);
+const FEATURES = chip('Features', [['>10s', '10'], ['>100s', '100'], ['>1000s', '1000']]);
+const LIKES = chip('Likes', [['>100s', '100'], ['>1000s', '1000'], ['>100000s', '100000']]);
+const DOWNLOADS = chip('Downloads', [['>10s', '10'], ['>100s', '100'], ['>1000s', '1000']]);
+const VISIBILITY = chip('Visibility', [['Public', 'Public'], ['Private', 'Private']]);
+const TAGS = searchBar('Tags');
+const VERIFICATION = chip('Verification', [['Verified', 'Verified'], ['Not Verified', 'Not_Verified']]);
+const STATUS = chip('Status', [['Active', 'Active'], ['Deactive', 'Deactive']]);
+
+/**
+ * Filter schema per resource. The model schema is the one the portal sends with every model request; datasets and
+ * metrics offer the model filters they share (their ID and version search bars are model-specific), and their
+ * requests only carry a schema once a value is selected.
+ */
+export const CATALOG_FILTER_SCHEMAS: Record<CatalogResource, CatalogFilter[]> = {
+  datasets: [RUNS, FEATURES, LIKES, DOWNLOADS, VISIBILITY, TAGS, VERIFICATION, STATUS],
+  models: [searchBar('Model ID'), searchBar('Model Version'), RUNS, FEATURES, LIKES, DOWNLOADS, VISIBILITY, TAGS, VERIFICATION, STATUS],
+  metrics: [RUNS, LIKES, DOWNLOADS, VISIBILITY, TAGS, VERIFICATION, STATUS],
+  tasks: []
+};
+
+/** Fresh copy of a resource's filter schema with no values selected. */
+export function emptyCatalogFilters(resource: CatalogResource): CatalogFilter[] {
+  return CATALOG_FILTER_SCHEMAS[resource].map(filter => ({ ...filter, value: [], metaData: [...filter.metaData] }));
+}
+
+/** Copy of `filters` with `value` added to (or, when already selected, removed from) the named filter. */
+export function toggleCatalogFilterValue(filters: CatalogFilter[], name: string, value: string): CatalogFilter[] {
+  return filters.map(filter => {
+    if (filter.name !== name) {
+      return filter;
+    }
+    const selected = filter.value.includes(value);
+    return { ...filter, value: selected ? filter.value.filter(v => v !== value) : [...filter.value, value] };
+  });
+}
+
+export function activeCatalogFilters(filters: CatalogFilter[]): ActiveCatalogFilter[] {
+  return filters.flatMap(filter => filter.value.map(value => ({
+    filter: filter.name,
+    value,
+    label: `${filter.name}: ${filter.metaData.find(option => option.value === value)?.name ?? value}`
+  })));
+}
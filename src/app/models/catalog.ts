@@ -0,0 +1,100 @@
+/**
+ * Typed view of the CausalBench+ catalog returned by the `/<module>_version/fetch` endpoints.
+ * Records are normalized by the decoders in catalog-decoders.ts, so every field below is always present.
+ */
+
+/** Ids and version numbers are integers on the server, but some endpoints send them as strings. */
+export type CatalogId = number | string;
+
+export interface Hyperparameter {
+  hyperparameter_name: string;
+  /** Default value, as text */
+  hyperparameter_value: string;
+  hyperparameter_data_type: string;
+  hyperparameter_description: string;
+  allowed_values: string[];
+}
+
+/** A file of a dataset version; `file_type` is the generic name (file1, file2, ...) used in exported contexts. */
+export interface Feature {
+  file_name: string;
+  file_type: string;
+}
+
+/** Task a model or metric version was built for. */
+export interface TaskRef {
+  task_id: CatalogId;
+  task_name: string;
+  version_number: CatalogId | null;
+}
+
+export interface ModuleVersion {
+  version_number: CatalogId;
+  hyperparameters: Hyperparameter[];
+  features: Feature[];
+  tasks: TaskRef[];
+  /** Size of the data files of a dataset version; null when not reported (always for models and metrics) */
+  min_row_count: number | null;
+  max_row_count: number | null;
+  min_column_count: number | null;
+  max_column_count: number | null;
+}
+
+export interface VersionDescription {
+  description_text: string;
+  author: string;
+}
+
+export interface VersionMetadata {
+  visibility: string;
+  url: string;
+  upload_timestamp: string;
+}
+
+export interface VersionInfo {
+  version: ModuleVersion;
+  description: VersionDescription;
+  metadata: VersionMetadata;
+}
+
+export interface DatasetVersionInfo extends VersionInfo {
+  dataset: { dataset_id: CatalogId; dataset_name: string; dataset_description: string };
+}
+
+export interface ModelVersionInfo extends VersionInfo {
+  modl: { modl_id: CatalogId; modl_name: string; modl_description: string };
+}
+
+export interface MetricVersionInfo extends VersionInfo {
+  metric: { metric_id: CatalogId; metric_name: string; metric_description: string };
+}
+
+export interface DatasetDescriptor {
+  dataset_id: CatalogId;
+  dataset_name: string;
+  dataset_version_info_list: DatasetVersionInfo[];
+}
+
+export interface ModelDescriptor {
+  modl_id: CatalogId;
+  modl_name: string;
+  modl_version_info_list: ModelVersionInfo[];
+}
+
+export interface MetricDescriptor {
+  metric_id: CatalogId;
+  metric_name: string;
+  metric_version_info_list: MetricVersionInfo[];
+}
+
+export interface TaskVersionInfo {
+  version: { version_number: CatalogId };
+}
+
+export interface TaskDescriptor {
+  task_id: CatalogId;
+  task_name: string;
+  task_version_info_list: TaskVersionInfo[];
+}
+
+export type CatalogResource = 'datasets' | 'models' | 'metrics' | 'tasks';
@@ -0,0 +1,102 @@
+import { Hyperparameter } from './catalog';
+
+/**
+ * Built-in processors for the node editor. Data processors sit between a dataset and a model, output processors
+ * between a model and its metrics. Parameters use the catalog hyperparameter shape, so the same inputs and
+ * validation apply.
+ */
+
+export type ProcessorStage = 'data' | 'output';
+
+export interface ProcessorDescriptor {
+  processor_id: string;
+  processor_name: string;
+  description: string;
+  stage: ProcessorStage;
+  parameters: Hyperparameter[];
+}
+
+/** Data of a configured processor node (`ContextProcessor.data`). */
+export interface ProcessorConfig {
+  processor_id: string;
+  processor_name: string;
+  parameters: Record<string, { value: string; data_type: string }>;
+}
+
+function parameter(name: string, dataType: string, value: string, description: string, allowedValues: string[] = []): Hyperparameter {
+  return {
+    hyperparameter_name: name,
+    hyperparameter_value: value,
+    hyperparameter_data_type: dataType,
+    hyperparameter_description: description,
+    allowed_values: allowedValues
+  };
+}
+
+export const PROCESSOR_CATALOG: ProcessorDescriptor[] = [
+  {
+    processor_id: 'normalize',
+    processor_name: 'Normalization',
+    description: 'Rescales every column of the data.',
+    stage: 'data',
+    parameters: [
+      parameter('method', 'str', 'zscore', 'zscore: zero mean, unit variance; minmax: range [0, 1]; robust: median and interquartile range', ['zscore', 'minmax', 'robust'])
+    ]
+  },
+  {
+    processor_id: 'lag_window',
+    processor_name: 'Lag Windowing',
+    description: 'Adds lagged copies of every column, for models that expect a windowed time series.',
+    stage: 'data',
+    parameters: [
+      parameter('window', 'int', '3', 'Number of past time steps added as columns'),
+      parameter('stride', 'int', '1', 'Time steps between consecutive lags'),
+      parameter('include_current', 'bool', 'True', 'Keep the unlagged columns')
+    ]
+  },
+  {
+    processor_id: 'subsample',
+    processor_name: 'Subsampling',
+    description: 'Keeps a part of the rows, e.g. to compare models on smaller samples.',
+    stage: 'data',
+    parameters: [
+      parameter('fraction', 'float', '0.5', 'Share of the rows to keep, from 0 to 1'),
+      parameter('method', 'str', 'random', 'random: rows drawn at random; systematic: every n-th row', ['random', 'systematic']),
+      parameter('seed', 'int', '42', 'Random seed, for reproducible samples')
+    ]
+  },
+  {
+    processor_id: 'threshold_adjacency',
+    processor_name: 'Adjacency Thresholding',
+    description: 'Turns weighted adjacency output into a graph by dropping weak edges.',
+    stage: 'output',
+    parameters: [
+      parameter('threshold', 'float', '0.5', 'Edges with a weight below this are dropped'),
+      parameter('absolute', 'bool', 'True', 'Compare the absolute weight, so strong negative edges are kept'),
+      parameter('binarize', 'bool', 'True', 'Set the weight of the remaining edges to 1')
+    ]
+  }
+];
+
+export function findProcessor(processorId: string | undefined): ProcessorDescriptor | undefined {
+  return PROCESSOR_CATALOG.find(p => p.processor_id === processorId);
+}
+
+/** Configuration with every parameter at its default. */
+export function defaultProcessorConfig(processor: ProcessorDescriptor): ProcessorConfig {
+  return {
+    processor_id: processor.processor_id,
+    processor_name: processor.processor_name,
+    parameters: Object.fromEntries(processor.parameters.map(p => [
+      p.hyperparameter_name,
+      { value: p.hyperparameter_value, data_type: p.hyperparameter_data_type }
+    ]))
+  };
+}
+
+/** e.g. "window=3, stride=1"; empty for an unconfigured processor. */
+export function describeProcessorParameters(data: any): string {
+  return Object.entries((data?.parameters ?? {}) as Record<string, { value: string }>)
+    .map(([name, entry]) => `${name}=${entry?.value ?? ''}`)
+    .join(', ');
+}
@@ -0,0 +1,60 @@
+import { HttpClient } from '@angular/common/http';
+import { lastValueFrom, of } from 'rxjs';
+import { ApiService } from './api.service';
+import { AppConfigService } from './app-config.service';
+
+/** A `tasks/fetch` response with `count` task ids starting at `first`. */
+function taskPage(first: number, count: number, total?: number): unknown {
+  const data: Record<string, unknown> = {
+    task_descriptors: Array.from({ length: count }, (_, index) => first + index)
+  };
+  if (total !== undefined) {
+    data['total_count'] = total;
+  }
+  return { success: true, message: '', status_code: 200, data };
+}
+
+function createService(pages: unknown[]): { service: ApiService; post: jasmine.Spy } {
+  const post = jasmine.createSpy('post').and.callFake((_url: string, body: { pageNumber: number }) => of(pages[body.pageNumber]));
+  const service = new ApiService({ post } as unknown as HttpClient, { apiBaseUrl: 'http://api.test' } as AppConfigService);
+  return { service, post };
+}
+
+describe('ApiService paging', () => {
+  it('keeps paging past a short page while the reported total is not reached', async () => {
+    const { service, post } = createService([
+      taskPage(0, 100, 230),
+      taskPage(100, 30, 230),
+      taskPage(130, 100, 230)
+    ]);
+
+    const result = await lastValueFrom(service.getTasks(''));
+
+    expect(post).toHaveBeenCalledTimes(3);
+    expect(result.items.length).toBe(230);
+    expect(result.loaded).toBe(230);
+    expect(result.total).toBe(230);
+    expect(result.complete).toBeTrue();
+  });
+
+  it('stops on an empty page before the reported total is reached', async () => {
+    const { service, post } = createService([taskPage(0, 100, 500), taskPage(100, 0, 500)]);
+
+    const result = await lastValueFrom(service.getTasks(''));
+
+    expect(post).toHaveBeenCalledTimes(2);
+    expect(result.items.length).toBe(100);
+    expect(result.complete).toBeTrue();
+  });
+
+  it('stops at a short page when the server sends no total', async () => {
+    const { service, post } = createService([taskPage(0, 100), taskPage(100, 40), taskPage(140, 100)]);
+
+    const result = await lastValueFrom(service.getTasks(''));
+
+    expect(post).toHaveBeenCalledTimes(2);
+    expect(result.items.length).toBe(140);
+    expect(result.total).toBeNull();
+    expect(result.complete).toBeTrue();
+  });
+});
@@ -1,6 +1,31 @@
 import { Injectable } from '@angular/core';
 import { HttpClient, HttpHeaders } from '@angular/common/http';
-import { Observable, catchError, map, of } from 'rxjs';
+import { BehaviorSubject, EMPTY, Observable, catchError, defer, expand, map, of, throwError } from 'rxjs';
+import { AppConfigService } from './app-config.service';
+import { CatalogLoadProgress, CatalogProvider, CatalogQuery } from './catalog-provider';
+import {
+  CatalogResource,
+  DatasetDescriptor,
+  MetricDescriptor,
+  ModelDescriptor,
+  TaskDescriptor
+} from '../models/catalog';
+import {
+  CatalogDecodeError,
+  CatalogDecodeIssue,
+  decodeCatalogResponse,
+  decodeDatasetDescriptor,
+  decodeMetricDescriptor,
+  decodeModelDescriptor,
+  decodeTaskDescriptor,
+  readCatalogTotal
+} from '../models/catalog-decoders';
+import { CATALOG_FILTER_SCHEMAS } from '../models/catalog-filters';
+
+/** Records requested per fetch call; the catalog is loaded page by page until the server's total is reached. */
+const CATALOG_PAGE_SIZE = 100;
+// Stop paging a server that ignores pageNumber and keeps sending full pages
+const CATALOG_MAX_PAGES = 500;
 
 export interface ApiResponse<T> {
   success: boolean;
@@ -12,173 +37,31 @@ export interface ApiResponse<T> {
 @Injectable({
   providedIn: 'root'
 })
-export class ApiService {
-  // Update this base URL to match your API backend
-  private baseUrl = 'https://causalbench.org/api'; // Adjust this to your API URL
+export class ApiService implements CatalogProvider {
+  // Base URL comes from the environment profile (or its runtime override in the settings panel)
+  private get baseUrl(): string {
+    return this.appConfig.apiBaseUrl;
+  }
 
-  // Hardcoded request bodies - paste your pre-formatted request bodies here
+  // Default request bodies; searchText/sort/filters are replaced by the CatalogQuery and the page fields per request
   private readonly DATASET_REQUEST_BODY = {
     "showOnlyUserData": false,
     "searchText": "",
     "sortField": "",
     "sortState": "",
     "pageNumber": 0,
-    "pageSize": 999999,
+    "pageSize": CATALOG_PAGE_SIZE,
     "filters": []
   };
 
   private readonly MODEL_REQUEST_BODY = {
     "searchText": "",
     "pageNumber": 0,
-    "pageSize": 9999,
+    "pageSize": CATALOG_PAGE_SIZE,
     "sortField": "Uploaded Date",
     "sortState": "desc",
     "user_id": 2,
-    "filters": [
-        {
-            "name": "Model ID",
-            "type": "chips_search_bar",
-            "value": [],
-            "metaData": []
-        },
-        {
-            "name": "Model Version",
-            "type": "chips_search_bar",
-            "value": [],
-            "metaData": []
-        },
-        {
-            "name": "Runs",
-            "type": "chip",
-            "value": [],
-            "metaData": [
-                {
-                    "name": ">10s",
-                    "value": "10"
-                },
-                {
-                    "name": ">100s",
-                    "value": "100"
-                },
-                {
-                    "name": ">1000s",
-                    "value": "1000"
-                },
-                {
-                    "name": ">100000s",
-                    "value": "100000"
-                }
-            ]
-        },
-        {
-            "name": "Features",
-            "type": "chip",
-            "value": [],
-            "metaData": [
-                {
-                    "name": ">10s",
-                    "value": "10"
-                },
-                {
-                    "name": ">100s",
-                    "value": "100"
-                },
-                {
-                    "name": ">1000s",
-                    "value": "1000"
-                }
-            ]
-        },
-        {
-            "name": "Likes",
-            "type": "chip",
-            "value": [],
-            "metaData": [
-                {
-                    "name": ">100s",
-                    "value": "100"
-                },
-                {
-                    "name": ">1000s",
-                    "value": "1000"
-                },
-                {
-                    "name": ">100000s",
-                    "value": "100000"
-                }
-            ]
-        },
-        {
-            "name": "Downloads",
-            "type": "chip",
-            "value": [],
-            "metaData": [
-                {
-                    "name": ">10s",
-                    "value": "10"
-                },
-                {
-                    "name": ">100s",
-                    "value": "100"
-                },
-                {
-                    "name": ">1000s",
-                    "value": "1000"
-                }
-            ]
-        },
-        {
-            "name": "Visibility",
-            "type": "chip",
-            "value": [],
-            "metaData": [
-                {
-                    "name": "Public",
-                    "value": "Public"
-                },
-                {
-                    "name": "Private",
-                    "value": "Private"
-                }
-            ]
-        },
-        {
-            "name": "Tags",
-            "type": "chips_search_bar",
-            "value": [],
-            "metaData": []
-        },
-        {
-            "name": "Verification",
-            "type": "chip",
-            "value": [],
-            "metaData": [
-                {
-                    "name": "Verified",
-                    "value": "Verified"
-                },
-                {
-                    "name": "Not Verified",
-                    "value": "Not_Verified"
-                }
-            ]
-        },
-        {
-            "name": "Status",
-            "type": "chip",
-            "value": [],
-            "metaData": [
-                {
-                    "name": "Active",
-                    "value": "Active"
-                },
-                {
-                    "name": "Deactive",
-                    "value": "Deactive"
-                }
-            ]
-        }
-    ],
+    "filters": CATALOG_FILTER_SCHEMAS.models,
     "showOnlyUserData": false
   };
 
@@ -188,7 +71,7 @@ export class ApiService {
     "sortField": "",
     "sortState": "",
     "pageNumber": 0,
-    "pageSize": 20,
+    "pageSize": CATALOG_PAGE_SIZE,
     "filters": [],
     "user_id": "1"
   };
@@ -199,13 +82,17 @@ export class ApiService {
     "sortField": "",
     "sortState": "",
     "pageNumber": 0,
-    "pageSize": 20,
+    "pageSize": CATALOG_PAGE_SIZE,
     "filters": [],
     "user_id": "1"
   };
 
+  /** Catalog records (or whole responses) that could not be decoded, grouped by the last fetch of each resource. */
+  readonly catalogIssues$ = new BehaviorSubject<CatalogDecodeIssue[]>([]);
+
   constructor(
-    private http: HttpClient
+    private http: HttpClient,
+    private appConfig: AppConfigService
   ) { }
 
   // Get headers with dynamic token
@@ -220,100 +107,103 @@ export class ApiService {
   }
 
   // Get datasets from API - expects YAML format: { data: { dataset_descriptors: [...] } }
-  getDatasets(token: string): Observable<any[]> {
-    console.log('Sending dataset request body:', this.DATASET_REQUEST_BODY);
-    return this.http.post<any>(`${this.baseUrl}/dataset_version/fetch`, this.DATASET_REQUEST_BODY, { headers: this.getHeaders(token) }).pipe(
-      map(response => {
-        // Handle YAML format: { success: true, message: "...", status_code: 200, data: { dataset_descriptors: [...] } }
-        if (response && response.data && response.data.dataset_descriptors) {
-          return response.data.dataset_descriptors;
-        } else {
-          console.warn('Unexpected dataset response format:', response);
-          return [];
-        }
-      }),
-      catchError(error => {
-        console.error('Error fetching datasets:', error);
-        return of([]);
-      })
-    );
+  getDatasets(token: string, query: CatalogQuery = {}): Observable<CatalogLoadProgress<DatasetDescriptor>> {
+    return this.fetchAllPages('datasets', 'dataset_version/fetch', this.DATASET_REQUEST_BODY, 'dataset_descriptors', decodeDatasetDescriptor, token, query);
   }
 
   // Get models from API - expects YAML format: { data: { modl_descriptors: [...] } }
-  getModels(token: string): Observable<any[]> {
-    console.log('Sending model request body:', this.MODEL_REQUEST_BODY);
-    return this.http.post<any>(`${this.baseUrl}/model_version/fetch`, this.MODEL_REQUEST_BODY, { headers: this.getHeaders(token) }).pipe(
-      map(response => {
-        if (response && response.data && response.data.modl_descriptors) {
-          // Map the response to include task information
-          return response.data.modl_descriptors.map((model: any) => ({
-            ...model,
-            tasks: model.version?.tasks || []
-          }));
-        } else {
-          console.warn('Unexpected model response format:', response);
-          return [];
-        }
-      }),
-      catchError(error => {
-        console.error('Error fetching models:', error);
-        return of([]);
-      })
-    );
+  getModels(token: string, query: CatalogQuery = {}): Observable<CatalogLoadProgress<ModelDescriptor>> {
+    return this.fetchAllPages('models', 'model_version/fetch', this.MODEL_REQUEST_BODY, 'modl_descriptors', decodeModelDescriptor, token, query);
   }
 
   // Get metrics from API - expects YAML format: { data: { metric_descriptors: [...] } }
-  getMetrics(token: string): Observable<any[]> {
-    console.log('Sending metric request body:', this.METRIC_REQUEST_BODY);
-    return this.http.post<any>(`${this.baseUrl}/metric_version/fetch`, this.METRIC_REQUEST_BODY, { headers: this.getHeaders(token) }).pipe(
-      map(response => {
-        if (response && response.data && response.data.metric_descriptors) {
-          // Map the response to include task information
-          return response.data.metric_descriptors.map((metric: any) => ({
-            ...metric,
-            tasks: metric.version?.tasks || []
-          }));
-        } else {
-          console.warn('Unexpected metric response format:', response);
-          return [];
-        }
-      }),
-      catchError(error => {
-        console.error('Error fetching metrics:', error);
-        return of([]);
-      })
-    );
+  getMetrics(token: string, query: CatalogQuery = {}): Observable<CatalogLoadProgress<MetricDescriptor>> {
+    return this.fetchAllPages('metrics', 'metric_version/fetch', this.METRIC_REQUEST_BODY, 'metric_descriptors', decodeMetricDescriptor, token, query);
   }
 
   // Get tasks from API - returns full task descriptors (task_id, task_name, task_version_info_list)
   // Same pattern as datasets, models, metrics
-  getTasks(token: string): Observable<any[]> {
-    return this.http.post<ApiResponse<{ task_descriptors: any[] }>>(`${this.baseUrl}/tasks/fetch`, this.TASKS_REQUEST_BODY, { headers: this.getHeaders(token) })
-      .pipe(
-        map(response => {
-          if (response?.data?.task_descriptors) {
-            return response.data.task_descriptors.map((t: any) => {
-              if (typeof t !== 'object' || t === null) {
-                return { task_id: String(t), task_name: String(t), task_version_info_list: [] };
-              }
-              return {
-                task_id: t.task_id ?? t.id ?? t.taskId,
-                task_name: t.task_name ?? t.name ?? t.taskName ?? String(t.task_id ?? t.id ?? ''),
-                task_version_info_list: t.task_version_info_list ?? t.version_info_list ?? t.versions ?? []
-              };
-            });
-          }
-          console.warn('Unexpected task response format:', response);
-          return [];
-        }),
-        catchError(error => {
-          console.error('Error fetching tasks:', error);
-          return of([]);
-        })
+  getTasks(token: string, query: CatalogQuery = {}): Observable<CatalogLoadProgress<TaskDescriptor>> {
+    return this.fetchAllPages('tasks', 'tasks/fetch', this.TASKS_REQUEST_BODY, 'task_descriptors', decodeTaskDescriptor, token, query);
+  }
+
+  /**
+   * Request page after page until the server's total is reached (or a short page comes back when it sends no total),
+   * emitting the accumulated records after each page. A failed page ends the stream with what was loaded so far.
+   */
+  private fetchAllPages<T>(
+    resource: CatalogResource,
+    endpoint: string,
+    defaults: object,
+    listField: string,
+    decoder: (raw: unknown, path: string) => T,
+    token: string,
+    query: CatalogQuery
+  ): Observable<CatalogLoadProgress<T>> {
+    return defer(() => {
+      const items: T[] = [];
+      const issues: CatalogDecodeIssue[] = [];
+      let progress: CatalogLoadProgress<T> = { items: [], loaded: 0, total: null, complete: false };
+      this.reportIssues(resource, []);
+
+      const fetchPage = (pageNumber: number): Observable<CatalogLoadProgress<T>> => {
+        const body = this.buildRequestBody(defaults, query, pageNumber);
+        return this.http.post<unknown>(`${this.baseUrl}/${endpoint}`, body, { headers: this.getHeaders(token) }).pipe(
+          map(response => {
+            const page = decodeCatalogResponse(resource, response, listField, decoder);
+            const pageCount = page.items.length + page.issues.length;
+            items.push(...page.items);
+            // Issue indexes count from the start of the whole list, not the page
+            issues.push(...page.issues.map(issue => ({ ...issue, index: issue.index === null ? null : issue.index + progress.loaded })));
+            if (page.issues.length > 0) {
+              console.warn(`Skipped ${page.issues.length} malformed ${resource} record(s):`, page.issues);
+              this.reportIssues(resource, issues);
+            }
+
+            const loaded = progress.loaded + pageCount;
+            const total = readCatalogTotal(response);
+            // A known total is trusted over the page size, since a server may cap or trim single pages
+            const complete = (total !== null ? loaded >= total || pageCount === 0 : pageCount < CATALOG_PAGE_SIZE)
+              || pageNumber + 1 >= CATALOG_MAX_PAGES;
+            progress = { items: [...items], loaded, total, complete };
+            return progress;
+          })
+        );
+      };
+
+      let pageNumber = 0;
+      return fetchPage(pageNumber).pipe(
+        expand(page => page.complete ? EMPTY : fetchPage(++pageNumber)),
+        catchError(error => this.handleError(resource, error, progress))
       );
+    });
   }
 
+  private buildRequestBody(defaults: object, query: CatalogQuery, pageNumber: number) {
+    const body: Record<string, unknown> = { ...defaults, pageNumber, pageSize: CATALOG_PAGE_SIZE };
+    for (const key of ['searchText', 'sortField', 'sortState', 'filters'] as const) {
+      if (query[key] !== undefined) {
+        body[key] = query[key];
+      }
+    }
+    return body;
+  }
+
+  private reportIssues(resource: CatalogResource, issues: CatalogDecodeIssue[]) {
+    const others = this.catalogIssues$.value.filter(issue => issue.resource !== resource);
+    this.catalogIssues$.next([...others, ...issues]);
+  }
 
+  // A response in an unexpected format is reported and passed on as an error; a network error ends the load with the pages received so far
+  private handleError<T>(resource: CatalogResource, error: unknown, progress: CatalogLoadProgress<T>): Observable<CatalogLoadProgress<T>> {
+    if (error instanceof CatalogDecodeError) {
+      console.error(`Unexpected ${resource} response format:`, error.message);
+      this.reportIssues(resource, [{ resource, index: null, id: null, message: error.message }]);
+      return throwError(() => error);
+    }
+    console.error(`Error fetching ${resource}:`, error);
+    return of({ ...progress, complete: true, error: error instanceof Error ? error.message : `Could not load ${resource}` });
+  }
 
   // Alternative endpoints if your API uses different paths
   // getDatasetsYaml(): Observable<any> {
@@ -0,0 +1,154 @@
+import { Injectable } from '@angular/core';
+import { environment } from '../../environments/environment';
+import { ENVIRONMENT_PROFILES, EnvironmentProfile, EnvironmentProfileName } from '../../environments/profiles';
+
+/** Settings changed at runtime from the settings panel; anything left out falls back to the build-time profile. */
+export interface AppConfigOverrides {
+  profile?: EnvironmentProfileName;
+  apiBaseUrl?: string;
+  portalUrl?: string;
+  /** Use the bundled fixture catalog instead of the server (no token or network needed) */
+  offline?: boolean;
+}
+
+export interface AppConfig {
+  profile: EnvironmentProfileName;
+  apiBaseUrl: string;
+  portalUrl: string;
+  offline: boolean;
+}
+
+const OVERRIDES_STORAGE_KEY = 'causalbench-designer.config';
+
+@Injectable({
+  providedIn: 'root'
+})
+export class AppConfigService {
+
+  readonly buildProfile: EnvironmentProfileName = environment.profile;
+  readonly profiles = ENVIRONMENT_PROFILES;
+
+  private overrides: AppConfigOverrides = this.loadOverrides();
+  // `?offline` / `?offline=0` in the page URL wins over the saved setting for this page load
+  private readonly offlineQueryParam: boolean | null = this.readOfflineQueryParam();
+
+  get config(): AppConfig {
+    const profile = this.overrides.profile ?? this.buildProfile;
+    const defaults: EnvironmentProfile = ENVIRONMENT_PROFILES[profile];
+    return {
+      profile,
+      apiBaseUrl: (this.overrides.apiBaseUrl || defaults.apiBaseUrl).replace(/\/+$/, ''),
+      portalUrl: (this.overrides.portalUrl || defaults.portalUrl).replace(/\/+$/, ''),
+      offline: this.offlineQueryParam ?? this.overrides.offline ?? false
+    };
+  }
+
+  get offline(): boolean {
+    return this.config.offline;
+  }
+
+  /** True when offline mode comes from the page URL, so the settings dialog cannot change it. */
+  get offlineFromQueryParam(): boolean {
+    return this.offlineQueryParam !== null;
+  }
+
+  get apiBaseUrl(): string {
+    return this.config.apiBaseUrl;
+  }
+
+  /** Page users are sent to when the designer was not opened from the portal with a token. */
+  get portalUrl(): string {
+    return this.config.portalUrl;
+  }
+
+  /** Origins allowed to post the access token: the portal origin and its www./bare-host counterpart. */
+  get allowedTokenOrigins(): string[] {
+    const url = new URL(this.portalUrl);
+    const host = url.host.startsWith('www.') ? url.host.slice(4) : `www.${url.host}`;
+    return [url.origin, `${url.protocol}//${host}`];
+  }
+
+  isAllowedTokenOrigin(origin: string): boolean {
+    return this.allowedTokenOrigins.includes(origin);
+  }
+
+  get hasOverrides(): boolean {
+    return Object.keys(this.overrides).length > 0;
+  }
+
+  /** Store runtime overrides; throws an Error when a URL is not a valid http(s) URL. */
+  saveOverrides(overrides: AppConfigOverrides) {
+    const cleaned: AppConfigOverrides = {};
+    if (overrides.profile && overrides.profile !== this.buildProfile) {
+      cleaned.profile = overrides.profile;
+    }
+    const profile = ENVIRONMENT_PROFILES[overrides.profile ?? this.buildProfile];
+    for (const key of ['apiBaseUrl', 'portalUrl'] as const) {
+      const value = overrides[key]?.trim();
+      if (value && value !== profile[key]) {
+        this.validateUrl(value, key === 'apiBaseUrl' ? 'API base URL' : 'Portal URL');
+        cleaned[key] = value;
+      }
+    }
+    if (overrides.offline) {
+      cleaned.offline = true;
+    }
+    this.overrides = cleaned;
+    localStorage.setItem(OVERRIDES_STORAGE_KEY, JSON.stringify(cleaned));
+  }
+
+  resetOverrides() {
+    this.overrides = {};
+    localStorage.removeItem(OVERRIDES_STORAGE_KEY);
+  }
+
+  private validateUrl(value: string, label: string) {
+    let url: URL;
+    try {
+      url = new URL(value);
+    } catch {
+      throw new Error(`${label} "${value}" is not a valid URL.`);
+    }
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      throw new Error(`${label} must start with http:// or https://.`);
+    }
+  }
+
+  private loadOverrides(): AppConfigOverrides {
+    let stored: any;
+    try {
+      stored = JSON.parse(localStorage.getItem(OVERRIDES_STORAGE_KEY) || '{}');
+    } catch {
+      console.warn('Ignoring unreadable configuration overrides in localStorage');
+      return {};
+    }
+
+    // Drop anything that would not pass saveOverrides() so a bad entry cannot break the token handshake
+    const overrides: AppConfigOverrides = {};
+    if (Object.keys(ENVIRONMENT_PROFILES).includes(stored?.profile)) {
+      overrides.profile = stored.profile;
+    }
+    for (const key of ['apiBaseUrl', 'portalUrl'] as const) {
+      try {
+        if (typeof stored?.[key] === 'string') {
+          this.validateUrl(stored[key], key);
+          overrides[key] = stored[key];
+        }
+      } catch {
+        console.warn(`Ignoring invalid ${key} override:`, stored[key]);
+      }
+    }
+    if (stored?.offline === true) {
+      overrides.offline = true;
+    }
+    return overrides;
+  }
+
+  private readOfflineQueryParam(): boolean | null {
+    const params = new URLSearchParams(window.location.search);
+    if (!params.has('offline')) {
+      return null;
+    }
+    return !/^(0|false|no|off)$/i.test(params.get('offline') ?? '');
+  }
+}
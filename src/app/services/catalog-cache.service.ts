@@ -0,0 +1,120 @@
+import { Injectable } from '@angular/core';
+import { CatalogResource } from '../models/catalog';
+
+/** A completed catalog load as kept in IndexedDB. */
+export interface CachedCatalog {
+  key: string;
+  resource: CatalogResource;
+  items: unknown[];
+  loaded: number;
+  total: number | null;
+  fetchedAt: number;
+}
+
+const DB_NAME = 'causalbench-designer';
+const DB_VERSION = 1;
+const STORE_NAME = 'catalog';
+
+/**
+ * IndexedDB storage for catalog responses. Every method resolves even when IndexedDB is unavailable
+ * (private browsing, blocked storage), so the cache only ever saves requests and never breaks loading.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class CatalogCacheService {
+
+  private db: Promise<IDBDatabase | null> | null = null;
+
+  async get(key: string): Promise<CachedCatalog | null> {
+    const db = await this.open();
+    if (!db) {
+      return null;
+    }
+    return this.request(db, 'readonly', store => store.get(key))
+      .then(entry => (entry as CachedCatalog | undefined) ?? null)
+      .catch(error => {
+        console.warn('Could not read the catalog cache:', error);
+        return null;
+      });
+  }
+
+  async put(entry: CachedCatalog): Promise<void> {
+    const db = await this.open();
+    if (!db) {
+      return;
+    }
+    await this.request(db, 'readwrite', store => store.put(entry))
+      .catch(error => console.warn('Could not write the catalog cache:', error));
+  }
+
+  /** Delete all entries fetched before `fetchedBefore` (ms since epoch). */
+  async prune(fetchedBefore: number): Promise<void> {
+    const db = await this.open();
+    if (!db) {
+      return;
+    }
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, 'readwrite');
+      const cursorRequest = transaction.objectStore(STORE_NAME).openCursor();
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (cursor) {
+          if ((cursor.value as CachedCatalog).fetchedAt < fetchedBefore) {
+            cursor.delete();
+          }
+          cursor.continue();
+        }
+      };
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    }).catch(error => console.warn('Could not prune the catalog cache:', error));
+  }
+
+  async clear(): Promise<void> {
+    const db = await this.open();
+    if (!db) {
+      return;
+    }
+    await this.request(db, 'readwrite', store => store.clear())
+      .catch(error => console.warn('Could not clear the catalog cache:', error));
+  }
+
+  private open(): Promise<IDBDatabase | null> {
+    if (!this.db) {
+      this.db = new Promise(resolve => {
+        if (typeof indexedDB === 'undefined') {
+          resolve(null);
+          return;
+        }
+        let openRequest: IDBOpenDBRequest;
+        try {
+          openRequest = indexedDB.open(DB_NAME, DB_VERSION);
+        } catch (error) {
+          console.warn('IndexedDB is not available, the catalog will not be cached:', error);
+          resolve(null);
+          return;
+        }
+        openRequest.onupgradeneeded = () => {
+          if (!openRequest.result.objectStoreNames.contains(STORE_NAME)) {
+            openRequest.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+          }
+        };
+        openRequest.onsuccess = () => resolve(openRequest.result);
+        openRequest.onerror = () => {
+          console.warn('IndexedDB is not available, the catalog will not be cached:', openRequest.error);
+          resolve(null);
+        };
+      });
+    }
+    return this.db;
+  }
+
+  private request<T>(db: IDBDatabase, mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+      const request = run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
@@ -0,0 +1,57 @@
+import { InjectionToken } from '@angular/core';
+import { Observable } from 'rxjs';
+import { CatalogResource, DatasetDescriptor, MetricDescriptor, ModelDescriptor, TaskDescriptor } from '../models/catalog';
+import { CatalogDecodeIssue } from '../models/catalog-decoders';
+import { CatalogFilter } from '../models/catalog-filters';
+
+export type CatalogSortState = '' | 'asc' | 'desc';
+
+/** Search, sort and filter options passed to the server with every page request; empty fields use the server defaults. */
+export interface CatalogQuery {
+  searchText?: string;
+  sortField?: string;
+  sortState?: CatalogSortState;
+  filters?: CatalogFilter[];
+}
+
+/** Emitted after every page: all records received so far and how many the server reports in total. */
+export interface CatalogLoadProgress<T> {
+  items: T[];
+  /** Records received so far, including malformed ones that were skipped */
+  loaded: number;
+  /** Total reported by the server, or null when it does not send one */
+  total: number | null;
+  complete: boolean;
+  /** Set when a page request failed and loading stopped with the records received so far */
+  error?: string;
+}
+
+/** Loading state of one catalog resource as shown in the sidebar. */
+export interface CatalogLoadState {
+  status: 'idle' | 'loading' | 'complete' | 'failed';
+  loaded: number;
+  total: number | null;
+  /** When the records shown were fetched from the server; null until a load has completed */
+  fetchedAt: number | null;
+  /** Older (cached) records stay visible while a fresh copy loads in the background */
+  revalidating: boolean;
+}
+
+export const CATALOG_RESOURCES: CatalogResource[] = ['datasets', 'models', 'metrics', 'tasks'];
+
+/**
+ * Source of the dataset/model/metric/task catalog. ApiService reads it from the CausalBench+ server,
+ * MockDataService serves the bundled fixtures for the offline demo mode.
+ */
+export interface CatalogProvider {
+  /** Records that could not be decoded, for the last fetch of each resource. */
+  readonly catalogIssues$: Observable<CatalogDecodeIssue[]>;
+
+  getDatasets(token: string, query?: CatalogQuery): Observable<CatalogLoadProgress<DatasetDescriptor>>;
+  getModels(token: string, query?: CatalogQuery): Observable<CatalogLoadProgress<ModelDescriptor>>;
+  getMetrics(token: string, query?: CatalogQuery): Observable<CatalogLoadProgress<MetricDescriptor>>;
+  getTasks(token: string, query?: CatalogQuery): Observable<CatalogLoadProgress<TaskDescriptor>>;
+}
+
+/** Inject this instead of ApiService so the offline mode can swap in the fixture catalog. */
+export const CATALOG_PROVIDER = new InjectionToken<CatalogProvider>('CatalogProvider');
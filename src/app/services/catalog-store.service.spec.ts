@@ -0,0 +1,61 @@
+import { BehaviorSubject, of } from 'rxjs';
+import { DatasetDescriptor } from '../models/catalog';
+import { AppConfigService } from './app-config.service';
+import { CatalogCacheService } from './catalog-cache.service';
+import { CatalogProvider, CatalogQuery } from './catalog-provider';
+import { CatalogSnapshot, CatalogStoreService } from './catalog-store.service';
+import { TokenService } from './token.service';
+
+const DATASETS = [
+  { dataset_id: 1, dataset_name: 'sachs' },
+  { dataset_id: 2, dataset_name: 'asia' }
+] as unknown as DatasetDescriptor[];
+
+function createStore(): CatalogStoreService {
+  // The fixture provider answers synchronously; a search filters by name like the server does
+  const getDatasets = (_token: string, query?: CatalogQuery) => {
+    const items = DATASETS.filter(d => !query?.searchText || d.dataset_name.includes(query.searchText));
+    return of({ items, loaded: items.length, total: items.length, complete: true });
+  };
+  const provider = { catalogIssues$: of([]), getDatasets } as unknown as CatalogProvider;
+  const cache = { prune: () => Promise.resolve(), get: () => Promise.resolve(null), put: () => Promise.resolve() };
+  const tokens = { token$: new BehaviorSubject('token') } as unknown as TokenService;
+  return new CatalogStoreService(provider, cache as unknown as CatalogCacheService, tokens, { offline: true } as AppConfigService);
+}
+
+function latest<T>(source: { subscribe(next: (value: T) => void): { unsubscribe(): void } }): T {
+  let value: T | undefined;
+  source.subscribe(next => value = next).unsubscribe();
+  return value!;
+}
+
+const flush = () => new Promise(resolve => setTimeout(resolve));
+
+describe('CatalogStoreService', () => {
+  it('keeps the selected catalog unfiltered while a query is active', async () => {
+    const store = createStore();
+    store.select('datasets').subscribe();
+    await flush();
+
+    store.setQuery('datasets', { searchText: 'asia' });
+    const during = latest<CatalogSnapshot<DatasetDescriptor>>(store.select('datasets'));
+    await flush();
+
+    expect(during.items.length).toBe(2);
+    expect(latest<CatalogSnapshot<DatasetDescriptor>>(store.select('datasets')).items.length).toBe(2);
+    expect(latest<CatalogSnapshot<DatasetDescriptor>>(store.selectResults('datasets')).items.map(d => d.dataset_id)).toEqual([2]);
+  });
+
+  it('gives the unfiltered catalog as results once the query is cleared', async () => {
+    const store = createStore();
+    store.setQuery('datasets', { searchText: 'asia' });
+    await flush();
+
+    let results: DatasetDescriptor[] = [];
+    store.selectResults('datasets').subscribe(snapshot => results = snapshot.items);
+    store.setQuery('datasets', {});
+    await flush();
+
+    expect(results.length).toBe(2);
+  });
+});
@@ -0,0 +1,276 @@
+import { Inject, Injectable } from '@angular/core';
+import { BehaviorSubject, Observable, Subscription, distinctUntilChanged, map, switchMap } from 'rxjs';
+import { CatalogResource, DatasetDescriptor, MetricDescriptor, ModelDescriptor, TaskDescriptor } from '../models/catalog';
+import { AppConfigService } from './app-config.service';
+import { CachedCatalog, CatalogCacheService } from './catalog-cache.service';
+import {
+  CATALOG_PROVIDER,
+  CATALOG_RESOURCES,
+  CatalogLoadProgress,
+  CatalogLoadState,
+  CatalogProvider,
+  CatalogQuery
+} from './catalog-provider';
+import { TokenService } from './token.service';
+
+export interface CatalogItems {
+  datasets: DatasetDescriptor;
+  models: ModelDescriptor;
+  metrics: MetricDescriptor;
+  tasks: TaskDescriptor;
+}
+
+export interface CatalogSnapshot<T> {
+  items: T[];
+  load: CatalogLoadState;
+}
+
+const MINUTE = 60 * 1000;
+
+/** How long a loaded catalog counts as fresh; older data is shown at once and revalidated in the background. */
+const CATALOG_TTL_MS: Record<CatalogResource, number> = {
+  datasets: 30 * MINUTE,
+  models: 30 * MINUTE,
+  metrics: 30 * MINUTE,
+  tasks: 6 * 60 * MINUTE
+};
+
+// Cache entries older than this are not worth showing even as stale data
+const CACHE_MAX_AGE_MS = 7 * 24 * 60 * MINUTE;
+
+const IDLE: CatalogLoadState = { status: 'idle', loaded: 0, total: null, fetchedAt: null, revalidating: false };
+
+/** One loaded list of a resource: the full catalog, or the results of the catalog panel's query. */
+interface CatalogSlot {
+  resource: CatalogResource;
+  query: CatalogQuery;
+  snapshot: BehaviorSubject<CatalogSnapshot<unknown>>;
+  fetch?: Subscription;
+  // Bumped whenever the slot's query changes, so answers for an older query are dropped
+  generation: number;
+  starting: boolean;
+}
+
+function isEmptyQuery(query: CatalogQuery): boolean {
+  return !query.searchText && !query.sortField && !query.filters;
+}
+
+/**
+ * Shared catalog for all views. Each resource is fetched once and kept in memory and IndexedDB; stale data is
+ * served immediately while a fresh copy loads in the background (stale-while-revalidate).
+ *
+ * `select` always gives the unfiltered catalog, which restores, imports and version lookups resolve against.
+ * A server-side search of the catalog panel loads into a separate list (see selectResults).
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class CatalogStoreService {
+
+  private readonly catalogs = {} as Record<CatalogResource, CatalogSlot>;
+  private readonly results = {} as Record<CatalogResource, CatalogSlot>;
+  private readonly requested = new Set<CatalogResource>();
+  private token: string | null = null;
+
+  private readonly queriesSubject = new BehaviorSubject<Record<CatalogResource, CatalogQuery>>(
+    { datasets: {}, models: {}, metrics: {}, tasks: {} }
+  );
+  /** Search/sort/filter options of the catalog panel for each resource. */
+  readonly queries$ = this.queriesSubject.asObservable();
+
+  constructor(
+    @Inject(CATALOG_PROVIDER) private catalogProvider: CatalogProvider,
+    private catalogCache: CatalogCacheService,
+    private tokenService: TokenService,
+    private appConfig: AppConfigService
+  ) {
+    for (const resource of CATALOG_RESOURCES) {
+      this.catalogs[resource] = this.createSlot(resource);
+      this.results[resource] = this.createSlot(resource);
+    }
+    this.catalogCache.prune(Date.now() - CACHE_MAX_AGE_MS);
+
+    this.tokenService.token$.subscribe(token => {
+      const changed = this.token !== null && this.token !== token;
+      this.token = token;
+      // A new token can see different (private) records, so it always refetches
+      const slots = [
+        ...Array.from(this.requested, resource => this.catalogs[resource]),
+        ...CATALOG_RESOURCES.map(resource => this.results[resource]).filter(slot => !isEmptyQuery(slot.query))
+      ];
+      slots.forEach(slot => changed ? this.fetch(slot) : this.ensureLoaded(slot));
+    });
+  }
+
+  get queries(): Record<CatalogResource, CatalogQuery> {
+    return this.queriesSubject.value;
+  }
+
+  /** Unfiltered records and load state of a resource. Subscribing also starts loading it if that has not happened yet. */
+  select<R extends CatalogResource>(resource: R): Observable<CatalogSnapshot<CatalogItems[R]>> {
+    this.requested.add(resource);
+    if (this.token !== null) {
+      this.ensureLoaded(this.catalogs[resource]);
+    }
+    return this.catalogs[resource].snapshot.asObservable() as Observable<CatalogSnapshot<CatalogItems[R]>>;
+  }
+
+  /** Records matching the resource's query; without a query, the unfiltered catalog. */
+  selectResults<R extends CatalogResource>(resource: R): Observable<CatalogSnapshot<CatalogItems[R]>> {
+    return this.queries$.pipe(
+      map(queries => isEmptyQuery(queries[resource])),
+      distinctUntilChanged(),
+      switchMap(empty => empty
+        ? this.select(resource)
+        : this.results[resource].snapshot.asObservable() as Observable<CatalogSnapshot<CatalogItems[R]>>)
+    );
+  }
+
+  /** Switch a resource to another query; its results come from the cache when that query was loaded before. */
+  setQuery(resource: CatalogResource, query: CatalogQuery) {
+    this.queriesSubject.next({ ...this.queries, [resource]: query });
+    const slot = this.results[resource];
+    slot.query = query;
+    slot.generation++;
+    slot.fetch?.unsubscribe();
+    delete slot.fetch;
+    slot.starting = false;
+    slot.snapshot.next({ items: [], load: IDLE });
+    if (!isEmptyQuery(query)) {
+      this.ensureLoaded(slot);
+    }
+  }
+
+  /** Refetch resources from the server, ignoring their TTL. Loaded records stay visible until the new copy is complete. */
+  refresh(resources: CatalogResource[] = CATALOG_RESOURCES) {
+    resources.forEach(resource => {
+      this.fetch(this.catalogs[resource]);
+      if (!isEmptyQuery(this.results[resource].query)) {
+        this.fetch(this.results[resource]);
+      }
+    });
+  }
+
+  private createSlot(resource: CatalogResource): CatalogSlot {
+    return { resource, query: {}, snapshot: new BehaviorSubject<CatalogSnapshot<unknown>>({ items: [], load: IDLE }), generation: 0, starting: false };
+  }
+
+  /** Serve a slot from memory or the cache and fetch it when there is nothing fresh enough. */
+  private async ensureLoaded(slot: CatalogSlot) {
+    if (this.token === null || slot.fetch || slot.starting) {
+      return;
+    }
+    const { load } = slot.snapshot.value;
+    if (load.fetchedAt !== null && !this.isStale(slot.resource, load.fetchedAt)) {
+      return;
+    }
+
+    if (load.fetchedAt === null) {
+      const generation = slot.generation;
+      slot.starting = true;
+      const cached = await this.readCache(slot);
+      if (generation !== slot.generation || !slot.starting) {
+        return;
+      }
+      slot.starting = false;
+      if (cached) {
+        slot.snapshot.next({
+          items: cached.items,
+          load: { status: 'complete', loaded: cached.loaded, total: cached.total, fetchedAt: cached.fetchedAt, revalidating: false }
+        });
+        if (!this.isStale(slot.resource, cached.fetchedAt)) {
+          return;
+        }
+      }
+    }
+    this.fetch(slot);
+  }
+
+  private fetch(slot: CatalogSlot) {
+    if (this.token === null) {
+      if (slot === this.catalogs[slot.resource]) {
+        this.requested.add(slot.resource);
+      }
+      return;
+    }
+    slot.fetch?.unsubscribe();
+    slot.starting = false;
+
+    const previous = slot.snapshot.value;
+    const hasData = previous.load.fetchedAt !== null;
+    const key = this.cacheKey(slot);
+    slot.snapshot.next({
+      items: previous.items,
+      load: { status: 'loading', loaded: 0, total: null, fetchedAt: previous.load.fetchedAt, revalidating: hasData }
+    });
+
+    const subscription = this.request(slot).subscribe({
+      next: progress => {
+        const done = progress.complete && !progress.error;
+        const status = progress.error ? 'failed' : progress.complete ? 'complete' : 'loading';
+        const fetchedAt = done ? Date.now() : null;
+        slot.snapshot.next({
+          // Pages of a first load are shown as they arrive; a revalidation swaps the data in once it is complete
+          items: hasData && !done ? previous.items : progress.items,
+          load: {
+            status,
+            loaded: progress.loaded,
+            total: progress.total,
+            fetchedAt: fetchedAt ?? previous.load.fetchedAt,
+            revalidating: hasData && !progress.complete
+          }
+        });
+        if (fetchedAt !== null) {
+          console.log(`Available ${slot.resource} loaded:`, progress.items);
+          this.writeCache(key, slot.resource, progress, fetchedAt);
+        }
+      },
+      error: (error) => {
+        console.error(`Error loading ${slot.resource}:`, error);
+        const current = slot.snapshot.value;
+        slot.snapshot.next({ items: current.items, load: { ...current.load, status: 'failed', revalidating: false } });
+        delete slot.fetch;
+      },
+      complete: () => delete slot.fetch
+    });
+    // A provider that answers synchronously (the offline fixtures) has already completed here
+    if (!subscription.closed) {
+      slot.fetch = subscription;
+    }
+  }
+
+  private request(slot: CatalogSlot): Observable<CatalogLoadProgress<unknown>> {
+    const token = this.token ?? '';
+    switch (slot.resource) {
+      case 'datasets':
+        return this.catalogProvider.getDatasets(token, slot.query);
+      case 'models':
+        return this.catalogProvider.getModels(token, slot.query);
+      case 'metrics':
+        return this.catalogProvider.getMetrics(token, slot.query);
+      case 'tasks':
+        return this.catalogProvider.getTasks(token, slot.query);
+    }
+  }
+
+  private isStale(resource: CatalogResource, fetchedAt: number): boolean {
+    return Date.now() - fetchedAt > CATALOG_TTL_MS[resource];
+  }
+
+  /** Entries are per server and query, so switching the environment profile never shows another server's catalog. */
+  private cacheKey(slot: CatalogSlot): string {
+    return [this.appConfig.apiBaseUrl, slot.resource, JSON.stringify(slot.query)].join('|');
+  }
+
+  private readCache(slot: CatalogSlot): Promise<CachedCatalog | null> {
+    // The offline fixtures are already local, and online entries must not leak into the demo
+    return this.appConfig.offline ? Promise.resolve(null) : this.catalogCache.get(this.cacheKey(slot));
+  }
+
+  private writeCache(key: string, resource: CatalogResource, progress: CatalogLoadProgress<unknown>, fetchedAt: number) {
+    if (this.appConfig.offline) {
+      return;
+    }
+    this.catalogCache.put({ key, resource, items: progress.items, loaded: progress.loaded, total: progress.total, fetchedAt });
+  }
+}
@@ -0,0 +1,157 @@
+import { Injectable } from '@angular/core';
+import { ModuleVersion } from '../models/catalog';
+import { ContextProjectTask } from './context-project.service';
+import { ContextItem } from './context-store.service';
+
+/** A dataset, or dataset/model pair, that will likely fail when the context runs. */
+export interface CompatibilityIssue {
+  /** Context item id of the dataset */
+  datasetId: string;
+  /** Context item id of the model, for pair checks */
+  modelId: string | null;
+  message: string;
+}
+
+export interface CompatibilityInput {
+  task: ContextProjectTask;
+  datasets: ContextItem[];
+  models: ContextItem[];
+  /** Dataset/model pairs wired in the node editor; without them every model runs on every dataset */
+  pairs?: { datasetId: string; modelId: string }[];
+}
+
+// File names that look like a time index / timestamp column file
+const TIME_INDEX_FILE = /time[_-]?(index|stamps?)|timestamps?|(^|[_-])index\.[a-z]+$/i;
+const GROUND_TRUTH_FILE = /ground[_-]?truth|(^|[_-])gt[_.-]|adjacency/i;
+// Hyperparameters giving the number of past time steps a temporal model looks at
+const LAG_PARAMETER = /^(max_?lag|lag|tau_?max|max_?tau|order)$/i;
+
+/** Selected version of a dataset/model context item (`prefix` is `dataset` or `modl`). */
+function selectedVersion(item: ContextItem, prefix: 'dataset' | 'modl'): ModuleVersion | null {
+  const versionInfo = (item.data?.[`${prefix}_version_info_list`] ?? []).find(
+    (v: any) => String(v.version?.version_number) === String(item.data?.selected_version)
+  );
+  return versionInfo?.version ?? null;
+}
+
+function itemLabel(item: ContextItem, prefix: 'dataset' | 'modl'): string {
+  const name = item.data?.[`${prefix}_name`] || item.data?.[`${prefix}_id`] || (prefix === 'modl' ? 'New model' : 'New dataset');
+  return item.data?.selected_version ? `${name} v${item.data.selected_version}` : String(name);
+}
+
+function isTemporalTask(taskName: string): boolean {
+  return /temporal|time[_-]?series/i.test(taskName);
+}
+
+function isDiscoveryTask(taskName: string): boolean {
+  return /discovery/i.test(taskName);
+}
+
+/**
+ * Cross-checks dataset metadata (files, row and column counts) against the task and the models of a context.
+ * The checks are heuristics on file names and sizes, so they produce warnings only.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class CompatibilityService {
+
+  /** Problems of a dataset with the task, independent of the models. */
+  checkDataset(dataset: ContextItem, task: ContextProjectTask): string[] {
+    const version = selectedVersion(dataset, 'dataset');
+    if (!version) {
+      return [];
+    }
+    const label = itemLabel(dataset, 'dataset');
+    const files = version.features.map(f => f.file_name);
+    const messages: string[] = [];
+
+    if (isDiscoveryTask(task.name) && !this.hasGroundTruth(dataset, files)) {
+      messages.push(`${label} has no ground-truth file; ${task.name} metrics need one to score the discovered graph.`);
+    }
+    if (isTemporalTask(task.name) && !files.some(name => TIME_INDEX_FILE.test(name))) {
+      messages.push(`${label} has no time index file; ${task.name} models usually need one.`);
+    }
+    if (version.min_row_count !== null && version.max_column_count !== null && version.min_row_count < version.max_column_count) {
+      messages.push(`${label} may have fewer rows (${version.min_row_count}) than columns (${version.max_column_count}); most models need more samples than variables.`);
+    }
+    return messages;
+  }
+
+  /** Problems of running one model on one dataset; with the task given, what checkDataset reports is left out. */
+  checkPair(dataset: ContextItem, model: ContextItem, task?: ContextProjectTask): string[] {
+    const datasetVersion = selectedVersion(dataset, 'dataset');
+    const modelVersion = selectedVersion(model, 'modl');
+    if (!datasetVersion || !modelVersion) {
+      return [];
+    }
+    const messages: string[] = [];
+    const pair = `${itemLabel(model, 'modl')} on ${itemLabel(dataset, 'dataset')}`;
+
+    // A temporal-only model on a dataset without time index, whatever task the context is for
+    const modelTasks = modelVersion.tasks.map(t => t.task_name).filter(name => name);
+    const files = datasetVersion.features.map(f => f.file_name);
+    const reportedForTask = !!task && isTemporalTask(task.name);
+    if (!reportedForTask && modelTasks.length > 0 && modelTasks.every(isTemporalTask) && !files.some(name => TIME_INDEX_FILE.test(name))) {
+      messages.push(`${pair}: the model only supports temporal tasks, but the dataset has no time index file.`);
+    }
+
+    // The lag must leave rows to learn from
+    const rows = datasetVersion.min_row_count;
+    if (rows !== null) {
+      const lags = this.lagValues(model, modelVersion);
+      const largest = Math.max(...lags);
+      if (lags.length > 0 && largest >= rows) {
+        messages.push(`${pair}: a lag of ${largest} needs more rows than the ${rows} the dataset may have.`);
+      }
+    }
+    return messages;
+  }
+
+  /** Dataset checks for every dataset, and pair checks for every dataset/model combination that runs. */
+  checkContext(context: CompatibilityInput): CompatibilityIssue[] {
+    const issues: CompatibilityIssue[] = [];
+    for (const dataset of context.datasets) {
+      for (const message of this.checkDataset(dataset, context.task)) {
+        issues.push({ datasetId: dataset.id, modelId: null, message });
+      }
+      const models = context.pairs
+        ? context.models.filter(model => context.pairs!.some(pair => pair.datasetId === dataset.id && pair.modelId === model.id))
+        : context.models;
+      for (const model of models) {
+        for (const message of this.checkPair(dataset, model, context.task)) {
+          issues.push({ datasetId: dataset.id, modelId: model.id, message });
+        }
+      }
+    }
+    return issues;
+  }
+
+  /** The sidebar maps the file explicitly; otherwise the export falls back to the second file. */
+  private hasGroundTruth(dataset: ContextItem, files: string[]): boolean {
+    const mappings = dataset.data?.file_mappings;
+    if (mappings?.ground_truth) {
+      return true;
+    }
+    return files.length > 1 || files.some(name => GROUND_TRUTH_FILE.test(name));
+  }
+
+  /** Lag values set in the model's hyperparameter sets, or its defaults when no set overrides them. */
+  private lagValues(model: ContextItem, version: ModuleVersion): number[] {
+    const lagParams = version.hyperparameters.filter(p => LAG_PARAMETER.test(p.hyperparameter_name));
+    const sets: any[] = model.data?.hyperparameter_sets?.length ? model.data.hyperparameter_sets : [{ parameters: {} }];
+    const values: number[] = [];
+    for (const param of lagParams) {
+      for (const set of sets) {
+        const entry = set.parameters?.[param.hyperparameter_name];
+        const text = entry && typeof entry === 'object' ? entry.value : entry;
+        const raw = String(text === undefined || text === '' ? param.hyperparameter_value : text).trim();
+        const value = Number(raw);
+        if (raw !== '' && Number.isFinite(value)) {
+          values.push(value);
+        }
+      }
+    }
+    return values;
+  }
+}
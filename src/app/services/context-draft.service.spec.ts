@@ -0,0 +1,38 @@
+import { ContextDraftService } from './context-draft.service';
+import { ContextState, ContextStoreService } from './context-store.service';
+
+const DRAFTS_KEY = 'causalbench-designer.drafts';
+const SESSIONS_KEY = 'causalbench-designer.sessions';
+
+function draft(id: string, savedAt: number): unknown {
+  const state: ContextState = {
+    name: id,
+    description: '',
+    task: { id: '', version: '', name: '' },
+    datasets: [],
+    models: [],
+    metrics: [],
+    selectedItemId: null,
+    graph: { positions: {}, processors: [], edges: [] }
+  };
+  return { id, savedAt, title: id, summary: '', state };
+}
+
+describe('ContextDraftService', () => {
+  afterEach(() => {
+    localStorage.removeItem(DRAFTS_KEY);
+    localStorage.removeItem(SESSIONS_KEY);
+  });
+
+  it('offers only drafts of page loads that are gone for recovery', () => {
+    const now = Date.now();
+    localStorage.setItem(DRAFTS_KEY, JSON.stringify([draft('open-tab', now), draft('crashed', now - 1000), draft('closed', now - 2000)]));
+    localStorage.setItem(SESSIONS_KEY, JSON.stringify({ 'open-tab': now, crashed: now - 60 * 1000 }));
+
+    const service = new ContextDraftService(new ContextStoreService());
+
+    expect(service.drafts.map(d => d.id)).toEqual(['open-tab', 'crashed', 'closed']);
+    expect(service.recoverableDrafts.map(d => d.id)).toEqual(['crashed', 'closed']);
+    expect(service.recoverableDraft?.id).toBe('crashed');
+  });
+});
@@ -0,0 +1,232 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject, Subscription, auditTime, skip } from 'rxjs';
+import { ContextState, ContextStoreService, createContextId, isContextState } from './context-store.service';
+import { normalizeContextFileMappings } from '../utils/file-mappings';
+
+/** Autosaved copy of a context (graph included) that was not exported as a project. */
+export interface ContextDraft {
+  id: string;
+  /** Epoch milliseconds of the last autosave */
+  savedAt: number;
+  title: string;
+  /** e.g. "2 datasets, 1 model, 1 metric" */
+  summary: string;
+  state: ContextState;
+}
+
+const DRAFTS_STORAGE_KEY = 'causalbench-designer.drafts';
+// Last sign of life of every autosaving page load, by draft id
+const SESSIONS_STORAGE_KEY = 'causalbench-designer.sessions';
+const MAX_DRAFTS = 10;
+// Edits are written at most this often; the page unload writes the last ones
+const AUTOSAVE_INTERVAL_MS = 3000;
+// An autosaving page load marks itself alive this often; one silent for longer than SESSION_TIMEOUT_MS is gone
+const SESSION_HEARTBEAT_MS = 5000;
+const SESSION_TIMEOUT_MS = 3 * SESSION_HEARTBEAT_MS;
+
+/**
+ * Autosaves the designed context to localStorage so work survives a closed tab or a crash.
+ * Every page load writes to its own draft; drafts left by earlier page loads can be reopened or discarded.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ContextDraftService {
+
+  /** Draft this page load saves to */
+  readonly sessionDraftId = createContextId('draft');
+
+  private readonly draftsSubject = new BehaviorSubject<ContextDraft[]>(this.readDrafts());
+  /** Stored drafts, newest first */
+  readonly drafts$ = this.draftsSubject.asObservable();
+
+  /** Drafts of page loads that are gone (closed or crashed), newest first; drafts of tabs still open are left out */
+  readonly recoverableDrafts: ContextDraft[] = this.draftsSubject.value.filter(draft => !this.isLiveSession(draft.id));
+
+  /** Newest draft left by an earlier page load, offered for restore on startup */
+  readonly recoverableDraft: ContextDraft | null = this.recoverableDrafts[0] ?? null;
+
+  private autosaveSubscription?: Subscription;
+
+  constructor(private contextStore: ContextStoreService) {
+    // Other tabs write their own drafts to the same key
+    window.addEventListener('storage', event => {
+      if (event.key === DRAFTS_STORAGE_KEY || event.key === null) {
+        this.draftsSubject.next(this.readDrafts());
+      }
+    });
+  }
+
+  get drafts(): ContextDraft[] {
+    return this.draftsSubject.value;
+  }
+
+  /** True when the current context has content that opening a draft would replace. */
+  get hasCurrentWork(): boolean {
+    return !isEmptyContext(this.contextStore.state);
+  }
+
+  startAutosave() {
+    if (this.autosaveSubscription) {
+      return;
+    }
+    // skip(1): the initial empty context is not an edit
+    this.autosaveSubscription = this.contextStore.state$
+      .pipe(skip(1), auditTime(AUTOSAVE_INTERVAL_MS))
+      .subscribe(state => this.save(state));
+    this.markSessionAlive(true);
+    setInterval(() => this.markSessionAlive(true), SESSION_HEARTBEAT_MS);
+    window.addEventListener('beforeunload', () => {
+      this.save(this.contextStore.state);
+      this.markSessionAlive(false);
+    });
+  }
+
+  /** Write the given state to this page load's draft; an empty context removes the draft instead. */
+  save(state: ContextState) {
+    if (isEmptyContext(state)) {
+      this.updateDrafts(drafts => drafts.filter(d => d.id !== this.sessionDraftId));
+      return;
+    }
+    const draft: ContextDraft = {
+      id: this.sessionDraftId,
+      savedAt: Date.now(),
+      title: state.name.trim() || 'Untitled context',
+      summary: summarizeContext(state),
+      state: { ...state, selectedItemId: null }
+    };
+    this.updateDrafts(drafts => [draft, ...drafts.filter(d => d.id !== this.sessionDraftId)].slice(0, MAX_DRAFTS));
+  }
+
+  /** Replace the current context with a stored draft (undoable); from then on it is saved as this page load's draft. */
+  open(id: string): boolean {
+    const draft = this.drafts.find(d => d.id === id);
+    if (!draft) {
+      return false;
+    }
+    const time = new Date(draft.savedAt).toLocaleString();
+    this.contextStore.restore(draft.state, `Restore draft from ${time}`);
+    this.updateDrafts(drafts => drafts.filter(d => d.id !== id));
+    this.save(this.contextStore.state);
+    return true;
+  }
+
+  discard(id: string) {
+    this.updateDrafts(drafts => drafts.filter(d => d.id !== id));
+  }
+
+  /** Discard every draft except the one of this page load. */
+  discardOthers() {
+    this.updateDrafts(drafts => drafts.filter(d => d.id === this.sessionDraftId));
+  }
+
+  /**
+   * Apply `change` to the drafts currently in storage, not to this tab's copy, so drafts other tabs saved in the
+   * meantime are kept.
+   */
+  private updateDrafts(change: (drafts: ContextDraft[]) => ContextDraft[]) {
+    const stored = this.readDrafts();
+    const drafts = change(stored);
+    if (drafts.length === stored.length && drafts.every((draft, index) => draft === stored[index])) {
+      this.draftsSubject.next(stored);
+      return;
+    }
+    this.writeDrafts(drafts);
+  }
+
+  private writeDrafts(drafts: ContextDraft[]) {
+    if (drafts.length === 0) {
+      this.draftsSubject.next(drafts);
+      try {
+        localStorage.removeItem(DRAFTS_STORAGE_KEY);
+      } catch (error) {
+        console.warn('Could not remove the drafts:', error);
+      }
+      return;
+    }
+    // Drop the oldest drafts until the rest fits the storage quota
+    for (let count = drafts.length; count > 0; count--) {
+      try {
+        localStorage.setItem(DRAFTS_STORAGE_KEY, JSON.stringify(drafts.slice(0, count)));
+        this.draftsSubject.next(drafts.slice(0, count));
+        return;
+      } catch (error) {
+        console.warn(`Could not autosave ${count} draft(s):`, error);
+      }
+    }
+    // Not even the newest draft fits: the drafts stored so far are worth more than none
+    console.warn('Could not autosave the context; the drafts stored before are kept.');
+    this.draftsSubject.next(this.readDrafts());
+  }
+
+  /** Record (or, when the page unloads, remove) this page load's sign of life and forget sessions that are gone. */
+  private markSessionAlive(alive: boolean) {
+    const now = Date.now();
+    const sessions = Object.fromEntries(Object.entries(this.readSessions()).filter(([, seenAt]) => now - seenAt <= SESSION_TIMEOUT_MS));
+    if (alive) {
+      sessions[this.sessionDraftId] = now;
+    } else {
+      delete sessions[this.sessionDraftId];
+    }
+    try {
+      localStorage.setItem(SESSIONS_STORAGE_KEY, JSON.stringify(sessions));
+    } catch (error) {
+      console.warn('Could not record the autosave session:', error);
+    }
+  }
+
+  private isLiveSession(id: string): boolean {
+    const seenAt = this.readSessions()[id];
+    return id === this.sessionDraftId || (seenAt !== undefined && Date.now() - seenAt <= SESSION_TIMEOUT_MS);
+  }
+
+  private readSessions(): Record<string, number> {
+    try {
+      const stored = JSON.parse(localStorage.getItem(SESSIONS_STORAGE_KEY) || '{}');
+      return stored && typeof stored === 'object' && !Array.isArray(stored)
+        ? Object.fromEntries(Object.entries(stored).filter((entry): entry is [string, number] => typeof entry[1] === 'number'))
+        : {};
+    } catch {
+      return {};
+    }
+  }
+
+  private readDrafts(): ContextDraft[] {
+    let stored: unknown;
+    try {
+      stored = JSON.parse(localStorage.getItem(DRAFTS_STORAGE_KEY) || '[]');
+    } catch {
+      console.warn('Ignoring unreadable drafts in localStorage');
+      return [];
+    }
+    return (Array.isArray(stored) ? stored : [])
+      .filter(isDraft)
+      // Drafts saved by older versions may hold node editor file mappings in the old format
+      .map(draft => ({ ...draft, state: normalizeContextFileMappings(draft.state) }))
+      .sort((a, b) => b.savedAt - a.savedAt);
+  }
+}
+
+function isEmptyContext(state: ContextState): boolean {
+  return !state.name.trim() && !state.description.trim() && !state.task.id
+    && state.datasets.length === 0 && state.models.length === 0 && state.metrics.length === 0
+    && state.graph.processors.length === 0;
+}
+
+function summarizeContext(state: ContextState): string {
+  const count = (n: number, noun: string) => `${n} ${noun}${n === 1 ? '' : 's'}`;
+  const parts = [
+    count(state.datasets.length, 'dataset'),
+    count(state.models.length, 'model'),
+    count(state.metrics.length, 'metric')
+  ];
+  if (state.graph.processors.length > 0) {
+    parts.push(count(state.graph.processors.length, 'processor'));
+  }
+  return state.task.name ? `${parts.join(', ')} · ${state.task.name}` : parts.join(', ');
+}
+
+/** Minimal shape check, so a draft written by an older version cannot break the store. */
+function isDraft(value: any): value is ContextDraft {
+  return typeof value?.id === 'string' && typeof value.savedAt === 'number' && isContextState(value.state);
+}
@@ -0,0 +1,85 @@
+import { ContextExportService, ExportedContext, ExportedPipeline } from './context-export.service';
+
+function pipeline(dataset: number, model: number, metrics: number[]): ExportedPipeline {
+  return { dataset, model, metrics, processors: [], output_processors: [] };
+}
+
+function exportedContext(pipelines: ExportedPipeline[]): ExportedContext {
+  const module = (module_id: number) => ({ module_id, version: 1, hyperparameter_sets: [] });
+  return {
+    name: 'wired',
+    description: '',
+    task: { module_id: 1, version: 1, name: 'discovery.static' },
+    datasets: [11, 12].map(module_id => ({ module_id, version: 1, file_mappings: { data: 'file1', ground_truth: 'file2' } })),
+    models: [21, 22].map(module),
+    metrics: [31, 32].map(module),
+    pipelines
+  };
+}
+
+/** The `Context.create(...)` calls of a Python export, one string per call. */
+function contextCalls(source: string): string[] {
+  return source.split('Context.create(').slice(1).map(call => call.slice(0, call.indexOf('])\n') + 2));
+}
+
+describe('ContextExportService Python export', () => {
+  const service = new ContextExportService();
+
+  it('runs a model wired to two datasets with different metrics as separate contexts', () => {
+    const calls = contextCalls(service.toPython(exportedContext([pipeline(0, 0, [0]), pipeline(1, 0, [1])])));
+
+    expect(calls.length).toBe(2);
+    expect(calls[0]).toContain('Dataset(module_id=11');
+    expect(calls[0]).not.toContain('Dataset(module_id=12');
+    expect(calls[0]).toContain('Metric(module_id=31');
+    expect(calls[0]).not.toContain('Metric(module_id=32');
+    expect(calls[1]).toContain('Dataset(module_id=12');
+    expect(calls[1]).not.toContain('Dataset(module_id=11');
+    expect(calls[1]).toContain('Metric(module_id=32');
+    expect(calls[1]).not.toContain('Metric(module_id=31');
+  });
+
+  it('shares a context between datasets wired to the same models and metrics', () => {
+    const calls = contextCalls(service.toPython(exportedContext([
+      pipeline(0, 0, [0]), pipeline(0, 1, [0]), pipeline(1, 0, [0]), pipeline(1, 1, [0])
+    ])));
+
+    expect(calls.length).toBe(1);
+    expect(calls[0]).toContain('Dataset(module_id=11');
+    expect(calls[0]).toContain('Dataset(module_id=12');
+    expect(calls[0]).toContain('Model(module_id=21');
+    expect(calls[0]).toContain('Model(module_id=22');
+    expect(calls[0]).not.toContain('Metric(module_id=32');
+  });
+
+  it('keeps a dataset that feeds only some of the models out of the other models\' context', () => {
+    const calls = contextCalls(service.toPython(exportedContext([
+      pipeline(0, 0, [0]), pipeline(0, 1, [0]), pipeline(1, 0, [0])
+    ])));
+
+    expect(calls.length).toBe(2);
+    expect(calls[0]).toContain('Model(module_id=22');
+    expect(calls[0]).not.toContain('Dataset(module_id=12');
+    expect(calls[1]).toContain('Dataset(module_id=12');
+    expect(calls[1]).not.toContain('Model(module_id=22');
+  });
+
+  it('keeps every line of a multi-line processor parameter inside the pipeline comment', () => {
+    const wired = pipeline(0, 0, [0]);
+    wired.processors = [{
+      processor_id: 'filter_rows',
+      parameters: { query: { value: 'x > 0\nimport os; os.system("rm -rf /")\n', data_type: 'str' } }
+    }];
+
+    const source = service.toPython(exportedContext([wired]));
+    const uncommented = source.split('\n').filter(line => !line.startsWith('#') && line.includes('os.system'));
+
+    expect(uncommented).toEqual([]);
+    expect(source).toContain('# Dataset 11 → filter_rows(query=\'\'\'x > 0\n# import os; os.system(');
+    expect(source).toContain('# Processors are not executed');
+  });
+
+  it('adds no processor note when no pipeline goes through processors', () => {
+    expect(service.toPython(exportedContext([pipeline(0, 0, [0])]))).not.toContain('Processors are not executed');
+  });
+});
@@ -0,0 +1,273 @@
+import { Injectable } from '@angular/core';
+import { hyperparameterToPython, parseHyperparameterValue, toPythonModuleRef, toPythonString } from '../utils/python-literal';
+import { toYaml } from '../utils/yaml';
+
+export type ContextExportFormat = 'python' | 'yaml' | 'json';
+
+export interface HyperparameterValue {
+  value: any;
+  data_type: string;
+}
+
+export interface ExportedDataset {
+  module_id: string | number;
+  version: string | number;
+  file_mappings: { data: string; ground_truth: string };
+}
+
+export interface ExportedModule {
+  module_id: string | number;
+  version: string | number;
+  /** One entry per configured hyperparameter set; empty when the module runs with its defaults. */
+  hyperparameter_sets: Record<string, HyperparameterValue>[];
+}
+
+/** A configured processor node of the node editor (see PROCESSOR_CATALOG). */
+export interface ExportedProcessor {
+  processor_id: string;
+  parameters: Record<string, HyperparameterValue>;
+}
+
+/** A dataset → model wiring drawn in the node editor; entries are indexes into the lists of the exported context. */
+export interface ExportedPipeline {
+  dataset: number;
+  model: number;
+  metrics: number[];
+  /** Processors between the dataset and the model, in graph order */
+  processors: ExportedProcessor[];
+  /** Processors between the model and its metrics */
+  output_processors: ExportedProcessor[];
+}
+
+/** Format-independent description of an exported context, built by the export dialog from the filtered item lists. */
+export interface ExportedContext {
+  name: string;
+  description: string;
+  task: { module_id: string | number; version: string | number; name: string };
+  datasets: ExportedDataset[];
+  models: ExportedModule[];
+  metrics: ExportedModule[];
+  /** Set by the node editor; without it every dataset runs with every model and metric */
+  pipelines?: ExportedPipeline[];
+}
+
+/** Datasets, models and metrics that run as every combination, i.e. one Context.create call. */
+interface ExportedRunGroup {
+  datasets: number[];
+  models: number[];
+  metrics: number[];
+  /** e.g. "Dataset 2 → normalize(method='zscore') → Model 1" */
+  paths: string[];
+}
+
+/** Whether any pipeline of the context goes through processors. */
+export function hasProcessors(context: ExportedContext): boolean {
+  return (context.pipelines ?? []).some(p => p.processors.length > 0 || p.output_processors.length > 0);
+}
+
+export const CONTEXT_DESCRIPTOR_FORMAT = 'causalbench-context';
+export const CONTEXT_DESCRIPTOR_VERSION = 1;
+
+const FILE_EXTENSIONS: Record<ContextExportFormat, string> = {
+  python: 'py',
+  yaml: 'yaml',
+  json: 'json'
+};
+
+@Injectable({
+  providedIn: 'root'
+})
+export class ContextExportService {
+
+  render(context: ExportedContext, format: ContextExportFormat): string {
+    switch (format) {
+      case 'python': return this.toPython(context);
+      case 'yaml': return toYaml(this.toDescriptor(context));
+      case 'json': return JSON.stringify(this.toDescriptor(context), null, 2) + '\n';
+    }
+  }
+
+  fileExtension(format: ContextExportFormat): string {
+    return FILE_EXTENSIONS[format];
+  }
+
+  mimeType(format: ContextExportFormat): string {
+    return format === 'json' ? 'application/json' : format === 'yaml' ? 'application/yaml' : 'text/plain';
+  }
+
+  /** Declarative context document used by the YAML and JSON exports. */
+  toDescriptor(context: ExportedContext): any {
+    const module = (entry: ExportedModule) => ({
+      module_id: this.numericId(entry.module_id),
+      version: this.numericId(entry.version),
+      hyperparameter_sets: entry.hyperparameter_sets.map(set =>
+        Object.fromEntries(Object.entries(set).map(([name, param]) => [name, {
+          value: parseHyperparameterValue(param.value, param.data_type),
+          data_type: param.data_type
+        }]))
+      )
+    });
+
+    const processor = (entry: ExportedProcessor) => ({
+      processor_id: entry.processor_id,
+      parameters: Object.fromEntries(Object.entries(entry.parameters).map(([name, param]) =>
+        [name, parseHyperparameterValue(param.value, param.data_type)]))
+    });
+
+    return {
+      format: CONTEXT_DESCRIPTOR_FORMAT,
+      format_version: CONTEXT_DESCRIPTOR_VERSION,
+      name: context.name,
+      description: context.description,
+      task: {
+        module_id: this.numericId(context.task.module_id),
+        version: this.numericId(context.task.version),
+        name: context.task.name
+      },
+      datasets: context.datasets.map(dataset => ({
+        module_id: this.numericId(dataset.module_id),
+        version: this.numericId(dataset.version),
+        file_mappings: { ...dataset.file_mappings }
+      })),
+      models: context.models.map(module),
+      metrics: context.metrics.map(module),
+      ...(context.pipelines ? {
+        pipelines: context.pipelines.map(pipeline => ({
+          ...pipeline,
+          processors: pipeline.processors.map(processor),
+          output_processors: pipeline.output_processors.map(processor)
+        }))
+      } : {})
+    };
+  }
+
+  toPython(context: ExportedContext): string {
+    let output = `# Created using CausalBench+ Designer v1.2a
+from causalbench.modules import Dataset, Model, Metric, Task, Context, Run
+`;
+
+    if (hasProcessors(context)) {
+      output += `
+# Processors are not executed: CausalBench has no processor modules yet, so the pipeline comments below
+# only list them for reference.
+`;
+    }
+
+    // With pipelines from the node editor, one context per group so only the combinations wired in the graph are run
+    const groups = this.runGroups(context);
+    groups.forEach((group, i) => {
+      const single = groups.length === 1;
+      const contextVar = `context${i + 1}`;
+      const runVar = single ? 'run' : `run${i + 1}`;
+      // A multi-line string parameter renders as a triple-quoted literal; every line of it stays inside the comment
+      output += '\n' + group.paths.flatMap(path => path.split('\n')).map(line => `# ${line}\n`).join('');
+      output += this.pythonContext(context, group, contextVar, single ? context.name : `${context.name} (${i + 1})`);
+      output += `
+# Uncomment if you'd like to publish the context to the CausalBench+ server.
+# ${contextVar}.publish()
+${runVar}: Run = ${contextVar}.execute()
+print(${runVar})
+# Uncomment if you'd like to publish the run to the CausalBench+ server (requires the context to be published first).
+# ${runVar}.publish()`;
+      if (!single) {
+        output += '\n';
+      }
+    });
+    return output;
+  }
+
+  private pythonContext(context: ExportedContext, group: ExportedRunGroup, variable: string, name: string): string {
+    let output = `${variable}: Context = Context.create(task=Task(module_id=${toPythonModuleRef(context.task.module_id)}, version=${toPythonModuleRef(context.task.version)}),
+   name=${toPythonString(name)},
+   description=${toPythonString(context.description)},
+   datasets=[
+`;
+
+    // Add datasets
+    const datasets = group.datasets.map(index => context.datasets[index]);
+    for (let i = 0; i < datasets.length; i++) {
+      const dataset = datasets[i];
+      const fileMapping = `{'data': ${toPythonString(dataset.file_mappings.data)}, 'ground_truth': ${toPythonString(dataset.file_mappings.ground_truth)}}`;
+      output += `      (Dataset(module_id=${toPythonModuleRef(dataset.module_id)}, version=${toPythonModuleRef(dataset.version)}), ${fileMapping})`;
+      if (i < datasets.length - 1) {
+        output += ',';
+      }
+      output += '\n';
+    }
+
+    output += '   ],\n   models=[';
+    output += this.pythonModuleEntries('Model', group.models.map(index => context.models[index])).join(', ');
+    output += '],\n   metrics=[';
+    output += this.pythonModuleEntries('Metric', group.metrics.map(index => context.metrics[index])).join(', ');
+    output += '])';
+    return output;
+  }
+
+  /**
+   * Without pipelines, a single group of everything. With pipelines, the models fed by the same dataset and evaluated
+   * by the same metrics are collected first; datasets that end up with the same models and metrics then share a
+   * context, so every combination a group runs is one drawn in the graph.
+   */
+  private runGroups(context: ExportedContext): ExportedRunGroup[] {
+    const all = (list: unknown[]) => list.map((_, index) => index);
+    if (!context.pipelines) {
+      return [{ datasets: all(context.datasets), models: all(context.models), metrics: all(context.metrics), paths: [] }];
+    }
+
+    const sorted = (indexes: number[]) => Array.from(new Set(indexes)).sort((a, b) => a - b);
+    const wirings = new Map<string, { dataset: number; models: number[]; metrics: number[]; pipelines: ExportedPipeline[] }>();
+    for (const pipeline of context.pipelines) {
+      const metrics = sorted(pipeline.metrics);
+      const key = `${pipeline.dataset}|${metrics.join(',')}`;
+      const wiring = wirings.get(key) ?? { dataset: pipeline.dataset, models: [], metrics, pipelines: [] };
+      wiring.models = sorted([...wiring.models, pipeline.model]);
+      wiring.pipelines.push(pipeline);
+      wirings.set(key, wiring);
+    }
+
+    const groups = new Map<string, ExportedRunGroup>();
+    for (const wiring of wirings.values()) {
+      const key = `${wiring.models.join(',')}|${wiring.metrics.join(',')}`;
+      const group = groups.get(key) ?? { datasets: [], models: wiring.models, metrics: wiring.metrics, paths: [] };
+      group.datasets = sorted([...group.datasets, wiring.dataset]);
+      group.paths.push(...wiring.pipelines.map(p => [
+        `Dataset ${context.datasets[p.dataset].module_id}`,
+        ...p.processors.map(processor => this.pythonProcessor(processor)),
+        `Model ${context.models[p.model].module_id}`,
+        ...p.output_processors.map(processor => this.pythonProcessor(processor)),
+        ...(p.metrics.length > 0 ? [p.metrics.map(m => `Metric ${context.metrics[m].module_id}`).join(', ')] : [])
+      ].join(' → ')));
+      groups.set(key, group);
+    }
+    return Array.from(groups.values());
+  }
+
+  /** One `(Module(...), {...})` tuple per hyperparameter set, or a single tuple with `{}` when there are none. */
+  private pythonModuleEntries(moduleName: string, modules: ExportedModule[]): string[] {
+    const entries: string[] = [];
+    for (const module of modules) {
+      const sets = module.hyperparameter_sets.length > 0 ? module.hyperparameter_sets : [{}];
+      for (const set of sets) {
+        const hyperparamEntries = [];
+        for (const [paramName, param] of Object.entries(set)) {
+          hyperparamEntries.push(`${toPythonString(paramName)}: ${hyperparameterToPython(param.value, param.data_type)}`);
+        }
+        const hyperparamConfig = hyperparamEntries.length > 0 ? `{${hyperparamEntries.join(', ')}}` : '{}';
+        entries.push(`(${moduleName}(module_id=${toPythonModuleRef(module.module_id)}, version=${toPythonModuleRef(module.version)}), ${hyperparamConfig})`);
+      }
+    }
+    return entries;
+  }
+
+  /** Processors have no CausalBench module yet, so the script lists them as calls in the pipeline comments. */
+  private pythonProcessor(processor: ExportedProcessor): string {
+    const args = Object.entries(processor.parameters)
+      .map(([name, param]) => `${name}=${hyperparameterToPython(param.value, param.data_type)}`);
+    return `${processor.processor_id}(${args.join(', ')})`;
+  }
+
+  /** Ids and versions are held as strings in the designer but are integers on the server. */
+  private numericId(value: string | number): string | number {
+    return typeof value === 'string' && /^\d+$/.test(value) ? Number(value) : value;
+  }
+}
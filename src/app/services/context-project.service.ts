@@ -0,0 +1,255 @@
+import { Injectable } from '@angular/core';
+import { DatasetDescriptor, MetricDescriptor, ModelDescriptor, TaskDescriptor } from '../models/catalog';
+import { normalizeFileMappings } from '../utils/file-mappings';
+
+export type ContextItemType = 'dataset' | 'model' | 'metric';
+
+/** Bump when the project file layout changes; parse() rejects files written by a newer schema. */
+export const CONTEXT_PROJECT_SCHEMA_VERSION = 1;
+export const CONTEXT_PROJECT_FORMAT = 'causalbench-designer-context';
+
+export interface ContextProjectItem {
+  id: string;
+  selected_version: string;
+  name: string;
+  description: string;
+  hyperparameter_sets?: any[];
+  file_mappings?: any;
+}
+
+export interface ContextProjectTask {
+  id: string;
+  version: string;
+  name: string;
+}
+
+/** A dataset → model wiring with the metrics that evaluate it; entries are indexes into the project's lists. */
+export interface ContextProjectPipeline {
+  dataset: number;
+  model: number;
+  metrics: number[];
+}
+
+export interface ContextProject {
+  format: string;
+  schema_version: number;
+  saved_at: string;
+  name?: string;
+  description?: string;
+  task: ContextProjectTask | null;
+  datasets: ContextProjectItem[];
+  models: ContextProjectItem[];
+  metrics: ContextProjectItem[];
+  /** Read back from a node editor export with several contexts; without it every dataset runs with every model */
+  pipelines?: ContextProjectPipeline[];
+}
+
+/** Designer state as held by ContextStoreService (items are `{ data, isSelected }` wrappers). */
+export interface ContextProjectState {
+  name?: string;
+  description?: string;
+  task: ContextProjectTask | null;
+  datasets: any[];
+  models: any[];
+  metrics: any[];
+}
+
+export interface ContextProjectCatalog {
+  datasets: DatasetDescriptor[];
+  models: ModelDescriptor[];
+  metrics: MetricDescriptor[];
+  tasks: TaskDescriptor[];
+}
+
+export interface RestoredContextProject extends ContextProjectState {
+  /** Human-readable descriptions of entries that no longer exist on the server. */
+  missing: string[];
+  pipelines?: ContextProjectPipeline[];
+}
+
+/** Field names of the API descriptors, per item type. */
+const ITEM_FIELDS: Record<ContextItemType, { id: string; name: string; versionList: string; versionKey: string }> = {
+  dataset: { id: 'dataset_id', name: 'dataset_name', versionList: 'dataset_version_info_list', versionKey: 'dataset' },
+  model: { id: 'modl_id', name: 'modl_name', versionList: 'modl_version_info_list', versionKey: 'modl' },
+  metric: { id: 'metric_id', name: 'metric_name', versionList: 'metric_version_info_list', versionKey: 'metric' }
+};
+
+@Injectable({
+  providedIn: 'root'
+})
+export class ContextProjectService {
+
+  /** Serialize the designed context into a project document. Unconfigured items are skipped. */
+  serialize(state: ContextProjectState): ContextProject {
+    return {
+      format: CONTEXT_PROJECT_FORMAT,
+      schema_version: CONTEXT_PROJECT_SCHEMA_VERSION,
+      saved_at: new Date().toISOString(),
+      name: state.name ?? '',
+      description: state.description ?? '',
+      task: state.task && state.task.id ? { ...state.task } : null,
+      datasets: this.serializeItems(state.datasets, 'dataset'),
+      models: this.serializeItems(state.models, 'model'),
+      metrics: this.serializeItems(state.metrics, 'metric')
+    };
+  }
+
+  toJson(state: ContextProjectState): string {
+    return JSON.stringify(this.serialize(state), null, 2);
+  }
+
+  /** Parse and validate a project file. Throws an Error describing the problem if the file is not a usable project. */
+  parse(text: string): ContextProject {
+    let raw: any;
+    try {
+      raw = JSON.parse(text);
+    } catch {
+      throw new Error('The selected file is not valid JSON.');
+    }
+
+    if (!raw || typeof raw !== 'object' || raw.format !== CONTEXT_PROJECT_FORMAT) {
+      throw new Error('The selected file is not a CausalBench+ Designer project.');
+    }
+
+    const version = Number(raw.schema_version);
+    if (!Number.isInteger(version) || version < 1) {
+      throw new Error('The project file has no valid schema version.');
+    }
+    if (version > CONTEXT_PROJECT_SCHEMA_VERSION) {
+      throw new Error(`The project file uses schema version ${version}, but this Designer only supports up to version ${CONTEXT_PROJECT_SCHEMA_VERSION}. Please update the Designer.`);
+    }
+
+    return {
+      format: CONTEXT_PROJECT_FORMAT,
+      schema_version: CONTEXT_PROJECT_SCHEMA_VERSION,
+      saved_at: String(raw.saved_at ?? ''),
+      name: String(raw.name ?? ''),
+      description: String(raw.description ?? ''),
+      task: raw.task && raw.task.id != null
+        ? { id: String(raw.task.id), version: String(raw.task.version ?? ''), name: String(raw.task.name ?? '') }
+        : null,
+      datasets: this.parseItems(raw.datasets, 'datasets'),
+      models: this.parseItems(raw.models, 'models'),
+      metrics: this.parseItems(raw.metrics, 'metrics')
+    };
+  }
+
+  /**
+   * Rebuild designer items from a project, re-resolving every entry against the catalog.
+   * Entries whose id or version no longer exists are kept (so nothing is silently dropped) but flagged `missing`.
+   */
+  restore(project: ContextProject, catalog: ContextProjectCatalog): RestoredContextProject {
+    const missing: string[] = [];
+
+    let task = project.task;
+    if (task) {
+      const knownTask = catalog.tasks.find(t => String(t.task_id) === task!.id);
+      if (knownTask) {
+        task = { ...task, name: knownTask.task_name ?? task.name };
+        // The pinned version is kept either way, like the version of an item
+        const versions = (knownTask.task_version_info_list ?? []).map(v => String(v.version.version_number));
+        if (task.version && !versions.includes(task.version)) {
+          missing.push(`Task ${task.name || task.id} (ID: ${task.id}): version ${task.version} no longer exists`);
+        }
+      } else {
+        missing.push(`Task ${task.name || task.id} (ID: ${task.id})`);
+      }
+    }
+
+    return {
+      name: project.name ?? '',
+      description: project.description ?? '',
+      task,
+      datasets: project.datasets.map(entry => this.restoreItem(entry, 'dataset', catalog.datasets, missing)),
+      models: project.models.map(entry => this.restoreItem(entry, 'model', catalog.models, missing)),
+      metrics: project.metrics.map(entry => this.restoreItem(entry, 'metric', catalog.metrics, missing)),
+      missing,
+      ...(project.pipelines ? { pipelines: project.pipelines } : {})
+    };
+  }
+
+  private serializeItems(items: any[], type: ContextItemType): ContextProjectItem[] {
+    const fields = ITEM_FIELDS[type];
+    return items
+      .filter(item => item.data && item.data[fields.id] != null && item.data.selected_version)
+      .map(item => {
+        const data = item.data;
+        const versionInfo = this.findVersionInfo(data, type, String(data.selected_version));
+        const entry: ContextProjectItem = {
+          id: String(data[fields.id]),
+          selected_version: String(data.selected_version),
+          name: versionInfo?.[fields.versionKey]?.[fields.name] ?? data[fields.name] ?? '',
+          description: versionInfo?.description?.description_text ?? data.description ?? ''
+        };
+        if (data.hyperparameter_sets?.length) {
+          entry.hyperparameter_sets = data.hyperparameter_sets.map((set: any) => ({
+            id: set.id,
+            parameters: { ...set.parameters }
+          }));
+        }
+        if (data.file_mappings) {
+          entry.file_mappings = { ...data.file_mappings };
+        }
+        return entry;
+      });
+  }
+
+  private parseItems(raw: any, key: string): ContextProjectItem[] {
+    if (raw == null) {
+      return [];
+    }
+    if (!Array.isArray(raw)) {
+      throw new Error(`The project file field "${key}" must be a list.`);
+    }
+    return raw.map((entry: any, index: number) => {
+      if (!entry || entry.id == null || entry.selected_version == null) {
+        throw new Error(`Entry ${index + 1} of "${key}" is missing an id or selected_version.`);
+      }
+      return {
+        id: String(entry.id),
+        selected_version: String(entry.selected_version),
+        name: String(entry.name ?? ''),
+        description: String(entry.description ?? ''),
+        hyperparameter_sets: Array.isArray(entry.hyperparameter_sets) ? entry.hyperparameter_sets : undefined,
+        file_mappings: entry.file_mappings && typeof entry.file_mappings === 'object' ? entry.file_mappings : undefined
+      };
+    });
+  }
+
+  private restoreItem(entry: ContextProjectItem, type: ContextItemType, available: any[], missing: string[]): any {
+    const fields = ITEM_FIELDS[type];
+    const descriptor = available.find(a => String(a[fields.id]) === entry.id);
+    const versionInfo = descriptor ? this.findVersionInfo(descriptor, type, entry.selected_version) : undefined;
+
+    const data: any = descriptor && versionInfo
+      ? { ...descriptor, is_new: false }
+      : { [fields.id]: entry.id, [fields.name]: entry.name, description: entry.description };
+    data.selected_version = entry.selected_version;
+    if (entry.hyperparameter_sets) {
+      data.hyperparameter_sets = entry.hyperparameter_sets.map((set: any, index: number) => ({
+        id: set.id ?? Date.now() + index,
+        parameters: { ...(set.parameters ?? {}) },
+        collapsed: false
+      }));
+    }
+    if (entry.file_mappings) {
+      data.file_mappings = { ...entry.file_mappings };
+    }
+
+    // Projects saved by older versions may hold node editor file mappings in the old format
+    const item: any = { data: normalizeFileMappings(data), isSelected: false };
+    if (!descriptor || !versionInfo) {
+      item.missing = true;
+      const label = entry.name || `${type} ${entry.id}`;
+      missing.push(descriptor
+        ? `${label} (ID: ${entry.id}): version ${entry.selected_version} no longer exists`
+        : `${label} (ID: ${entry.id}): ${type} no longer exists`);
+    }
+    return item;
+  }
+
+  private findVersionInfo(descriptor: any, type: ContextItemType, version: string): any {
+    const list = descriptor?.[ITEM_FIELDS[type].versionList] ?? [];
+    return list.find((v: any) => String(v.version?.version_number) === version);
+  }
+}
@@ -0,0 +1,65 @@
+import { ContextExportService, ExportedContext } from './context-export.service';
+import { ContextProjectCatalog } from './context-project.service';
+import { ContextScriptImportService } from './context-script-import.service';
+
+const FEATURES = [{ file_name: 'data.csv', file_type: 'file1' }, { file_name: 'truth.csv', file_type: 'file2' }];
+
+const CATALOG = {
+  datasets: [11, 12].map(dataset_id => ({
+    dataset_id,
+    dataset_name: `Dataset ${dataset_id}`,
+    dataset_version_info_list: [{ version: { version_number: 1, features: FEATURES } }]
+  })),
+  models: [],
+  metrics: [],
+  tasks: []
+} as unknown as ContextProjectCatalog;
+
+/** Model 21 runs on dataset 11 evaluated by metric 31, and on dataset 12 evaluated by metric 32. */
+const CROSS_WIRED: ExportedContext = {
+  name: 'wired',
+  description: 'two pipelines',
+  task: { module_id: 1, version: 1, name: 'discovery.static' },
+  datasets: [11, 12].map(module_id => ({ module_id, version: 1, file_mappings: { data: 'file1', ground_truth: 'file2' } })),
+  models: [{ module_id: 21, version: 1, hyperparameter_sets: [{ alpha: { value: '0.05', data_type: 'float' } }] }],
+  metrics: [31, 32].map(module_id => ({ module_id, version: 1, hyperparameter_sets: [] })),
+  pipelines: [
+    { dataset: 0, model: 0, metrics: [0], processors: [], output_processors: [] },
+    { dataset: 1, model: 0, metrics: [1], processors: [], output_processors: [] }
+  ]
+};
+
+describe('ContextScriptImportService', () => {
+  const exporter = new ContextExportService();
+  const importer = new ContextScriptImportService();
+
+  it('merges the contexts of a node editor export and reads their wiring back as pipelines', () => {
+    const source = exporter.toPython(CROSS_WIRED);
+    expect(source.split('Context.create(').length - 1).toBe(2);
+
+    const project = importer.toProject(source, CATALOG);
+
+    expect(project.name).toBe('wired');
+    expect(project.description).toBe('two pipelines');
+    expect(project.task).toEqual({ id: '1', version: '1', name: '' });
+    expect(project.datasets.map(d => d.id)).toEqual(['11', '12']);
+    expect(project.datasets[1].file_mappings).toEqual({
+      data: 'data.csv', ground_truth: 'truth.csv', generic_data: 'file1', generic_ground_truth: 'file2'
+    });
+    expect(project.models.map(m => m.id)).toEqual(['21']);
+    expect(project.models[0].hyperparameter_sets?.map(set => set.parameters['alpha'].value)).toEqual(['0.05']);
+    expect(project.metrics.map(m => m.id)).toEqual(['31', '32']);
+    expect(project.pipelines).toEqual([
+      { dataset: 0, model: 0, metrics: [0] },
+      { dataset: 1, model: 0, metrics: [1] }
+    ]);
+  });
+
+  it('reads a single context without pipelines', () => {
+    const project = importer.toProject(exporter.toPython({ ...CROSS_WIRED, pipelines: undefined }), CATALOG);
+
+    expect(project.datasets.length).toBe(2);
+    expect(project.metrics.length).toBe(2);
+    expect(project.pipelines).toBeUndefined();
+  });
+});
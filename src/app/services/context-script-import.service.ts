@@ -0,0 +1,224 @@
+import { Injectable } from '@angular/core';
+import { PyValue, parsePythonCalls } from '../utils/python-parser';
+import { pyValueToSource } from '../utils/python-literal';
+import {
+  CONTEXT_PROJECT_FORMAT,
+  CONTEXT_PROJECT_SCHEMA_VERSION,
+  ContextProject,
+  ContextProjectCatalog,
+  ContextProjectItem,
+  ContextProjectPipeline
+} from './context-project.service';
+
+type PyCall = Extract<PyValue, { kind: 'call' }>;
+
+/**
+ * Reads a `context_export.py` script (as generated by the export dialog) back into a project document,
+ * so it can be restored into the designer with ContextProjectService.restore().
+ *
+ * A node editor export runs each group of wired pipelines as its own Context.create call; the calls are merged
+ * into one project, and their dataset × model combinations become the project's pipelines.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ContextScriptImportService {
+
+  /** Throws an Error describing the problem if the script does not contain a usable Context.create(...) call. */
+  toProject(source: string, catalog: ContextProjectCatalog): ContextProject {
+    const calls = parsePythonCalls(source, 'Context.create');
+    if (calls.length === 0) {
+      throw new Error('The script does not contain a Context.create(...) call.');
+    }
+
+    const task = calls[0].kwargs['task'];
+    const taskCall = task?.kind === 'call' && task.callee === 'Task' ? task : null;
+    const taskId = taskCall ? this.moduleRef(taskCall, 'Task') : null;
+
+    const datasets: ContextProjectItem[] = [];
+    const models: ContextProjectItem[] = [];
+    const metrics: ContextProjectItem[] = [];
+    const pipelines: ContextProjectPipeline[] = [];
+    for (const call of calls) {
+      const datasetIndexes = this.moduleEntries(call, 'datasets', 'Dataset')
+        .map(([ref, config]) => this.addEntry(datasets, this.datasetEntry(ref.id, ref.version, config, catalog.datasets)));
+      const modelIndexes = this.groupHyperparameterEntries(
+        this.moduleEntries(call, 'models', 'Model'), catalog.models, 'modl_id', 'modl_version_info_list')
+        .map(entry => this.addEntry(models, entry));
+      const metricIndexes = this.groupHyperparameterEntries(
+        this.moduleEntries(call, 'metrics', 'Metric'), catalog.metrics, 'metric_id', 'metric_version_info_list')
+        .map(entry => this.addEntry(metrics, entry));
+      for (const dataset of datasetIndexes) {
+        for (const model of modelIndexes) {
+          pipelines.push({ dataset, model, metrics: metricIndexes });
+        }
+      }
+    }
+
+    return {
+      format: CONTEXT_PROJECT_FORMAT,
+      schema_version: CONTEXT_PROJECT_SCHEMA_VERSION,
+      saved_at: new Date().toISOString(),
+      // The export names the contexts of a graph "<name> (1)", "<name> (2)", ...
+      name: calls.length > 1 ? this.stringArg(calls[0], 'name').replace(/ \(1\)$/, '') : this.stringArg(calls[0], 'name'),
+      description: this.stringArg(calls[0], 'description'),
+      task: taskId ? { id: taskId.id, version: taskId.version, name: '' } : null,
+      datasets,
+      models,
+      metrics,
+      ...(calls.length > 1 ? { pipelines } : {})
+    };
+  }
+
+  /** Index of `entry` in `list`, adding it unless the same module version with the same configuration is there already. */
+  private addEntry(list: ContextProjectItem[], entry: ContextProjectItem): number {
+    const key = (item: ContextProjectItem) => JSON.stringify([
+      item.id,
+      item.selected_version,
+      item.file_mappings ?? null,
+      (item.hyperparameter_sets ?? []).map(set => set.parameters)
+    ]);
+    const index = list.findIndex(item => key(item) === key(entry));
+    return index >= 0 ? index : list.push(entry) - 1;
+  }
+
+  private stringArg(call: PyCall, name: string): string {
+    const value = call.kwargs[name];
+    return value?.kind === 'str' ? value.value : '';
+  }
+
+  /** Read `module_id`/`version` from `Dataset(module_id=1, version=2)` (keyword or positional). */
+  private moduleRef(call: PyCall, expected: string): { id: string; version: string } {
+    if (call.callee !== expected) {
+      throw new Error(`Expected ${expected}(...) but found ${call.callee}(...).`);
+    }
+    const id = call.kwargs['module_id'] ?? call.args[0];
+    const version = call.kwargs['version'] ?? call.args[1];
+    if (!id || !version || (id.kind !== 'num' && id.kind !== 'str') || (version.kind !== 'num' && version.kind !== 'str')) {
+      throw new Error(`${expected}(...) needs a module_id and a version.`);
+    }
+    return {
+      id: id.kind === 'num' ? id.raw : id.value,
+      version: version.kind === 'num' ? version.raw : version.value
+    };
+  }
+
+  /** Read a list of `(Module(module_id=.., version=..), {...})` tuples. */
+  private moduleEntries(call: PyCall, argument: string, moduleName: string): [{ id: string; version: string }, PyValue | null][] {
+    const list = call.kwargs[argument];
+    if (!list) {
+      return [];
+    }
+    if (list.kind !== 'list') {
+      throw new Error(`"${argument}" must be a list.`);
+    }
+    return list.items.map(entry => {
+      if (entry.kind === 'call') {
+        return [this.moduleRef(entry, moduleName), null];
+      }
+      if (entry.kind !== 'list' || entry.items.length === 0 || entry.items[0].kind !== 'call') {
+        throw new Error(`Each entry of "${argument}" must be a ${moduleName}(...) or a (${moduleName}(...), {...}) tuple.`);
+      }
+      const config = entry.items[1] ?? null;
+      if (config && config.kind !== 'dict') {
+        throw new Error(`The configuration of a ${moduleName} in "${argument}" must be a dict.`);
+      }
+      return [this.moduleRef(entry.items[0], moduleName), config];
+    });
+  }
+
+  private datasetEntry(id: string, version: string, config: PyValue | null, available: any[]): ContextProjectItem {
+    const entry: ContextProjectItem = { id, selected_version: version, name: '', description: '' };
+    const mapping = config ? this.dictToRecord(config) : {};
+    const genericData = mapping['data']?.kind === 'str' ? mapping['data'].value : '';
+    const genericGroundTruth = mapping['ground_truth']?.kind === 'str' ? mapping['ground_truth'].value : '';
+
+    if (genericData || genericGroundTruth) {
+      // The script only carries the generic file types (file1, file2, ...); recover the file names from the dataset features
+      const versionInfo = this.findVersionInfo(available, 'dataset_id', 'dataset_version_info_list', id, version);
+      const features: any[] = versionInfo?.version?.features ?? [];
+      const fileName = (fileType: string) => features.find(f => f.file_type === fileType)?.file_name ?? '';
+      entry.file_mappings = {
+        data: fileName(genericData),
+        ground_truth: fileName(genericGroundTruth),
+        generic_data: genericData,
+        generic_ground_truth: genericGroundTruth
+      };
+    }
+    return entry;
+  }
+
+  /** Models/metrics are exported as one tuple per hyperparameter set; merge tuples of the same module version back together. */
+  private groupHyperparameterEntries(
+    entries: [{ id: string; version: string }, PyValue | null][],
+    available: any[],
+    idField: string,
+    versionListField: string
+  ): ContextProjectItem[] {
+    const grouped = new Map<string, { id: string; version: string; configs: Record<string, PyValue>[] }>();
+    for (const [ref, config] of entries) {
+      const key = `${ref.id}@${ref.version}`;
+      if (!grouped.has(key)) {
+        grouped.set(key, { ...ref, configs: [] });
+      }
+      grouped.get(key)!.configs.push(config ? this.dictToRecord(config) : {});
+    }
+
+    return Array.from(grouped.values()).map(group => {
+      const versionInfo = this.findVersionInfo(available, idField, versionListField, group.id, group.version);
+      const schema: any[] = versionInfo?.version?.hyperparameters ?? [];
+      const entry: ContextProjectItem = { id: group.id, selected_version: group.version, name: '', description: '' };
+
+      // A single `{}` means "no hyperparameter sets"; anything else becomes one set per tuple
+      const onlyDefaults = group.configs.length === 1 && Object.keys(group.configs[0]).length === 0;
+      if (!onlyDefaults) {
+        entry.hyperparameter_sets = group.configs.map((config, index) => ({
+          id: Date.now() + index,
+          parameters: Object.fromEntries(Object.entries(config).map(([name, value]) => {
+            const definition = schema.find(p => p.hyperparameter_name === name);
+            return [name, {
+              value: this.scalarText(value),
+              data_type: definition?.hyperparameter_data_type ?? this.inferDataType(value)
+            }];
+          }))
+        }));
+      }
+      return entry;
+    });
+  }
+
+  private dictToRecord(dict: PyValue): Record<string, PyValue> {
+    if (dict.kind !== 'dict') {
+      return {};
+    }
+    const record: Record<string, PyValue> = {};
+    for (const [key, value] of dict.entries) {
+      if (key.kind !== 'str') {
+        throw new Error(`Dictionary keys must be strings, found ${pyValueToSource(key)}.`);
+      }
+      record[key.value] = value;
+    }
+    return record;
+  }
+
+  /** Hyperparameter values are edited as text in the designer. */
+  private scalarText(value: PyValue): string {
+    return value.kind === 'str' ? value.value : pyValueToSource(value);
+  }
+
+  private inferDataType(value: PyValue): string {
+    switch (value.kind) {
+      case 'str': return 'string';
+      case 'num': return /[.eE]/.test(value.raw) ? 'float' : 'int';
+      case 'bool': return 'bool';
+      case 'list': return 'list';
+      case 'dict': return 'dict';
+      default: return 'string';
+    }
+  }
+
+  private findVersionInfo(available: any[], idField: string, versionListField: string, id: string, version: string): any {
+    const descriptor = available.find(a => String(a[idField]) === id);
+    return (descriptor?.[versionListField] ?? []).find((v: any) => String(v.version?.version_number) === version);
+  }
+}
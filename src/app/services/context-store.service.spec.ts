@@ -0,0 +1,105 @@
+import { ContextStoreService } from './context-store.service';
+
+describe('ContextStoreService history', () => {
+  let store: ContextStoreService;
+  let now: number;
+
+  beforeEach(() => {
+    now = 1_000_000;
+    spyOn(Date, 'now').and.callFake(() => now);
+    store = new ContextStoreService();
+  });
+
+  function labels(): string[] {
+    let past: string[] = [];
+    store.history$.subscribe(history => past = history.past.map(entry => entry.label)).unsubscribe();
+    return past;
+  }
+
+  it('undoes and redoes single edits', () => {
+    store.setDetails('first', '');
+    const id = store.addItem('model');
+
+    store.undo();
+    expect(store.state.models).toEqual([]);
+    expect(store.state.name).toBe('first');
+    expect(store.canRedo).toBeTrue();
+
+    store.redo();
+    expect(store.state.models.map(item => item.id)).toEqual([id]);
+    expect(store.canRedo).toBeFalse();
+  });
+
+  it('merges quick moves of the same node into one command', () => {
+    const id = store.addItem('dataset', {}, { x: 0, y: 0 });
+    store.moveNode(id, { x: 10, y: 0 });
+    now += 500;
+    store.moveNode(id, { x: 20, y: 0 });
+    now += 500;
+    store.moveNode(id, { x: 30, y: 0 });
+
+    expect(labels()).toEqual(['Add new dataset', 'Move new dataset']);
+    store.undo();
+    expect(store.state.graph.positions[id]).toEqual({ x: 0, y: 0 });
+  });
+
+  it('records moves apart in time or of other nodes separately', () => {
+    const first = store.addItem('dataset', {}, { x: 0, y: 0 });
+    const second = store.addItem('model', {}, { x: 0, y: 0 });
+    store.moveNode(first, { x: 10, y: 0 });
+    store.moveNode(second, { x: 10, y: 0 });
+    now += 1000;
+    store.moveNode(second, { x: 20, y: 0 });
+
+    expect(labels().length).toBe(5);
+    store.undo();
+    expect(store.state.graph.positions[second]).toEqual({ x: 10, y: 0 });
+  });
+
+  it('does not merge an edit into a command after undoing the one that followed it', () => {
+    store.setDetails('a', '');
+    store.setTask({ id: '1', version: '1', name: 'discovery' });
+    store.undo();
+    store.setDetails('ab', '');
+
+    expect(labels()).toEqual(['Edit context details', 'Edit context details']);
+    expect(store.canRedo).toBeFalse();
+    store.undo();
+    expect(store.state.name).toBe('a');
+  });
+
+  it('records a batch as one command and leaves no-op edits out of the history', () => {
+    store.batch('Add pipeline', () => {
+      const dataset = store.addItem('dataset');
+      const model = store.addItem('model');
+      store.addEdge({ sourceNodeId: dataset, sourcePortId: 'data', targetNodeId: model, targetPortId: 'data' });
+    });
+    store.batch('Nothing', () => undefined);
+    store.selectItem(null);
+
+    expect(labels()).toEqual(['Add pipeline']);
+    store.undo();
+    expect(store.state.datasets).toEqual([]);
+    expect(store.state.graph.edges).toEqual([]);
+  });
+
+  it('jumps back and forth through the history', () => {
+    store.setTask({ id: '1', version: '1', name: 'discovery' });
+    store.addItem('dataset');
+    store.addItem('model');
+    let history = { past: [] as { id: number }[], future: [] as { id: number }[] };
+    store.history$.subscribe(value => history = value).unsubscribe();
+    const [taskCommand, , modelCommand] = history.past;
+
+    store.jumpTo(taskCommand.id);
+    expect(store.state.datasets).toEqual([]);
+    expect(store.state.task.id).toBe('1');
+
+    store.jumpTo(modelCommand.id);
+    expect(store.state.models.length).toBe(1);
+
+    store.jumpTo(null);
+    expect(store.state.task.id).toBe('');
+    expect(store.canUndo).toBeFalse();
+  });
+});
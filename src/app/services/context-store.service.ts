@@ -0,0 +1,491 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject, Observable, distinctUntilChanged, map } from 'rxjs';
+import { ContextItemType, ContextProjectPipeline, ContextProjectTask } from './context-project.service';
+import { fittingEdges } from '../utils/node-ports';
+
+/** An entry of the designed context. `id` stays the same for the lifetime of the entry, in both views. */
+export interface ContextItem {
+  id: string;
+  data: any;
+  isSelected: boolean;
+  /** Restored from a project, but no longer on the server */
+  missing?: boolean;
+}
+
+export interface ContextNodePosition {
+  x: number;
+  y: number;
+}
+
+export interface ContextProcessor {
+  id: string;
+  data: any;
+}
+
+export interface ContextEdge {
+  id: string;
+  sourceNodeId: string;
+  sourcePortId: string;
+  targetNodeId: string;
+  targetPortId: string;
+}
+
+/**
+ * Node editor layout. Dataset, model and metric nodes are the context items themselves (node id = item id);
+ * processors and edges exist only in the graph.
+ */
+export interface ContextGraph {
+  positions: Record<string, ContextNodePosition>;
+  processors: ContextProcessor[];
+  edges: ContextEdge[];
+}
+
+export interface ContextState {
+  name: string;
+  description: string;
+  task: ContextProjectTask;
+  datasets: ContextItem[];
+  models: ContextItem[];
+  metrics: ContextItem[];
+  selectedItemId: string | null;
+  graph: ContextGraph;
+}
+
+/** Context replacing the current one, e.g. a restored project; the graph layout starts over from its pipelines. */
+export interface ContextSnapshot {
+  name?: string;
+  description?: string;
+  task: ContextProjectTask | null;
+  datasets: { data: any; missing?: boolean }[];
+  models: { data: any; missing?: boolean }[];
+  metrics: { data: any; missing?: boolean }[];
+  /** Wiring to rebuild as node editor edges */
+  pipelines?: ContextProjectPipeline[];
+}
+
+const LIST_KEYS: Record<ContextItemType, 'datasets' | 'models' | 'metrics'> = {
+  dataset: 'datasets',
+  model: 'models',
+  metric: 'metrics'
+};
+
+const NO_TASK: ContextProjectTask = { id: '', version: '', name: '' };
+
+const EMPTY_CONTEXT: ContextState = {
+  name: '',
+  description: '',
+  task: NO_TASK,
+  datasets: [],
+  models: [],
+  metrics: [],
+  selectedItemId: null,
+  graph: { positions: {}, processors: [], edges: [] }
+};
+
+/** An undoable edit, as listed in the history panel. */
+export interface ContextHistoryEntry {
+  id: number;
+  label: string;
+  at: number;
+}
+
+export interface ContextHistory {
+  /** Oldest first; the last entry is what Undo reverts */
+  past: ContextHistoryEntry[];
+  /** Next redo first */
+  future: ContextHistoryEntry[];
+}
+
+/** A recorded edit: undo restores `before`, redo restores `after`. */
+interface ContextCommand extends ContextHistoryEntry {
+  before: ContextState;
+  after: ContextState;
+  /** Consecutive commands with the same key (e.g. moves of one node) are merged into one */
+  coalesceKey?: string;
+}
+
+const MAX_HISTORY = 100;
+const COALESCE_WINDOW_MS = 1000;
+
+const ITEM_NAME_FIELDS: Record<ContextItemType, string> = {
+  dataset: 'dataset_name',
+  model: 'modl_name',
+  metric: 'metric_name'
+};
+
+let idCounter = 0;
+
+/** Unique id for items, processors and edges (Date.now() alone repeats within one tick). */
+export function createContextId(prefix: string): string {
+  return `${prefix}-${Date.now().toString(36)}-${(idCounter++).toString(36)}`;
+}
+
+/** Node editor edges for restored pipelines: the dataset's data into the model, the model's prediction into each metric. */
+function pipelineEdges(pipelines: ContextProjectPipeline[], datasets: ContextItem[], models: ContextItem[], metrics: ContextItem[]): ContextEdge[] {
+  const edges: ContextEdge[] = [];
+  const connect = (sourceNodeId: string, sourcePortId: string, targetNodeId: string, targetPortId: string) => {
+    if (!edges.some(e => e.sourceNodeId === sourceNodeId && e.targetNodeId === targetNodeId && e.targetPortId === targetPortId)) {
+      edges.push({ id: createContextId('edge'), sourceNodeId, sourcePortId, targetNodeId, targetPortId });
+    }
+  };
+  for (const pipeline of pipelines) {
+    const dataset = datasets[pipeline.dataset];
+    const model = models[pipeline.model];
+    if (!dataset || !model) {
+      continue;
+    }
+    connect(dataset.id, 'data', model.id, 'data');
+    pipeline.metrics
+      .filter(index => metrics[index])
+      .forEach(index => connect(model.id, 'prediction', metrics[index].id, 'prediction'));
+  }
+  return edges;
+}
+
+/** Minimal shape check for states read back from storage or files (drafts, graph documents). */
+export function isContextState(value: any): value is ContextState {
+  return typeof value?.name === 'string' && typeof value.description === 'string' && typeof value.task?.id === 'string'
+    && Array.isArray(value.datasets) && Array.isArray(value.models) && Array.isArray(value.metrics)
+    && typeof value.graph?.positions === 'object' && Array.isArray(value.graph.processors) && Array.isArray(value.graph.edges);
+}
+
+/**
+ * Single source of truth for the context being designed, shared by the list designer and the node editor.
+ * State is never mutated: every action publishes a new ContextState, so views can rely on reference changes.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ContextStoreService {
+
+  private readonly stateSubject = new BehaviorSubject<ContextState>(EMPTY_CONTEXT);
+  private undoStack: ContextCommand[] = [];
+  private redoStack: ContextCommand[] = [];
+  private nextCommandId = 1;
+  // Set while batch() runs, so its edits are recorded as one command
+  private batchDepth = 0;
+  private readonly historySubject = new BehaviorSubject<ContextHistory>({ past: [], future: [] });
+
+  readonly history$ = this.historySubject.asObservable();
+
+  readonly state$ = this.stateSubject.asObservable();
+  readonly datasets$ = this.select(state => state.datasets);
+  readonly models$ = this.select(state => state.models);
+  readonly metrics$ = this.select(state => state.metrics);
+  readonly task$ = this.select(state => state.task);
+  readonly graph$ = this.select(state => state.graph);
+  readonly selectedItem$ = this.state$.pipe(
+    map(state => this.findItem(state, state.selectedItemId)),
+    distinctUntilChanged((a, b) => a?.item === b?.item)
+  );
+
+  get state(): ContextState {
+    return this.stateSubject.value;
+  }
+
+  get canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  get canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  /** Type of a context item, or null when the id is not a dataset, model or metric of the context. */
+  itemType(id: string | null, state: ContextState = this.state): ContextItemType | null {
+    return this.findItem(state, id)?.type ?? null;
+  }
+
+  // Items
+
+  /** Add an item (unconfigured when `data` is empty), select it and return its id. */
+  addItem(type: ContextItemType, data: any = {}, position?: ContextNodePosition): string {
+    const id = createContextId(type);
+    const key = LIST_KEYS[type];
+    this.update(`Add ${this.describe(type, data)}`, state => this.withSelection({
+      ...state,
+      [key]: [...state[key], { id, data, isSelected: false }],
+      graph: position ? { ...state.graph, positions: { ...state.graph.positions, [id]: position } } : state.graph
+    }, id));
+    return id;
+  }
+
+  /** Replace the configuration of an item; edges its node no longer fits are removed with it. */
+  updateItem(id: string, data: any) {
+    const type = this.itemType(id);
+    if (!type) {
+      return;
+    }
+    this.update(`Configure ${this.describe(type, data)}`, state => this.withFittingEdges(this.mapItems(state, item => {
+      if (item.id !== id) {
+        return item;
+      }
+      // A reconfigured item points at an existing catalog entry again
+      const { missing: _missing, ...configured } = item;
+      return { ...configured, data };
+    }), id));
+  }
+
+  /** Remove an item together with its node position and edges. */
+  removeItem(id: string) {
+    const found = this.findItem(this.state, id);
+    this.update(`Remove ${found ? this.describe(found.type, found.item.data) : 'item'}`, state => {
+      const next = this.withoutNode(state, id);
+      return {
+        ...next,
+        datasets: next.datasets.filter(item => item.id !== id),
+        models: next.models.filter(item => item.id !== id),
+        metrics: next.metrics.filter(item => item.id !== id),
+        selectedItemId: state.selectedItemId === id ? null : state.selectedItemId
+      };
+    });
+  }
+
+  selectItem(id: string | null) {
+    // Selection is not an edit and is not recorded in the history
+    if (id !== this.state.selectedItemId) {
+      this.update(null, state => this.withSelection(state, id));
+    }
+  }
+
+  // Context details
+
+  setTask(task: ContextProjectTask | null) {
+    this.update(task?.id ? `Select task ${task.name || task.id}` : 'Clear task', state => ({ ...state, task: task ? { ...task } : NO_TASK }));
+  }
+
+  setDetails(name: string, description: string) {
+    this.update('Edit context details', state => ({ ...state, name, description }), 'details');
+  }
+
+  /** Replace the whole context, e.g. with a restored project. */
+  load(snapshot: ContextSnapshot) {
+    const toItems = (type: ContextItemType, entries: { data: any; missing?: boolean }[]): ContextItem[] =>
+      entries.map(entry => ({
+        id: createContextId(type),
+        data: entry.data,
+        isSelected: false,
+        ...(entry.missing ? { missing: true } : {})
+      }));
+    const datasets = toItems('dataset', snapshot.datasets);
+    const models = toItems('model', snapshot.models);
+    const metrics = toItems('metric', snapshot.metrics);
+    this.update('Open project', () => ({
+      ...EMPTY_CONTEXT,
+      name: snapshot.name ?? '',
+      description: snapshot.description ?? '',
+      task: snapshot.task ? { ...snapshot.task } : NO_TASK,
+      datasets,
+      models,
+      metrics,
+      graph: { ...EMPTY_CONTEXT.graph, edges: pipelineEdges(snapshot.pipelines ?? [], datasets, models, metrics) }
+    }));
+  }
+
+  reset() {
+    this.update('Clear context', () => EMPTY_CONTEXT);
+  }
+
+  /** Replace the whole context with a previously stored state (e.g. an autosaved draft), graph included. */
+  restore(state: ContextState, label: string) {
+    this.update(label, () => state);
+  }
+
+  // Graph
+
+  addProcessor(position: ContextNodePosition, data: any = {}): string {
+    const id = createContextId('processor');
+    this.update('Add processor', state => ({
+      ...state,
+      graph: {
+        ...state.graph,
+        processors: [...state.graph.processors, { id, data }],
+        positions: { ...state.graph.positions, [id]: position }
+      }
+    }));
+    return id;
+  }
+
+  updateProcessor(id: string, data: any) {
+    this.update('Configure processor', state => this.withFittingEdges({
+      ...state,
+      graph: { ...state.graph, processors: state.graph.processors.map(p => p.id === id ? { ...p, data } : p) }
+    }, id));
+  }
+
+  /** Remove a node of the graph: an item is removed from the context, a processor only from the graph. */
+  removeNode(id: string) {
+    if (this.itemType(id)) {
+      this.removeItem(id);
+    } else {
+      this.update('Remove processor', state => this.withoutNode(state, id));
+    }
+  }
+
+  /** Store a node position; repeated moves of the same node in quick succession are undone together. */
+  moveNode(id: string, position: ContextNodePosition) {
+    const found = this.findItem(this.state, id);
+    this.update(`Move ${found ? this.describe(found.type, found.item.data) : 'processor'}`, state => ({
+      ...state,
+      graph: { ...state.graph, positions: { ...state.graph.positions, [id]: { x: position.x, y: position.y } } }
+    }), `move:${id}`);
+  }
+
+  /** Connect two ports; connecting the same ports twice has no effect. */
+  addEdge(edge: Omit<ContextEdge, 'id'>) {
+    const exists = this.state.graph.edges.some(e =>
+      e.sourceNodeId === edge.sourceNodeId &&
+      e.sourcePortId === edge.sourcePortId &&
+      e.targetNodeId === edge.targetNodeId &&
+      e.targetPortId === edge.targetPortId
+    );
+    if (!exists) {
+      this.update('Connect nodes', state => ({
+        ...state,
+        graph: { ...state.graph, edges: [...state.graph.edges, { id: createContextId('edge'), ...edge }] }
+      }));
+    }
+  }
+
+  removeEdge(id: string) {
+    this.update('Remove connection', state => ({ ...state, graph: { ...state.graph, edges: state.graph.edges.filter(e => e.id !== id) } }));
+  }
+
+  // History
+
+  undo() {
+    const command = this.undoStack.pop();
+    if (command) {
+      this.redoStack.push(command);
+      this.stateSubject.next(command.before);
+      this.publishHistory();
+    }
+  }
+
+  redo() {
+    const command = this.redoStack.pop();
+    if (command) {
+      this.undoStack.push(command);
+      this.stateSubject.next(command.after);
+      this.publishHistory();
+    }
+  }
+
+  /** Undo or redo until `id` is the latest applied command; null goes back to before the oldest one. */
+  jumpTo(id: number | null) {
+    const inPast = id === null || this.undoStack.some(command => command.id === id);
+    const inFuture = !inPast && this.redoStack.some(command => command.id === id);
+    while (inPast && this.undoStack.length > 0 && this.undoStack[this.undoStack.length - 1].id !== id) {
+      this.undo();
+    }
+    while (inFuture && this.redoStack.length > 0 && this.undoStack[this.undoStack.length - 1]?.id !== id) {
+      this.redo();
+    }
+  }
+
+  /** Run several actions as one undoable command, e.g. adding a group of connected nodes. */
+  batch(label: string, actions: () => void) {
+    const before = this.state;
+    this.batchDepth++;
+    try {
+      actions();
+    } finally {
+      this.batchDepth--;
+    }
+    if (this.batchDepth === 0 && this.state !== before) {
+      this.record(label, before, this.state);
+    }
+  }
+
+  clearHistory() {
+    this.undoStack = [];
+    this.redoStack = [];
+    this.publishHistory();
+  }
+
+  /** Apply an action; a `label` records it as an undoable command (null for changes like selection). */
+  private update(label: string | null, reducer: (state: ContextState) => ContextState, coalesceKey?: string) {
+    const before = this.state;
+    const after = reducer(before);
+    if (after === before) {
+      return;
+    }
+    this.stateSubject.next(after);
+    if (label !== null && this.batchDepth === 0) {
+      this.record(label, before, after, coalesceKey);
+    }
+  }
+
+  private record(label: string, before: ContextState, after: ContextState, coalesceKey?: string) {
+    const now = Date.now();
+    const last = this.undoStack[this.undoStack.length - 1];
+    if (coalesceKey && last?.coalesceKey === coalesceKey && this.redoStack.length === 0 && now - last.at < COALESCE_WINDOW_MS) {
+      this.undoStack[this.undoStack.length - 1] = { ...last, after, at: now };
+    } else {
+      this.undoStack.push({ id: this.nextCommandId++, label, at: now, before, after, coalesceKey });
+      if (this.undoStack.length > MAX_HISTORY) {
+        this.undoStack.shift();
+      }
+    }
+    this.redoStack = [];
+    this.publishHistory();
+  }
+
+  private publishHistory() {
+    const entry = ({ id, label, at }: ContextCommand): ContextHistoryEntry => ({ id, label, at });
+    this.historySubject.next({ past: this.undoStack.map(entry), future: [...this.redoStack].reverse().map(entry) });
+  }
+
+  /** Short description of an item for history labels, e.g. "model NOTEARS" or "new dataset". */
+  private describe(type: ContextItemType, data: any): string {
+    const name = data?.[ITEM_NAME_FIELDS[type]];
+    return name ? `${type} ${name}` : `new ${type}`;
+  }
+
+  private select<T>(selector: (state: ContextState) => T): Observable<T> {
+    return this.state$.pipe(map(selector), distinctUntilChanged());
+  }
+
+  private findItem(state: ContextState, id: string | null): { type: ContextItemType; item: ContextItem } | null {
+    if (!id) {
+      return null;
+    }
+    for (const type of Object.keys(LIST_KEYS) as ContextItemType[]) {
+      const item = state[LIST_KEYS[type]].find(i => i.id === id);
+      if (item) {
+        return { type, item };
+      }
+    }
+    return null;
+  }
+
+  private mapItems(state: ContextState, fn: (item: ContextItem) => ContextItem): ContextState {
+    const mapList = (items: ContextItem[]) => {
+      const mapped = items.map(fn);
+      return mapped.every((item, index) => item === items[index]) ? items : mapped;
+    };
+    return { ...state, datasets: mapList(state.datasets), models: mapList(state.models), metrics: mapList(state.metrics) };
+  }
+
+  private withFittingEdges(state: ContextState, nodeId: string): ContextState {
+    const edges = fittingEdges(state, nodeId);
+    return edges === state.graph.edges ? state : { ...state, graph: { ...state.graph, edges } };
+  }
+
+  private withSelection(state: ContextState, id: string | null): ContextState {
+    const next = this.mapItems(state, item => item.isSelected === (item.id === id) ? item : { ...item, isSelected: item.id === id });
+    return { ...next, selectedItemId: id };
+  }
+
+  private withoutNode(state: ContextState, id: string): ContextState {
+    const { [id]: _removed, ...positions } = state.graph.positions;
+    return {
+      ...state,
+      graph: {
+        positions,
+        processors: state.graph.processors.filter(p => p.id !== id),
+        edges: state.graph.edges.filter(e => e.sourceNodeId !== id && e.targetNodeId !== id)
+      }
+    };
+  }
+}
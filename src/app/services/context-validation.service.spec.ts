@@ -0,0 +1,94 @@
+import { CompatibilityService } from './compatibility.service';
+import { ContextItem } from './context-store.service';
+import { ContextValidationService, findDuplicateItem } from './context-validation.service';
+import { GraphTopology } from '../utils/graph-topology';
+
+function model(id: string, modl_id: number, selected_version: string): ContextItem {
+  return { id, data: { modl_id, modl_name: `Model ${modl_id}`, selected_version }, isSelected: false };
+}
+
+const DATASET: ContextItem = {
+  id: 'dataset-1',
+  data: { dataset_id: 11, dataset_name: 'sachs', selected_version: '1', file_mappings: { generic_data: 'file1', generic_ground_truth: 'file2' } },
+  isSelected: false
+};
+
+function createService(): ContextValidationService {
+  return new ContextValidationService({ checkContext: () => [] } as unknown as CompatibilityService);
+}
+
+describe('findDuplicateItem', () => {
+  const items = [model('a', 21, '1'), model('b', 22, '1')];
+
+  it('finds another entry with the same module and version', () => {
+    expect(findDuplicateItem(items, 'model', { modl_id: '21', selected_version: 1 })?.id).toBe('a');
+  });
+
+  it('ignores other versions, the entry itself and entries without a version', () => {
+    expect(findDuplicateItem(items, 'model', { modl_id: 21, selected_version: '2' })).toBeUndefined();
+    expect(findDuplicateItem(items, 'model', items[0].data, 'a')).toBeUndefined();
+    expect(findDuplicateItem(items, 'model', { modl_id: 21 })).toBeUndefined();
+  });
+});
+
+describe('ContextValidationService', () => {
+  it('reports a module version that is in the context twice as an error', () => {
+    const report = createService().validate({
+      task: { id: '', version: '', name: '' },
+      datasets: [DATASET],
+      models: [model('a', 21, '1'), model('b', 21, '1'), model('c', 21, '2')],
+      metrics: []
+    });
+
+    const duplicates = report.issues.filter(issue => issue.message.includes('same version is already in the context'));
+    expect(duplicates.map(issue => issue.itemId)).toEqual(['b']);
+    expect(duplicates[0].severity).toBe('error');
+  });
+
+  it('checks the compatibility of the wired dataset/model pairs only', () => {
+    const compatibility = jasmine.createSpyObj<CompatibilityService>('CompatibilityService', { checkContext: [] });
+    const second = { ...DATASET, id: 'dataset-2', data: { ...DATASET.data, dataset_id: 12 } };
+    const topology: GraphTopology = {
+      pipelines: [
+        { datasetId: 'dataset-1', modelId: 'a', processorIds: [], metricIds: [], outputProcessorIds: [] },
+        { datasetId: 'dataset-2', modelId: 'b', processorIds: [], metricIds: [], outputProcessorIds: [] }
+      ],
+      issues: [],
+      processors: {}
+    };
+
+    new ContextValidationService(compatibility).validate({
+      task: { id: '', version: '', name: '' },
+      datasets: [DATASET, second],
+      models: [model('a', 21, '1'), model('b', 22, '1')],
+      metrics: [],
+      topology
+    });
+
+    expect(compatibility.checkContext.calls.mostRecent().args[0].pairs).toEqual([
+      { datasetId: 'dataset-1', modelId: 'a' },
+      { datasetId: 'dataset-2', modelId: 'b' }
+    ]);
+  });
+
+  it('reports a processor issue on its node, not as a context item', () => {
+    const topology: GraphTopology = {
+      pipelines: [{ datasetId: 'dataset-1', modelId: 'a', processorIds: [], metricIds: [], outputProcessorIds: [] }],
+      issues: [{ nodeId: 'processor-1', nodeType: 'processor', message: 'not between a dataset and a model, or a model and a metric; ignored.' }],
+      processors: { 'processor-1': { processor_id: 'normalize', processor_name: 'Normalize' } }
+    };
+
+    const report = createService().validate({
+      task: { id: '', version: '', name: '' },
+      datasets: [DATASET],
+      models: [model('a', 21, '1')],
+      metrics: [],
+      topology
+    });
+
+    const issue = report.issues.find(i => i.message.startsWith('Processor Normalize'));
+    expect(issue?.itemId).toBeNull();
+    expect(issue?.itemType).toBeNull();
+    expect(issue?.nodeId).toBe('processor-1');
+  });
+});
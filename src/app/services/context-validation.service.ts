@@ -0,0 +1,250 @@
+import { Injectable } from '@angular/core';
+import { CompatibilityService } from './compatibility.service';
+import { ContextItemType, ContextProjectTask } from './context-project.service';
+import { ContextItem } from './context-store.service';
+import { GraphTopology, exportedPipelines } from '../utils/graph-topology';
+import { describeHyperparameterIssues, findHyperparameterIssues, selectedVersionHyperparameters } from '../utils/hyperparameter-validation';
+
+export type ContextIssueSeverity = 'error' | 'warning';
+
+/** A problem found before export; errors block the export, warnings only explain what the export will do. */
+export interface ContextIssue {
+  severity: ContextIssueSeverity;
+  /** Context item the issue is about, or null for the context as a whole */
+  itemId: string | null;
+  itemType: ContextItemType | null;
+  /** Node editor node the issue is about when it is not a context item (a processor) */
+  nodeId?: string;
+  message: string;
+}
+
+export interface ContextValidationReport {
+  issues: ContextIssue[];
+  errorCount: number;
+  warningCount: number;
+}
+
+export interface ContextValidationInput {
+  task: ContextProjectTask;
+  datasets: ContextItem[];
+  models: ContextItem[];
+  metrics: ContextItem[];
+  /** Node editor graph wiring; when given, only the pipelines drawn are exported */
+  topology?: GraphTopology | null;
+}
+
+const MODULE_PREFIXES: Record<ContextItemType, 'dataset' | 'modl' | 'metric'> = {
+  dataset: 'dataset',
+  model: 'modl',
+  metric: 'metric'
+};
+
+/** Match when the module's task (version.tasks entry) task id equals the task id. Use task_id/taskId only; never task.id (can be the module id). */
+function taskMatches(task: any, taskId: string): boolean {
+  const id = typeof task === 'object' && task != null
+    ? (task.task_id ?? task.taskId ?? '')
+    : String(task ?? '');
+  return String(id) === String(taskId);
+}
+
+/**
+ * Whether the selected version of a model/metric supports the task. Entries without version info are kept,
+ * since their tasks are unknown.
+ */
+export function moduleSupportsTask(data: any, prefix: 'modl' | 'metric', taskId: string): boolean {
+  if (!taskId) {
+    return false;
+  }
+  const versionList = data?.[`${prefix}_version_info_list`];
+  if (!versionList) {
+    return true;
+  }
+  const versionInfo = versionList.find((v: any) => String(v.version?.version_number) === String(data.selected_version));
+  const tasks = versionInfo?.version?.tasks ?? [];
+  return tasks.some((task: any) => taskMatches(task, taskId));
+}
+
+/** Whether an entry has a catalog module and version selected (it is left out of the export otherwise). */
+export function isConfiguredItem(item: ContextItem, type: ContextItemType): boolean {
+  return !!(item.data && item.data[`${MODULE_PREFIXES[type]}_id`] && item.data.selected_version);
+}
+
+/**
+ * Another entry of `items` with the same module and version selected as `data` (the export would run it twice),
+ * not counting the entry `exceptId` itself.
+ */
+export function findDuplicateItem(items: ContextItem[], type: ContextItemType, data: any, exceptId?: string): ContextItem | undefined {
+  const idField = `${MODULE_PREFIXES[type]}_id`;
+  if (data?.[idField] == null || !data.selected_version) {
+    return undefined;
+  }
+  return items.find(item => item.id !== exceptId
+    && String(item.data?.[idField]) === String(data[idField])
+    && String(item.data?.selected_version) === String(data.selected_version));
+}
+
+/** Checks the designed context before export, mirroring what the export dialog leaves out or falls back to. */
+@Injectable({
+  providedIn: 'root'
+})
+export class ContextValidationService {
+
+  constructor(private compatibilityService: CompatibilityService) { }
+
+  validate(context: ContextValidationInput): ContextValidationReport {
+    const issues: ContextIssue[] = [];
+    const contextIssue = (severity: ContextIssueSeverity, message: string) =>
+      issues.push({ severity, itemId: null, itemType: null, message });
+    const itemIssue = (severity: ContextIssueSeverity, type: ContextItemType, item: ContextItem, message: string) =>
+      issues.push({ severity, itemId: item.id, itemType: type, message: `${this.itemLabel(type, item)}: ${message}` });
+
+    if (!context.task.id) {
+      contextIssue('error', 'No task selected; the export would fall back to task 1, version 1.');
+    } else if (!context.task.version) {
+      contextIssue('error', `No version selected for task ${context.task.name || context.task.id}.`);
+    }
+
+    const exportedDatasets: ContextItem[] = [];
+    for (const item of context.datasets) {
+      if (item.missing) {
+        itemIssue('error', 'dataset', item, 'no longer available on the server.');
+      }
+      if (!isConfiguredItem(item, 'dataset')) {
+        itemIssue('warning', 'dataset', item, 'not configured and left out of the export.');
+        continue;
+      }
+      exportedDatasets.push(item);
+      const mappings = item.data.file_mappings;
+      if (!mappings?.generic_data) {
+        itemIssue('warning', 'dataset', item, 'no data file mapped; exported as file1.');
+      }
+      if (!mappings?.generic_ground_truth) {
+        itemIssue('warning', 'dataset', item, 'no ground-truth file mapped; exported as file2.');
+      }
+    }
+
+    const exportedModels = this.validateModules('model', context.models, context.task, itemIssue);
+    const exportedMetrics = this.validateModules('metric', context.metrics, context.task, itemIssue);
+
+    // Pasted or duplicated nodes can repeat a module version the list designer would have refused
+    const exportedItems: [ContextItemType, ContextItem[]][] = [['dataset', exportedDatasets], ['model', exportedModels], ['metric', exportedMetrics]];
+    for (const [type, items] of exportedItems) {
+      items.forEach((item, index) => {
+        if (findDuplicateItem(items.slice(0, index), type, item.data)) {
+          itemIssue('error', type, item, 'the same version is already in the context; select another version or remove it.');
+        }
+      });
+    }
+
+    // With wired pipelines only their dataset/model pairs run
+    const ids = (items: ContextItem[]) => items.map(item => item.id);
+    const pipelines = context.topology
+      ? exportedPipelines(context.topology, ids(exportedDatasets), ids(exportedModels), ids(exportedMetrics))
+      : [];
+    const compatibility = this.compatibilityService.checkContext({
+      task: context.task,
+      datasets: exportedDatasets,
+      models: exportedModels,
+      ...(pipelines.length > 0 ? { pairs: pipelines.map(p => ({ datasetId: p.datasetId, modelId: p.modelId })) } : {})
+    });
+    for (const issue of compatibility) {
+      issues.push({ severity: 'warning', itemId: issue.modelId ?? issue.datasetId, itemType: issue.modelId ? 'model' : 'dataset', message: issue.message });
+    }
+
+    if (context.topology) {
+      this.validateTopology(context.topology, context, exportedDatasets, exportedModels, exportedMetrics, contextIssue, itemIssue, issues);
+    }
+
+    if (exportedDatasets.length === 0) {
+      contextIssue('error', 'The context has no configured dataset.');
+    }
+    if (exportedModels.length === 0) {
+      contextIssue('error', 'The context has no configured model for the selected task.');
+    }
+    if (exportedMetrics.length === 0) {
+      contextIssue('warning', 'The context has no configured metric for the selected task.');
+    }
+
+    // Context-wide issues first, errors before warnings
+    const scoped = (issue: ContextIssue) => Number(issue.itemId !== null || !!issue.nodeId);
+    issues.sort((a, b) => scoped(a) - scoped(b)
+      || Number(a.severity === 'warning') - Number(b.severity === 'warning'));
+    return {
+      issues,
+      errorCount: issues.filter(i => i.severity === 'error').length,
+      warningCount: issues.filter(i => i.severity === 'warning').length
+    };
+  }
+
+  /** Returns the entries that make it into the export. */
+  private validateModules(
+    type: 'model' | 'metric',
+    items: ContextItem[],
+    task: ContextProjectTask,
+    itemIssue: (severity: ContextIssueSeverity, type: ContextItemType, item: ContextItem, message: string) => void
+  ): ContextItem[] {
+    const prefix = MODULE_PREFIXES[type] as 'modl' | 'metric';
+    const exported: ContextItem[] = [];
+    for (const item of items) {
+      if (item.missing) {
+        itemIssue('error', type, item, 'no longer available on the server.');
+      }
+      if (!isConfiguredItem(item, type)) {
+        itemIssue('warning', type, item, 'not configured and left out of the export.');
+        continue;
+      }
+      if (task.id && !moduleSupportsTask(item.data, prefix, task.id)) {
+        itemIssue('warning', type, item, `does not support task ${task.name || task.id} and is left out of the export.`);
+        continue;
+      }
+      exported.push(item);
+      const hyperparameterIssues = findHyperparameterIssues(item.data.hyperparameter_sets, selectedVersionHyperparameters(item.data, prefix));
+      for (const line of describeHyperparameterIssues(hyperparameterIssues)) {
+        itemIssue('error', type, item, line);
+      }
+    }
+    return exported;
+  }
+
+  /** Disconnected nodes are left out of a wired export; without any wired pipeline the export falls back to every combination. */
+  private validateTopology(
+    topology: GraphTopology,
+    context: ContextValidationInput,
+    datasets: ContextItem[],
+    models: ContextItem[],
+    metrics: ContextItem[],
+    contextIssue: (severity: ContextIssueSeverity, message: string) => void,
+    itemIssue: (severity: ContextIssueSeverity, type: ContextItemType, item: ContextItem, message: string) => void,
+    issues: ContextIssue[]
+  ) {
+    const ids = (items: ContextItem[]) => items.map(item => item.id);
+    if (datasets.length > 0 && models.length > 0
+      && exportedPipelines(topology, ids(datasets), ids(models), ids(metrics)).length === 0) {
+      contextIssue('warning', 'No dataset is connected to a model in the graph; every dataset runs with every model and metric.');
+      return;
+    }
+    const exported = new Set(ids([...datasets, ...models, ...metrics]));
+    const items: Record<ContextItemType, ContextItem[]> = { dataset: context.datasets, model: context.models, metric: context.metrics };
+    for (const issue of topology.issues) {
+      if (issue.nodeType === 'processor') {
+        issues.push({ severity: 'warning', itemId: null, itemType: null, nodeId: issue.nodeId, message: `Processor ${topology.processors[issue.nodeId]?.processor_name || issue.nodeId}: ${issue.message}` });
+        continue;
+      }
+      // Items already reported as left out are not repeated
+      const item = items[issue.nodeType].find(i => i.id === issue.nodeId);
+      if (item && exported.has(item.id)) {
+        itemIssue('warning', issue.nodeType, item, issue.message);
+      }
+    }
+  }
+
+  private itemLabel(type: ContextItemType, item: ContextItem): string {
+    const prefix = MODULE_PREFIXES[type];
+    const name = item.data?.[`${prefix}_name`] || item.data?.[`${prefix}_id`];
+    const noun = type.charAt(0).toUpperCase() + type.slice(1);
+    if (!name) {
+      return `New ${type}`;
+    }
+    return item.data.selected_version ? `${noun} ${name} v${item.data.selected_version}` : `${noun} ${name}`;
+  }
+}
@@ -0,0 +1,108 @@
+import { ContextEdge, ContextState, ContextStoreService } from './context-store.service';
+import { GRAPH_DOCUMENT_FORMAT, GRAPH_DOCUMENT_SCHEMA_VERSION, GraphDocumentService } from './graph-document.service';
+
+const GRAPHS_KEY = 'causalbench-designer.graphs';
+
+function edge(id: string, sourceNodeId: string, sourcePortId: string, targetNodeId: string, targetPortId: string): ContextEdge {
+  return { id, sourceNodeId, sourcePortId, targetNodeId, targetPortId };
+}
+
+/** A context as the first node editor saved it: untyped ports and `data_file`/`ground_truth_file` mappings. */
+function legacyContext(): ContextState {
+  return {
+    name: 'legacy',
+    description: '',
+    task: { id: '', version: '', name: '' },
+    datasets: [{
+      id: 'd',
+      isSelected: false,
+      data: {
+        selected_version: '1',
+        dataset_version_info_list: [{ version: { version_number: 1, features: [{ file_name: 'sachs.csv', file_type: 'file1' }] } }],
+        file_mappings: { data_file: 'sachs.csv', ground_truth_file: 'truth.csv' }
+      }
+    }],
+    models: [{ id: 'm', data: {}, isSelected: false }],
+    metrics: [{ id: 'x', data: {}, isSelected: true }],
+    selectedItemId: 'x',
+    graph: {
+      positions: { d: { x: 0, y: 0 } },
+      processors: [{ id: 'p', data: {} }],
+      edges: [
+        edge('e1', 'd', 'output-1', 'p', 'input-1'),
+        edge('e2', 'p', 'output-1', 'm', 'input-1'),
+        edge('e3', 'm', 'output-1', 'x', 'input-1')
+      ]
+    }
+  };
+}
+
+function graphFile(schemaVersion: unknown, context: unknown = legacyContext(), view: unknown = { offset: { x: 5, y: 6 }, scale: 2 }): string {
+  return JSON.stringify({ format: GRAPH_DOCUMENT_FORMAT, schema_version: schemaVersion, saved_at: 'then', name: 'old graph', context, view });
+}
+
+describe('GraphDocumentService', () => {
+  let service: GraphDocumentService;
+
+  beforeEach(() => {
+    localStorage.clear();
+    service = new GraphDocumentService(new ContextStoreService());
+  });
+
+  it('migrates a version 1 graph to typed ports and current file mappings', () => {
+    const document = service.parse(graphFile(1));
+
+    expect(document.schema_version).toBe(GRAPH_DOCUMENT_SCHEMA_VERSION);
+    expect(document.context.graph.edges).toEqual([
+      edge('e1', 'd', 'data', 'p', 'input'),
+      edge('e2', 'p', 'output', 'm', 'data'),
+      edge('e3', 'm', 'prediction', 'x', 'prediction')
+    ]);
+    expect(document.context.datasets[0].data.file_mappings).toEqual({
+      data: 'sachs.csv',
+      ground_truth: 'truth.csv',
+      generic_data: 'file1',
+      generic_ground_truth: 'truth.csv'
+    });
+    expect(document.context.selectedItemId).toBeNull();
+    expect(document.view).toEqual({ offset: { x: 5, y: 6 }, scale: 2 });
+  });
+
+  it('runs only the later migrations on a version 2 graph', () => {
+    const document = service.parse(graphFile(2));
+
+    // Version 2 files already have typed ports, so legacy ids are left alone
+    expect(document.context.graph.edges[0]).toEqual(edge('e1', 'd', 'output-1', 'p', 'input-1'));
+    expect(document.context.datasets[0].data.file_mappings.generic_data).toBe('file1');
+  });
+
+  it('opens a current graph unchanged and falls back to the default view', () => {
+    const context = { ...legacyContext(), datasets: [] };
+    const document = service.parse(graphFile(GRAPH_DOCUMENT_SCHEMA_VERSION, context, { scale: -1 }));
+
+    expect(document.context.graph.edges).toEqual(context.graph.edges);
+    expect(document.view).toEqual({ offset: { x: 0, y: 0 }, scale: 1 });
+  });
+
+  it('refuses files it cannot read', () => {
+    expect(() => service.parse('{')).toThrowError('The selected file is not valid JSON.');
+    expect(() => service.parse('{"format": "other"}')).toThrowError('The selected file is not a CausalBench+ Designer graph.');
+    expect(() => service.parse(graphFile(0))).toThrowError('The graph file has no valid schema version.');
+    expect(() => service.parse(graphFile(GRAPH_DOCUMENT_SCHEMA_VERSION + 1))).toThrowError(/only supports up to version/);
+    expect(() => service.parse(graphFile(1, { name: 'broken' }))).toThrowError('The graph file does not contain a readable context.');
+  });
+
+  it('migrates graphs saved in the browser and skips broken ones', () => {
+    localStorage.setItem(GRAPHS_KEY, JSON.stringify([
+      { id: 'old', name: 'old graph', savedAt: 1, document: JSON.parse(graphFile(1)) },
+      { id: 'broken', name: 'broken', savedAt: 2, document: { format: 'other' } }
+    ]));
+    spyOn(console, 'warn');
+
+    const saved = new GraphDocumentService(new ContextStoreService()).saved;
+
+    expect(saved.map(graph => graph.id)).toEqual(['old']);
+    expect(saved[0].document.context.graph.edges[2]).toEqual(edge('e3', 'm', 'prediction', 'x', 'prediction'));
+    expect(console.warn).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,179 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject } from 'rxjs';
+import { ContextNodePosition, ContextState, ContextStoreService, createContextId, isContextState } from './context-store.service';
+import { normalizeContextFileMappings } from '../utils/file-mappings';
+import { canonicalEdges } from '../utils/node-ports';
+
+/** Bump when the graph document layout changes, and add a migration from the previous version to GRAPH_MIGRATIONS. */
+export const GRAPH_DOCUMENT_SCHEMA_VERSION = 3;
+export const GRAPH_DOCUMENT_FORMAT = 'causalbench-designer-graph';
+
+/** Pan and zoom of the node editor canvas. */
+export interface GraphView {
+  offset: ContextNodePosition;
+  scale: number;
+}
+
+/**
+ * A node editor graph: the whole context (items, processors, edges and node positions) plus the canvas view.
+ * Unlike a project file, item data is kept as it was, so the graph opens without the catalog.
+ */
+export interface GraphDocument {
+  format: string;
+  schema_version: number;
+  saved_at: string;
+  name: string;
+  context: ContextState;
+  view: GraphView;
+}
+
+/** A graph document kept in this browser. */
+export interface SavedGraph {
+  id: string;
+  name: string;
+  /** Epoch milliseconds */
+  savedAt: number;
+  document: GraphDocument;
+}
+
+const GRAPHS_STORAGE_KEY = 'causalbench-designer.graphs';
+const DEFAULT_VIEW: GraphView = { offset: { x: 0, y: 0 }, scale: 1 };
+
+/** Upgrades a raw document of schema version N (the key) to version N + 1. */
+const GRAPH_MIGRATIONS: Record<number, (raw: any) => any> = {
+  // Version 2 typed the ports: the single `input-1`/`output-1` port of each node got a named id per data type
+  1: raw => isContextState(raw.context)
+    ? { ...raw, context: { ...raw.context, graph: { ...raw.context.graph, edges: canonicalEdges(raw.context) } } }
+    : raw,
+  // Version 3 stores dataset file mappings under the list designer's keys, with generic file names
+  2: raw => isContextState(raw.context) ? { ...raw, context: normalizeContextFileMappings(raw.context) } : raw
+};
+
+/** Saves and opens node editor graphs, as JSON files and in localStorage. */
+@Injectable({
+  providedIn: 'root'
+})
+export class GraphDocumentService {
+
+  private readonly savedSubject = new BehaviorSubject<SavedGraph[]>(this.readSaved());
+  /** Graphs saved in this browser, newest first */
+  readonly saved$ = this.savedSubject.asObservable();
+
+  constructor(private contextStore: ContextStoreService) { }
+
+  get saved(): SavedGraph[] {
+    return this.savedSubject.value;
+  }
+
+  /** Document for the current context and the given canvas view. */
+  create(name: string, view: GraphView): GraphDocument {
+    return {
+      format: GRAPH_DOCUMENT_FORMAT,
+      schema_version: GRAPH_DOCUMENT_SCHEMA_VERSION,
+      saved_at: new Date().toISOString(),
+      name,
+      context: { ...this.contextStore.state, selectedItemId: null },
+      view: { offset: { ...view.offset }, scale: view.scale }
+    };
+  }
+
+  toJson(document: GraphDocument): string {
+    return JSON.stringify(document, null, 2);
+  }
+
+  /** Parse, migrate and validate a graph file. Throws an Error describing the problem if the file is not a usable graph. */
+  parse(text: string): GraphDocument {
+    let raw: any;
+    try {
+      raw = JSON.parse(text);
+    } catch {
+      throw new Error('The selected file is not valid JSON.');
+    }
+    return this.validate(raw);
+  }
+
+  /** Replace the current context with the document's graph (undoable) and return the canvas view to show it with. */
+  open(document: GraphDocument): GraphView {
+    this.contextStore.restore(document.context, `Open graph ${document.name || 'Untitled graph'}`);
+    return document.view;
+  }
+
+  /** Save to this browser; a saved graph with the same name is replaced. */
+  saveToBrowser(document: GraphDocument) {
+    const entry: SavedGraph = {
+      id: this.saved.find(g => g.name === document.name)?.id ?? createContextId('graph'),
+      name: document.name,
+      savedAt: Date.now(),
+      document
+    };
+    this.writeSaved([entry, ...this.saved.filter(g => g.id !== entry.id)]);
+  }
+
+  remove(id: string) {
+    this.writeSaved(this.saved.filter(g => g.id !== id));
+  }
+
+  private validate(raw: any): GraphDocument {
+    if (!raw || typeof raw !== 'object' || raw.format !== GRAPH_DOCUMENT_FORMAT) {
+      throw new Error('The selected file is not a CausalBench+ Designer graph.');
+    }
+    let version = Number(raw.schema_version);
+    if (!Number.isInteger(version) || version < 1) {
+      throw new Error('The graph file has no valid schema version.');
+    }
+    if (version > GRAPH_DOCUMENT_SCHEMA_VERSION) {
+      throw new Error(`The graph file uses schema version ${version}, but this Designer only supports up to version ${GRAPH_DOCUMENT_SCHEMA_VERSION}. Please update the Designer.`);
+    }
+    for (; version < GRAPH_DOCUMENT_SCHEMA_VERSION; version++) {
+      raw = GRAPH_MIGRATIONS[version](raw);
+    }
+
+    if (!isContextState(raw.context)) {
+      throw new Error('The graph file does not contain a readable context.');
+    }
+    const offset = raw.view?.offset;
+    const scale = Number(raw.view?.scale);
+    return {
+      format: GRAPH_DOCUMENT_FORMAT,
+      schema_version: GRAPH_DOCUMENT_SCHEMA_VERSION,
+      saved_at: String(raw.saved_at ?? ''),
+      name: String(raw.name ?? ''),
+      context: { ...raw.context, selectedItemId: null },
+      view: {
+        offset: Number.isFinite(offset?.x) && Number.isFinite(offset?.y) ? { x: offset.x, y: offset.y } : { ...DEFAULT_VIEW.offset },
+        scale: Number.isFinite(scale) && scale > 0 ? scale : DEFAULT_VIEW.scale
+      }
+    };
+  }
+
+  private writeSaved(graphs: SavedGraph[]) {
+    try {
+      localStorage.setItem(GRAPHS_STORAGE_KEY, JSON.stringify(graphs));
+    } catch (error) {
+      throw new Error(`The graph could not be saved in this browser (storage full?): ${error}`);
+    }
+    this.savedSubject.next(graphs);
+  }
+
+  /** Entries that fail to parse or migrate are skipped, so one broken graph does not hide the others. */
+  private readSaved(): SavedGraph[] {
+    let stored: unknown;
+    try {
+      stored = JSON.parse(localStorage.getItem(GRAPHS_STORAGE_KEY) || '[]');
+    } catch {
+      console.warn('Ignoring unreadable saved graphs in localStorage');
+      return [];
+    }
+    const graphs: SavedGraph[] = [];
+    for (const entry of Array.isArray(stored) ? stored : []) {
+      try {
+        if (typeof entry?.id === 'string' && typeof entry.savedAt === 'number') {
+          graphs.push({ id: entry.id, name: String(entry.name ?? ''), savedAt: entry.savedAt, document: this.validate(entry.document) });
+        }
+      } catch (error) {
+        console.warn('Ignoring saved graph', entry?.name, error);
+      }
+    }
+    return graphs.sort((a, b) => b.savedAt - a.savedAt);
+  }
+}
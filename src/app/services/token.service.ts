@@ -1,5 +1,6 @@
 import { Injectable } from '@angular/core';
 import { ReplaySubject } from 'rxjs';
+import { AppConfigService } from './app-config.service';
 
 @Injectable({
   providedIn: 'root'
@@ -8,21 +9,29 @@ export class TokenService {
 
   token$ = new ReplaySubject<string>(1);
 
-  constructor() {
+  constructor(private appConfig: AppConfigService) {
     this.loadToken();
   }
 
   private loadToken() {
     let token = sessionStorage.getItem('token') || '';
+
+    if (this.appConfig.offline) {
+      // The fixture catalog needs no token, so skip the handshake with the portal
+      this.token$.next(token);
+      return;
+    }
     
     if (token) {
       // If token exists in session storage, set it immediately
       this.setToken(token);
     }
     else {
+      const portalUrl = this.appConfig.portalUrl;
+
       // Check if the window has an opener
       if (!window.opener) {
-        window.open('https://causalbench.org', '_self');
+        window.open(portalUrl, '_self');
       }
 
       // When the app loads, ask for token from opener
@@ -30,7 +39,7 @@ export class TokenService {
 
       // Fallback timeout to redirect if no response
       let timeout = setTimeout(() => {
-        window.open('https://causalbench.org', '_self');
+        window.open(portalUrl, '_self');
       }, 1000);
       
       // Listen for the token from parent
@@ -39,8 +48,8 @@ export class TokenService {
         clearTimeout(timeout);
 
         // Ensure the message is from the expected origin
-        if (event.origin !== 'https://causalbench.org' && event.origin !== 'https://www.causalbench.org') {
-          window.open('https://causalbench.org', '_self');
+        if (!this.appConfig.isAllowedTokenOrigin(event.origin)) {
+          window.open(portalUrl, '_self');
         }
 
         // Obtain the token from the event data
@@ -48,7 +57,7 @@ export class TokenService {
 
         // Ensure that a token was received
         if (!token) {
-          window.open('https://causalbench.org', '_self');
+          window.open(portalUrl, '_self');
         }
         
         // Store the token
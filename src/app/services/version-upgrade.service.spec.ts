@@ -0,0 +1,117 @@
+import { Feature, Hyperparameter, ModuleVersion, VersionInfo } from '../models/catalog';
+import { ContextStoreService } from './context-store.service';
+import { VersionUpgradeCatalog, VersionUpgradeService } from './version-upgrade.service';
+
+function hyperparameter(name: string, dataType: string): Hyperparameter {
+  return { hyperparameter_name: name, hyperparameter_value: '', hyperparameter_data_type: dataType, hyperparameter_description: '', allowed_values: [] };
+}
+
+function versionInfo(version_number: number, hyperparameters: Hyperparameter[], features: Feature[] = []): VersionInfo {
+  const version: ModuleVersion = {
+    version_number,
+    hyperparameters,
+    features,
+    tasks: [],
+    min_row_count: null,
+    max_row_count: null,
+    min_column_count: null,
+    max_column_count: null
+  };
+  return {
+    version,
+    description: { description_text: '', author: '' },
+    metadata: { visibility: 'public', url: '', upload_timestamp: '' }
+  };
+}
+
+const MODEL = {
+  modl_id: 7,
+  modl_name: 'NOTEARS',
+  modl_version_info_list: [
+    versionInfo(1, [hyperparameter('alpha', 'float'), hyperparameter('legacy', 'int')]),
+    versionInfo(2, [hyperparameter('alpha', 'int'), hyperparameter('beta', 'float')])
+  ]
+};
+
+const DATASET = {
+  dataset_id: 3,
+  dataset_name: 'Sachs',
+  dataset_version_info_list: [
+    versionInfo(1, [], [{ file_name: 'sachs.csv', file_type: 'file1' }, { file_name: 'truth.csv', file_type: 'file2' }]),
+    versionInfo(2, [], [{ file_name: 'sachs.csv', file_type: 'file2' }])
+  ]
+};
+
+const CATALOG = { datasets: [DATASET], models: [MODEL], metrics: [] } as unknown as VersionUpgradeCatalog;
+
+describe('VersionUpgradeService', () => {
+  let store: ContextStoreService;
+  let service: VersionUpgradeService;
+
+  beforeEach(() => {
+    store = new ContextStoreService();
+    service = new VersionUpgradeService(store);
+  });
+
+  it('carries hyperparameter values forward with the new types and drops removed parameters', () => {
+    store.addItem('model', {
+      ...MODEL,
+      selected_version: '1',
+      hyperparameter_sets: [
+        { name: 'a', parameters: { alpha: { value: '2', data_type: 'float' }, legacy: { value: '1', data_type: 'int' } } },
+        { name: 'b', parameters: { alpha: { value: '0.5', data_type: 'float' } } }
+      ]
+    });
+
+    const [upgrade] = service.findUpgrades(store.state, CATALOG);
+
+    expect(upgrade.currentVersion).toBe('1');
+    expect(upgrade.latestVersion).toBe('2');
+    expect(upgrade.droppedParameters).toEqual(['legacy']);
+    expect(upgrade.data.hyperparameter_sets).toEqual([
+      { name: 'a', parameters: { alpha: { value: '2', data_type: 'int' } } },
+      { name: 'b', parameters: { alpha: { value: '0.5', data_type: 'int' } } }
+    ]);
+    expect(upgrade.notes).toEqual(['Set 2, alpha: Expected a whole number (invalid for v2)']);
+    expect(upgrade.hyperparameterChanges.map(row => [row.label, row.change]).sort()).toEqual([
+      ['alpha', 'changed'], ['beta', 'added'], ['legacy', 'removed']
+    ]);
+  });
+
+  it('remaps files that are still part of the new version and clears the others', () => {
+    store.addItem('dataset', {
+      ...DATASET,
+      selected_version: '1',
+      file_mappings: { data: 'sachs.csv', generic_data: 'file1', ground_truth: 'truth.csv', generic_ground_truth: 'file2' }
+    });
+
+    const [upgrade] = service.findUpgrades(store.state, CATALOG);
+
+    expect(upgrade.data.file_mappings).toEqual({ data: 'sachs.csv', generic_data: 'file2' });
+    expect(upgrade.notes).toEqual(['The ground-truth file truth.csv is not part of v2; its mapping is cleared.']);
+  });
+
+  it('skips items on the latest version and notes upgrades that create a duplicate', () => {
+    store.addItem('model', { ...MODEL, selected_version: '2' });
+    store.addItem('model', { ...MODEL, selected_version: '1' });
+
+    const upgrades = service.findUpgrades(store.state, CATALOG);
+
+    expect(upgrades.length).toBe(1);
+    expect(upgrades[0].itemId).toBe(store.state.models[1].id);
+    expect(upgrades[0].notes).toEqual(['The context already has model NOTEARS v2; the upgrade makes this a duplicate entry.']);
+  });
+
+  it('applies every upgrade as one undoable command', () => {
+    store.addItem('model', { ...MODEL, selected_version: '1' });
+    store.addItem('dataset', { ...DATASET, selected_version: '1' });
+    const before = store.state;
+
+    service.apply(service.findUpgrades(before, CATALOG));
+
+    expect(store.state.models[0].data.selected_version).toBe('2');
+    expect(store.state.datasets[0].data.selected_version).toBe('2');
+    store.undo();
+    expect(store.state).toBe(before);
+  });
+});
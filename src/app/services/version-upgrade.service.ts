@@ -0,0 +1,167 @@
+import { Injectable } from '@angular/core';
+import { VersionInfo } from '../models/catalog';
+import { ContextItemType, ContextProjectCatalog } from './context-project.service';
+import { ContextItem, ContextState, ContextStoreService } from './context-store.service';
+import { describeHyperparameterIssues, findHyperparameterIssues } from '../utils/hyperparameter-validation';
+import { VersionDiffRow, compareVersionNumbers, diffVersions } from '../utils/version-diff';
+
+/** A context item pinned to an older version than the newest one in the catalog. */
+export interface VersionUpgrade {
+  itemId: string;
+  itemType: ContextItemType;
+  name: string;
+  currentVersion: string;
+  latestVersion: string;
+  /** Hyperparameter schema changes between the two versions (added, removed and changed parameters) */
+  hyperparameterChanges: VersionDiffRow[];
+  /** Parameters set in the item's hyperparameter sets that the new version no longer has; they are dropped */
+  droppedParameters: string[];
+  /** Other things to check after upgrading: carried values the new schema rejects, file mappings that were cleared */
+  notes: string[];
+  /** Item data after the upgrade */
+  data: any;
+}
+
+export type VersionUpgradeCatalog = Pick<ContextProjectCatalog, 'datasets' | 'models' | 'metrics'>;
+
+const ITEM_FIELDS: Record<ContextItemType, { prefix: 'dataset' | 'modl' | 'metric'; catalog: keyof VersionUpgradeCatalog }> = {
+  dataset: { prefix: 'dataset', catalog: 'datasets' },
+  model: { prefix: 'modl', catalog: 'models' },
+  metric: { prefix: 'metric', catalog: 'metrics' }
+};
+
+// Mappings store the file name with its generic name (file1, file2, ...)
+const FILE_MAPPINGS: { key: string; genericKey: string; label: string }[] = [
+  { key: 'data', genericKey: 'generic_data', label: 'data' },
+  { key: 'ground_truth', genericKey: 'generic_ground_truth', label: 'ground-truth' }
+];
+
+/**
+ * Finds context items with a newer version available and upgrades them, carrying hyperparameter sets and
+ * file mappings forward as far as the new version allows.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class VersionUpgradeService {
+
+  constructor(private contextStore: ContextStoreService) { }
+
+  /**
+   * Upgrades for every configured item of the context. The catalog entry is preferred, since the item data
+   * may be a snapshot from when the item was added; entries not in the loaded catalog page use their own version list.
+   */
+  findUpgrades(context: ContextState, catalog: VersionUpgradeCatalog): VersionUpgrade[] {
+    const upgrades: VersionUpgrade[] = [];
+    const collect = (type: ContextItemType, items: ContextItem[]) => {
+      for (const item of items) {
+        const upgrade = this.findUpgrade(type, item, items, catalog);
+        if (upgrade) {
+          upgrades.push(upgrade);
+        }
+      }
+    };
+    collect('dataset', context.datasets);
+    collect('model', context.models);
+    collect('metric', context.metrics);
+    return upgrades;
+  }
+
+  /** Apply the upgrades as one undoable command. */
+  apply(upgrades: VersionUpgrade[]) {
+    if (upgrades.length === 0) {
+      return;
+    }
+    const label = upgrades.length === 1
+      ? `Upgrade ${upgrades[0].name} to v${upgrades[0].latestVersion}`
+      : `Upgrade ${upgrades.length} items to their latest versions`;
+    this.contextStore.batch(label, () => {
+      for (const upgrade of upgrades) {
+        this.contextStore.updateItem(upgrade.itemId, upgrade.data);
+      }
+    });
+  }
+
+  private findUpgrade(type: ContextItemType, item: ContextItem, siblings: ContextItem[], catalog: VersionUpgradeCatalog): VersionUpgrade | null {
+    const { prefix } = ITEM_FIELDS[type];
+    const id = item.data?.[`${prefix}_id`];
+    const currentVersion = item.data?.selected_version;
+    if (!id || !currentVersion) {
+      return null;
+    }
+
+    const descriptor = (catalog[ITEM_FIELDS[type].catalog] as any[]).find(d => String(d[`${prefix}_id`]) === String(id)) ?? item.data;
+    const versions: VersionInfo[] = descriptor[`${prefix}_version_info_list`] ?? [];
+    const latest = versions.reduce<VersionInfo | null>((newest, v) =>
+      !newest || compareVersionNumbers(String(v.version.version_number), String(newest.version.version_number)) > 0 ? v : newest, null);
+    if (!latest || compareVersionNumbers(String(latest.version.version_number), String(currentVersion)) <= 0) {
+      return null;
+    }
+
+    const latestVersion = String(latest.version.version_number);
+    // The pinned version may be gone from the server; the diff is then left empty
+    const current = versions.find(v => String(v.version.version_number) === String(currentVersion))
+      ?? (item.data[`${prefix}_version_info_list`] ?? []).find((v: VersionInfo) => String(v.version.version_number) === String(currentVersion));
+    const hyperparameterChanges = current
+      ? (diffVersions(current, latest).find(section => section.title === 'Hyperparameters')?.rows ?? []).filter(row => row.change !== 'unchanged')
+      : [];
+
+    const data: any = { ...descriptor, is_new: false, selected_version: latestVersion };
+    const droppedParameters = new Set<string>();
+    const notes: string[] = [];
+
+    if (siblings.some(other => other.id !== item.id
+      && String(other.data?.[`${prefix}_id`]) === String(id) && String(other.data?.selected_version) === latestVersion)) {
+      notes.push(`The context already has ${type} ${data[`${prefix}_name`] || id} v${latestVersion}; the upgrade makes this a duplicate entry.`);
+    }
+
+    if (Array.isArray(item.data.hyperparameter_sets)) {
+      data.hyperparameter_sets = item.data.hyperparameter_sets.map((set: any) => {
+        const parameters: Record<string, any> = {};
+        for (const [name, entry] of Object.entries((set.parameters ?? {}) as Record<string, any>)) {
+          const param = latest.version.hyperparameters.find(p => p.hyperparameter_name === name);
+          if (!param) {
+            droppedParameters.add(name);
+            continue;
+          }
+          const value = entry && typeof entry === 'object' ? entry.value : entry;
+          parameters[name] = { value, data_type: param.hyperparameter_data_type };
+        }
+        return { ...set, parameters };
+      });
+      const issues = findHyperparameterIssues(data.hyperparameter_sets, latest.version.hyperparameters);
+      notes.push(...describeHyperparameterIssues(issues).map(line => `${line} (invalid for v${latestVersion})`));
+    }
+
+    if (item.data.file_mappings) {
+      const mappings = { ...item.data.file_mappings };
+      for (const mapping of FILE_MAPPINGS) {
+        const fileName = mappings[mapping.key];
+        if (!fileName) {
+          continue;
+        }
+        const feature = latest.version.features.find(f => f.file_name === fileName);
+        if (!feature) {
+          delete mappings[mapping.key];
+          delete mappings[mapping.genericKey];
+          notes.push(`The ${mapping.label} file ${fileName} is not part of v${latestVersion}; its mapping is cleared.`);
+        } else {
+          mappings[mapping.genericKey] = feature.file_type;
+        }
+      }
+      data.file_mappings = mappings;
+    }
+
+    return {
+      itemId: item.id,
+      itemType: type,
+      name: String(descriptor[`${prefix}_name`] || id),
+      currentVersion: String(currentVersion),
+      latestVersion,
+      hyperparameterChanges,
+      droppedParameters: Array.from(droppedParameters),
+      notes,
+      data
+    };
+  }
+}
@@ -0,0 +1,54 @@
+import { Feature, VersionInfo } from '../models/catalog';
+import { ContextState } from '../services/context-store.service';
+
+/**
+ * File mapping of a dataset item, as stored in the context: the chosen files, and their generic names (the
+ * feature `file_type`, e.g. file1) that the export refers to.
+ */
+export interface DatasetFileMappings {
+  data: string;
+  ground_truth: string;
+  generic_data: string;
+  generic_ground_truth: string;
+}
+
+/** Mappings for the chosen files; a file that is not among `features` keeps its own name as generic name. */
+export function createFileMappings(dataFile: string, groundTruthFile: string, features: Feature[]): DatasetFileMappings {
+  const generic = (fileName: string) => fileName ? features.find(f => f.file_name === fileName)?.file_type ?? fileName : '';
+  return {
+    data: dataFile,
+    ground_truth: groundTruthFile,
+    generic_data: generic(dataFile),
+    generic_ground_truth: generic(groundTruthFile)
+  };
+}
+
+/**
+ * Dataset item data with mappings written by older node editors (`data_file`/`ground_truth_file`, no generic
+ * names) converted to the current keys; other data is returned as it is.
+ */
+export function normalizeFileMappings(data: any): any {
+  const mappings = data?.file_mappings;
+  if (!mappings || (mappings.data_file === undefined && mappings.ground_truth_file === undefined)) {
+    return data;
+  }
+  const { data_file, ground_truth_file, ...rest } = mappings;
+  const version = ((data.dataset_version_info_list ?? []) as VersionInfo[])
+    .find(v => String(v.version?.version_number) === String(data.selected_version));
+  return {
+    ...data,
+    file_mappings: {
+      ...rest,
+      ...createFileMappings(rest.data || data_file || '', rest.ground_truth || ground_truth_file || '', version?.version.features ?? [])
+    }
+  };
+}
+
+/** The context with the file mappings of every dataset converted by normalizeFileMappings. */
+export function normalizeContextFileMappings(context: ContextState): ContextState {
+  const datasets = context.datasets.map(item => {
+    const data = normalizeFileMappings(item.data);
+    return data === item.data ? item : { ...item, data };
+  });
+  return datasets.every((item, index) => item === context.datasets[index]) ? context : { ...context, datasets };
+}
@@ -0,0 +1,122 @@
+import { ContextItemType } from '../services/context-project.service';
+import { ContextState } from '../services/context-store.service';
+import { canonicalEdges, fittingEdges } from './node-ports';
+
+/** One dataset → model path of the node editor graph, with the metrics that evaluate the model. */
+export interface GraphPipeline {
+  datasetId: string;
+  modelId: string;
+  /** Processors between the dataset and the model, in path order */
+  processorIds: string[];
+  metricIds: string[];
+  /** Processors between the model and its metrics */
+  outputProcessorIds: string[];
+}
+
+/** A node that does not take part in any pipeline (or a model that no metric evaluates). */
+export interface GraphTopologyIssue {
+  nodeId: string;
+  nodeType: ContextItemType | 'processor';
+  message: string;
+}
+
+export interface GraphTopology {
+  pipelines: GraphPipeline[];
+  issues: GraphTopologyIssue[];
+  /** Processor node data (a ProcessorConfig once configured), by node id */
+  processors: Record<string, any>;
+}
+
+/**
+ * Walk the edges of the node editor graph: every path from a dataset to a model, through any number of
+ * processors, is a pipeline, and the metrics reachable from the model (again through processors) evaluate it.
+ * Edges into datasets, out of metrics, out of a dataset's ground-truth port, skipping the model (dataset → metric)
+ * or between ports that no longer fit their nodes do not count.
+ */
+export function analyzeGraphTopology(context: ContextState): GraphTopology {
+  const types = new Map<string, ContextItemType | 'processor'>();
+  context.datasets.forEach(item => types.set(item.id, 'dataset'));
+  context.models.forEach(item => types.set(item.id, 'model'));
+  context.metrics.forEach(item => types.set(item.id, 'metric'));
+  context.graph.processors.forEach(processor => types.set(processor.id, 'processor'));
+
+  // Edges left over from an earlier configuration of their nodes are not wiring
+  const edges = fittingEdges(context);
+  const targets = new Map<string, string[]>();
+  for (const edge of canonicalEdges({ ...context, graph: { ...context.graph, edges } })) {
+    if (edge.sourcePortId === 'ground_truth') {
+      continue;
+    }
+    targets.set(edge.sourceNodeId, [...(targets.get(edge.sourceNodeId) ?? []), edge.targetNodeId]);
+  }
+
+  /** Nodes of `type` reachable from `start` through processors only, each with the processors passed on the first path found. */
+  const reach = (start: string, type: ContextItemType): Map<string, string[]> => {
+    const found = new Map<string, string[]>();
+    const visit = (nodeId: string, path: string[], visited: Set<string>) => {
+      for (const target of targets.get(nodeId) ?? []) {
+        if (visited.has(target)) {
+          continue;
+        }
+        if (types.get(target) === type) {
+          if (!found.has(target)) {
+            found.set(target, path);
+          }
+        } else if (types.get(target) === 'processor') {
+          visit(target, [...path, target], new Set([...visited, target]));
+        }
+      }
+    };
+    visit(start, [], new Set([start]));
+    return found;
+  };
+
+  const pipelines: GraphPipeline[] = [];
+  const metricsByModel = new Map<string, Map<string, string[]>>();
+  for (const dataset of context.datasets) {
+    for (const [modelId, processorIds] of reach(dataset.id, 'model')) {
+      if (!metricsByModel.has(modelId)) {
+        metricsByModel.set(modelId, reach(modelId, 'metric'));
+      }
+      const metrics = metricsByModel.get(modelId)!;
+      pipelines.push({
+        datasetId: dataset.id,
+        modelId,
+        processorIds,
+        metricIds: Array.from(metrics.keys()),
+        outputProcessorIds: Array.from(new Set(Array.from(metrics.values()).flat()))
+      });
+    }
+  }
+
+  const used = new Set(pipelines.flatMap(p => [p.datasetId, p.modelId, ...p.processorIds, ...p.metricIds, ...p.outputProcessorIds]));
+  const issues: GraphTopologyIssue[] = [];
+  const unused = (nodeType: GraphTopologyIssue['nodeType'], ids: string[], message: string) => {
+    for (const nodeId of ids.filter(id => !used.has(id))) {
+      issues.push({ nodeId, nodeType, message });
+    }
+  };
+  unused('dataset', context.datasets.map(item => item.id), 'not connected to any model; left out of the export.');
+  unused('model', context.models.map(item => item.id), 'no dataset is connected to it; left out of the export.');
+  unused('metric', context.metrics.map(item => item.id), 'not connected to any model with a dataset; left out of the export.');
+  unused('processor', context.graph.processors.map(p => p.id), 'not between a dataset and a model, or a model and a metric; ignored.');
+  for (const [modelId, metrics] of metricsByModel) {
+    if (metrics.size === 0) {
+      issues.push({ nodeId: modelId, nodeType: 'model', message: 'no metric is connected to it; its runs are not evaluated.' });
+    }
+  }
+  for (const processor of context.graph.processors) {
+    if (used.has(processor.id) && !processor.data?.processor_id) {
+      issues.push({ nodeId: processor.id, nodeType: 'processor', message: 'not configured; the data passes through unchanged.' });
+    }
+  }
+  const processors = Object.fromEntries(context.graph.processors.map(p => [p.id, p.data]));
+  return { pipelines, issues, processors };
+}
+
+/** Pipelines whose dataset and model are both exported; the metrics are narrowed to the exported ones. */
+export function exportedPipelines(topology: GraphTopology, datasetIds: string[], modelIds: string[], metricIds: string[]): GraphPipeline[] {
+  return topology.pipelines
+    .filter(p => datasetIds.includes(p.datasetId) && modelIds.includes(p.modelId))
+    .map(p => ({ ...p, metricIds: p.metricIds.filter(id => metricIds.includes(id)) }));
+}
@@ -0,0 +1,103 @@
+import {
+  MAX_SWEEP_COMBINATIONS,
+  SweepError,
+  SweepParameter,
+  countSweepCombinations,
+  expandSweep,
+  expandSweepParameter,
+  splitSweepValues
+} from './hyperparameter-sweep';
+
+function parameter(name: string, data_type: string, fields: Partial<SweepParameter>): SweepParameter {
+  return { name, data_type, mode: 'list', values: '', start: '', stop: '', step: '', count: '', ...fields };
+}
+
+describe('splitSweepValues', () => {
+  it('keeps lists, dicts and quoted commas together', () => {
+    expect(splitSweepValues('1, [1, 2], {\'a\': 1, \'b\': 2}, "x, y",  , 3')).toEqual(['1', '[1, 2]', '{\'a\': 1, \'b\': 2}', '"x, y"', '3']);
+  });
+});
+
+describe('expandSweepParameter', () => {
+  it('drops repeated list values', () => {
+    expect(expandSweepParameter(parameter('alpha', 'float', { values: '0.1, 0.2, 0.1' }))).toEqual(['0.1', '0.2']);
+  });
+
+  it('leaves a parameter without values at its default', () => {
+    expect(expandSweepParameter(parameter('alpha', 'float', { mode: 'range' }))).toEqual([]);
+  });
+
+  it('includes the stop of a decimal range without floating point noise', () => {
+    expect(expandSweepParameter(parameter('alpha', 'float', { mode: 'range', start: '0.1', stop: '0.5', step: '0.1' })))
+      .toEqual(['0.1', '0.2', '0.3', '0.4', '0.5']);
+  });
+
+  it('stops an integer range before a stop the steps do not land on', () => {
+    expect(expandSweepParameter(parameter('depth', 'int', { mode: 'range', start: '10', stop: '1', step: '-4' })))
+      .toEqual(['10', '6', '2']);
+  });
+
+  it('spaces a log range geometrically from start to stop', () => {
+    expect(expandSweepParameter(parameter('lr', 'float', { mode: 'logRange', start: '0.001', stop: '1', count: '4' })))
+      .toEqual(['0.001', '0.01', '0.1', '1']);
+  });
+
+  it('drops the values an integer log range rounds together', () => {
+    expect(expandSweepParameter(parameter('trees', 'int', { mode: 'logRange', start: '1', stop: '4', count: '5' })))
+      .toEqual(['1', '2', '3', '4']);
+  });
+
+  it('refuses ranges that cannot be expanded', () => {
+    const invalid: Partial<SweepParameter>[] = [
+      { mode: 'range', start: '0', stop: '1', step: '0' },
+      { mode: 'range', start: '0', stop: '1', step: '-0.5' },
+      { mode: 'range', start: '0', stop: 'one', step: '1' },
+      { mode: 'range', start: '0', stop: String(MAX_SWEEP_COMBINATIONS), step: '1' },
+      { mode: 'logRange', start: '0', stop: '1', count: '3' },
+      { mode: 'logRange', start: '1', stop: '10', count: '1' },
+      { mode: 'logRange', start: '1', stop: '10', count: '2.5' }
+    ];
+    for (const fields of invalid) {
+      expect(() => expandSweepParameter(parameter('alpha', 'float', fields))).withContext(JSON.stringify(fields)).toThrowError(SweepError);
+    }
+  });
+
+  it('refuses whole-number ranges with decimal bounds and ranges of text parameters', () => {
+    expect(() => expandSweepParameter(parameter('depth', 'int', { mode: 'range', start: '0', stop: '1', step: '0.5' })))
+      .toThrowError(SweepError, 'depth: start, stop and step must be whole numbers');
+    expect(() => expandSweepParameter(parameter('kernel', 'str', { mode: 'range', start: '0', stop: '1', step: '1' })))
+      .toThrowError(SweepError, 'kernel: ranges need a numeric parameter, not str');
+  });
+});
+
+describe('expandSweep', () => {
+  it('builds one set per combination, first parameter varying slowest', () => {
+    const sets = expandSweep([
+      parameter('alpha', 'float', { mode: 'range', start: '0.5', stop: '1', step: '0.5' }),
+      parameter('kernel', 'str', { values: '\'rbf\', \'linear\'' }),
+      parameter('unswept', 'int', {})
+    ]);
+
+    expect(sets).toEqual([
+      { alpha: { value: '0.5', data_type: 'float' }, kernel: { value: '\'rbf\'', data_type: 'str' } },
+      { alpha: { value: '0.5', data_type: 'float' }, kernel: { value: '\'linear\'', data_type: 'str' } },
+      { alpha: { value: '1', data_type: 'float' }, kernel: { value: '\'rbf\'', data_type: 'str' } },
+      { alpha: { value: '1', data_type: 'float' }, kernel: { value: '\'linear\'', data_type: 'str' } }
+    ]);
+  });
+
+  it('generates nothing when no parameter is swept', () => {
+    const parameters = [parameter('alpha', 'float', {}), parameter('depth', 'int', { mode: 'logRange' })];
+    expect(expandSweep(parameters)).toEqual([]);
+    expect(countSweepCombinations(parameters)).toBe(0);
+  });
+
+  it('refuses a product over the combination limit that each parameter stays under', () => {
+    const parameters = [
+      parameter('a', 'int', { mode: 'range', start: '1', stop: '40', step: '1' }),
+      parameter('b', 'int', { mode: 'range', start: '1', stop: '40', step: '1' })
+    ];
+    expect(countSweepCombinations(parameters)).toBe(1600);
+    expect(() => expandSweep(parameters)).toThrowError(SweepError, `sweep: 1600 combinations exceed the limit of ${MAX_SWEEP_COMBINATIONS}`);
+  });
+});
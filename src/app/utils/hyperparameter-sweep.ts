@@ -0,0 +1,168 @@
+import { Hyperparameter } from '../models/catalog';
+import { hyperparameterKind } from './python-literal';
+
+/**
+ * Hyperparameter sweeps: every parameter gets a list of values, and the Cartesian product of those lists
+ * becomes one hyperparameter set per combination (the `hyperparameter_sets` of a model or metric entry).
+ */
+
+export type SweepMode = 'list' | 'range' | 'logRange';
+
+export interface SweepParameter {
+  name: string;
+  data_type: string;
+  mode: SweepMode;
+  /** Comma separated values (list mode); commas inside brackets or quotes do not split */
+  values: string;
+  start: string;
+  stop: string;
+  /** Increment (range mode) */
+  step: string;
+  /** Number of values, stop included (log-range mode) */
+  count: string;
+}
+
+/** Same shape as the sets built by hand in the item editors */
+export type SweepParameterValues = Record<string, { value: string; data_type: string }>;
+
+/** Sweeps larger than this are refused, so a typo cannot freeze the page. */
+export const MAX_SWEEP_COMBINATIONS = 1000;
+
+export class SweepError extends Error {
+  constructor(message: string, public readonly parameter: string) {
+    super(`${parameter}: ${message}`);
+    this.name = 'SweepError';
+  }
+}
+
+export function createSweepParameter(hyperparameter: Hyperparameter): SweepParameter {
+  return {
+    name: hyperparameter.hyperparameter_name,
+    data_type: hyperparameter.hyperparameter_data_type,
+    mode: 'list',
+    values: '',
+    start: '',
+    stop: '',
+    step: '',
+    count: ''
+  };
+}
+
+/** Whether a parameter can be swept over a numeric range. */
+export function supportsRange(dataType: string): boolean {
+  const kind = hyperparameterKind(dataType);
+  return kind === 'int' || kind === 'float' || kind === 'any';
+}
+
+/** Split a comma separated list, keeping `[1, 2]`, `{'a': 1}` and quoted text together. */
+export function splitSweepValues(text: string): string[] {
+  const values: string[] = [];
+  let current = '';
+  let depth = 0;
+  let quote = '';
+  for (const ch of text) {
+    if (quote) {
+      quote = ch === quote ? '' : quote;
+    } else if (ch === '"' || ch === '\'') {
+      quote = ch;
+    } else if ('[({'.includes(ch)) {
+      depth++;
+    } else if ('])}'.includes(ch)) {
+      depth = Math.max(0, depth - 1);
+    } else if (ch === ',' && depth === 0) {
+      values.push(current.trim());
+      current = '';
+      continue;
+    }
+    current += ch;
+  }
+  values.push(current.trim());
+  return values.filter(value => value !== '');
+}
+
+function readNumber(text: string, label: string, parameter: string): number {
+  const value = Number(text.trim());
+  if (text.trim() === '' || !Number.isFinite(value)) {
+    throw new SweepError(`${label} must be a number`, parameter);
+  }
+  return value;
+}
+
+/** Drop floating point noise such as 0.30000000000000004. */
+function formatSweepNumber(value: number, integer: boolean): string {
+  return integer ? String(Math.round(value)) : String(Number(value.toPrecision(12)));
+}
+
+/** Values of one parameter; an empty list means the parameter is left at its default. Throws SweepError on bad input. */
+export function expandSweepParameter(parameter: SweepParameter): string[] {
+  const integer = hyperparameterKind(parameter.data_type) === 'int';
+  let values: string[];
+
+  if (parameter.mode === 'list') {
+    values = splitSweepValues(parameter.values);
+  } else if ([parameter.start, parameter.stop, parameter.mode === 'range' ? parameter.step : parameter.count].every(v => v.trim() === '')) {
+    values = [];
+  } else if (!supportsRange(parameter.data_type)) {
+    throw new SweepError(`ranges need a numeric parameter, not ${parameter.data_type}`, parameter.name);
+  } else if (parameter.mode === 'range') {
+    const start = readNumber(parameter.start, 'start', parameter.name);
+    const stop = readNumber(parameter.stop, 'stop', parameter.name);
+    const step = readNumber(parameter.step, 'step', parameter.name);
+    if (step === 0 || Math.sign(stop - start) * Math.sign(step) < 0) {
+      throw new SweepError('step must move from start towards stop', parameter.name);
+    }
+    if (integer && ![start, stop, step].every(Number.isInteger)) {
+      throw new SweepError('start, stop and step must be whole numbers', parameter.name);
+    }
+    // Stop is included when the steps land on it (with a little tolerance for decimal steps)
+    const steps = Math.floor((stop - start) / step + 1e-9);
+    if (steps + 1 > MAX_SWEEP_COMBINATIONS) {
+      throw new SweepError(`range has more than ${MAX_SWEEP_COMBINATIONS} values`, parameter.name);
+    }
+    values = Array.from({ length: steps + 1 }, (_, i) => formatSweepNumber(start + i * step, integer));
+  } else {
+    const start = readNumber(parameter.start, 'start', parameter.name);
+    const stop = readNumber(parameter.stop, 'stop', parameter.name);
+    const count = readNumber(parameter.count, 'count', parameter.name);
+    if (start <= 0 || stop <= 0) {
+      throw new SweepError('log ranges need start and stop above 0', parameter.name);
+    }
+    if (!Number.isInteger(count) || count < 2 || count > MAX_SWEEP_COMBINATIONS) {
+      throw new SweepError(`count must be a whole number from 2 to ${MAX_SWEEP_COMBINATIONS}`, parameter.name);
+    }
+    const ratio = Math.log(stop / start) / (count - 1);
+    values = Array.from({ length: count }, (_, i) => formatSweepNumber(start * Math.exp(ratio * i), integer));
+  }
+
+  // Rounding (integer log ranges) and repeated list entries would produce duplicate sets
+  return Array.from(new Set(values));
+}
+
+/** Number of sets the sweep generates: the product of the value counts of the swept parameters (0 when none is swept). */
+export function countSweepCombinations(parameters: SweepParameter[]): number {
+  const counts = parameters.map(parameter => expandSweepParameter(parameter).length).filter(count => count > 0);
+  return counts.length > 0 ? counts.reduce((total, count) => total * count, 1) : 0;
+}
+
+/** Cartesian product of the parameter values, first parameter varying slowest. */
+export function expandSweep(parameters: SweepParameter[]): SweepParameterValues[] {
+  const swept = parameters
+    .map(parameter => ({ parameter, values: expandSweepParameter(parameter) }))
+    .filter(entry => entry.values.length > 0);
+  if (swept.length === 0) {
+    return [];
+  }
+  const total = swept.reduce((product, entry) => product * entry.values.length, 1);
+  if (total > MAX_SWEEP_COMBINATIONS) {
+    throw new SweepError(`${total} combinations exceed the limit of ${MAX_SWEEP_COMBINATIONS}`, 'sweep');
+  }
+
+  let combinations: SweepParameterValues[] = [{}];
+  for (const { parameter, values } of swept) {
+    combinations = combinations.flatMap(combination => values.map(value => ({
+      ...combination,
+      [parameter.name]: { value, data_type: parameter.data_type }
+    })));
+  }
+  return combinations;
+}
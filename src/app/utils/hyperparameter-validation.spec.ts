@@ -0,0 +1,94 @@
+import { Hyperparameter } from '../models/catalog';
+import {
+  describeHyperparameterIssues,
+  findHyperparameterIssues,
+  hyperparameterWidget,
+  selectedVersionHyperparameters,
+  validateHyperparameterValue
+} from './hyperparameter-validation';
+
+function hyperparameter(name: string, dataType: string, allowed: string[] = []): Hyperparameter {
+  return {
+    hyperparameter_name: name,
+    hyperparameter_value: '',
+    hyperparameter_data_type: dataType,
+    hyperparameter_description: '',
+    allowed_values: allowed
+  };
+}
+
+describe('hyperparameterWidget', () => {
+  it('picks the input from the allowed values first, then from the declared type', () => {
+    expect(hyperparameterWidget(hyperparameter('kernel', 'int', ['1', '2']))).toBe('enum');
+    expect(hyperparameterWidget(hyperparameter('fit', 'bool'))).toBe('boolean');
+    expect(hyperparameterWidget(hyperparameter('depth', 'int'))).toBe('integer');
+    expect(hyperparameterWidget(hyperparameter('alpha', 'float'))).toBe('number');
+    expect(hyperparameterWidget(hyperparameter('layers', 'list[int]'))).toBe('json');
+    expect(hyperparameterWidget(hyperparameter('weights', 'Dict[str, float]'))).toBe('json');
+    expect(hyperparameterWidget(hyperparameter('name', 'str'))).toBe('text');
+  });
+});
+
+describe('validateHyperparameterValue', () => {
+  it('accepts an empty value as the default of any type', () => {
+    expect(validateHyperparameterValue('  ', hyperparameter('depth', 'int'))).toBeNull();
+    expect(validateHyperparameterValue(undefined, hyperparameter('alpha', 'float', ['0.1']))).toBeNull();
+  });
+
+  it('checks values against the declared type', () => {
+    expect(validateHyperparameterValue('3', hyperparameter('depth', 'int'))).toBeNull();
+    expect(validateHyperparameterValue('3.5', hyperparameter('depth', 'int'))).toBe('Expected a whole number');
+    expect(validateHyperparameterValue('1e-3', hyperparameter('alpha', 'float'))).toBeNull();
+    expect(validateHyperparameterValue('small', hyperparameter('alpha', 'float'))).toBe('Expected a number');
+    expect(validateHyperparameterValue('False', hyperparameter('fit', 'bool'))).toBeNull();
+    expect(validateHyperparameterValue('maybe', hyperparameter('fit', 'bool'))).toBe('Expected True or False');
+    expect(validateHyperparameterValue('[1, 2]', hyperparameter('layers', 'list'))).toBeNull();
+    expect(validateHyperparameterValue('1, 2', hyperparameter('layers', 'list'))).toBe('Expected a list, e.g. [1, 2]');
+    expect(validateHyperparameterValue('{\'a\': 1}', hyperparameter('weights', 'dict'))).toBeNull();
+    expect(validateHyperparameterValue('[1]', hyperparameter('weights', 'dict'))).toBe('Expected a dict, e.g. {"key": 1}');
+    expect(validateHyperparameterValue('anything', hyperparameter('name', 'str'))).toBeNull();
+  });
+
+  it('matches allowed values by parsed value', () => {
+    const alpha = hyperparameter('alpha', 'float', ['0.1', '1']);
+    expect(validateHyperparameterValue('0.10', alpha)).toBeNull();
+    expect(validateHyperparameterValue(' 1 ', alpha)).toBeNull();
+    expect(validateHyperparameterValue('0.2', alpha)).toBe('Must be one of: 0.1, 1');
+  });
+});
+
+describe('findHyperparameterIssues', () => {
+  it('reports every invalid entry with its set, falling back to the stored type of unknown parameters', () => {
+    const sets = [
+      { parameters: { depth: { value: '3', data_type: 'int' }, alpha: { value: 'x', data_type: 'float' } } },
+      { parameters: { depth: { value: 'deep', data_type: 'int' }, extra: { value: 'y', data_type: 'int' } } },
+      { parameters: {} }
+    ];
+    const issues = findHyperparameterIssues(sets, [hyperparameter('depth', 'int'), hyperparameter('alpha', 'float')]);
+
+    expect(issues).toEqual([
+      { setIndex: 0, parameter: 'alpha', message: 'Expected a number' },
+      { setIndex: 1, parameter: 'depth', message: 'Expected a whole number' },
+      { setIndex: 1, parameter: 'extra', message: 'Expected a whole number' }
+    ]);
+    expect(describeHyperparameterIssues(issues)[1]).toBe('Set 2, depth: Expected a whole number');
+  });
+
+  it('accepts missing sets', () => {
+    expect(findHyperparameterIssues(undefined as any, [])).toEqual([]);
+  });
+});
+
+describe('selectedVersionHyperparameters', () => {
+  it('reads the definitions of the selected version only', () => {
+    const data = {
+      selected_version: '2',
+      modl_version_info_list: [
+        { version: { version_number: 1, hyperparameters: [hyperparameter('old', 'int')] } },
+        { version: { version_number: 2, hyperparameters: [hyperparameter('new', 'int')] } }
+      ]
+    };
+    expect(selectedVersionHyperparameters(data, 'modl').map(p => p.hyperparameter_name)).toEqual(['new']);
+    expect(selectedVersionHyperparameters(data, 'metric')).toEqual([]);
+  });
+});
@@ -0,0 +1,101 @@
+import { Hyperparameter } from '../models/catalog';
+import { hyperparameterKind, parseHyperparameterValue } from './python-literal';
+
+/** Input widget used for a hyperparameter in the item editors. */
+export type HyperparameterWidget = 'enum' | 'boolean' | 'integer' | 'number' | 'json' | 'text';
+
+/** A hyperparameter set entry that would make the exported context fail. */
+export interface HyperparameterIssue {
+  /** Zero-based position of the set in `hyperparameter_sets` */
+  setIndex: number;
+  parameter: string;
+  message: string;
+}
+
+export function hyperparameterWidget(param: Hyperparameter): HyperparameterWidget {
+  if (param.allowed_values.length > 0) {
+    return 'enum';
+  }
+  switch (hyperparameterKind(param.hyperparameter_data_type)) {
+    case 'bool':
+      return 'boolean';
+    case 'int':
+      return 'integer';
+    case 'float':
+      return 'number';
+    case 'list':
+    case 'dict':
+      return 'json';
+    default:
+      return 'text';
+  }
+}
+
+/** Compare by parsed value, so "0.10" matches an allowed "0.1" and "true" matches "True". */
+function sameValue(a: string, b: string, dataType: string): boolean {
+  return JSON.stringify(parseHyperparameterValue(a, dataType)) === JSON.stringify(parseHyperparameterValue(b, dataType))
+    || a.trim() === b.trim();
+}
+
+/** Why the value does not fit the declared type or allowed values, or null when it is fine. An empty value means "use the default". */
+export function validateHyperparameterValue(value: unknown, param: Pick<Hyperparameter, 'hyperparameter_data_type' | 'allowed_values'>): string | null {
+  const text = value === undefined || value === null ? '' : String(value);
+  if (text.trim() === '') {
+    return null;
+  }
+  const dataType = param.hyperparameter_data_type;
+  if (param.allowed_values.length > 0) {
+    return param.allowed_values.some(allowed => sameValue(text, allowed, dataType))
+      ? null
+      : `Must be one of: ${param.allowed_values.join(', ')}`;
+  }
+
+  // parseHyperparameterValue hands the text back unchanged when it does not parse as the declared type
+  const parsed = parseHyperparameterValue(value, dataType);
+  switch (hyperparameterKind(dataType)) {
+    case 'int':
+      return typeof parsed === 'number' ? null : 'Expected a whole number';
+    case 'float':
+      return typeof parsed === 'number' ? null : 'Expected a number';
+    case 'bool':
+      return typeof parsed === 'boolean' ? null : 'Expected True or False';
+    case 'list':
+      return Array.isArray(parsed) ? null : 'Expected a list, e.g. [1, 2]';
+    case 'dict':
+      return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? null : 'Expected a dict, e.g. {"key": 1}';
+    default:
+      return null;
+  }
+}
+
+/** Check every set (`parameters[name] = { value, data_type }`) against the parameter definitions of the selected version. */
+export function findHyperparameterIssues(sets: any[], hyperparameters: Hyperparameter[]): HyperparameterIssue[] {
+  const issues: HyperparameterIssue[] = [];
+  (sets || []).forEach((set, setIndex) => {
+    for (const [name, entry] of Object.entries((set?.parameters ?? {}) as Record<string, any>)) {
+      const value = entry && typeof entry === 'object' && 'value' in entry ? entry.value : entry;
+      const param = hyperparameters.find(p => p.hyperparameter_name === name);
+      const message = validateHyperparameterValue(value, param ?? {
+        hyperparameter_data_type: entry?.data_type ?? '',
+        allowed_values: []
+      });
+      if (message) {
+        issues.push({ setIndex, parameter: name, message });
+      }
+    }
+  });
+  return issues;
+}
+
+/** Hyperparameter definitions of the selected version of a model/metric context item (`prefix` is `modl` or `metric`). */
+export function selectedVersionHyperparameters(data: any, prefix: 'modl' | 'metric'): Hyperparameter[] {
+  const versionInfo = (data?.[`${prefix}_version_info_list`] ?? []).find(
+    (v: any) => String(v.version?.version_number) === String(data?.selected_version)
+  );
+  return versionInfo?.version?.hyperparameters ?? [];
+}
+
+/** One line per issue, e.g. "Set 2, alpha: Expected a number". */
+export function describeHyperparameterIssues(issues: HyperparameterIssue[]): string[] {
+  return issues.map(issue => `Set ${issue.setIndex + 1}, ${issue.parameter}: ${issue.message}`);
+}
@@ -0,0 +1,96 @@
+import { ContextEdge, ContextItem, ContextState } from '../services/context-store.service';
+import {
+  canonicalEdges,
+  canonicalPortId,
+  fittingEdges,
+  nodeInputPorts,
+  nodeOutputPorts,
+  portConnectionProblem
+} from './node-ports';
+
+function item(id: string, data: any = {}): ContextItem {
+  return { id, data, isSelected: false };
+}
+
+function edge(id: string, sourceNodeId: string, sourcePortId: string, targetNodeId: string, targetPortId: string): ContextEdge {
+  return { id, sourceNodeId, sourcePortId, targetNodeId, targetPortId };
+}
+
+function context(datasetData: any, processorData: any, edges: ContextEdge[]): ContextState {
+  return {
+    name: '',
+    description: '',
+    task: { id: '', version: '', name: '' },
+    datasets: [item('d', datasetData)],
+    models: [item('m')],
+    metrics: [item('x')],
+    selectedItemId: null,
+    graph: { positions: {}, processors: [{ id: 'p', data: processorData }], edges }
+  };
+}
+
+const MAPPED = { file_mappings: { data: 'data.csv', ground_truth: 'truth.csv' } };
+const DATA_ONLY = { file_mappings: { data: 'data.csv', ground_truth: '' } };
+
+describe('node ports', () => {
+  it('types a processor by its stage, and an unconfigured one as any data', () => {
+    expect(nodeInputPorts('processor', { processor_id: 'normalize' })[0].dataType).toBe('data');
+    expect(nodeOutputPorts('processor', { processor_id: 'threshold_adjacency' })[0].dataType).toBe('graph');
+    expect(nodeOutputPorts('processor', {})[0].dataType).toBe('any');
+  });
+
+  it('names dataset outputs after the mapped files and drops ground truth when only data is mapped', () => {
+    expect(nodeOutputPorts('dataset', MAPPED).map(port => port.name)).toEqual(['data.csv', 'truth.csv']);
+    expect(nodeOutputPorts('dataset', DATA_ONLY).map(port => port.id)).toEqual(['data']);
+    expect(nodeOutputPorts('dataset', {}).map(port => port.name)).toEqual(['Data', 'Ground truth']);
+  });
+
+  it('connects matching types and anything through an unconfigured processor, but never scores', () => {
+    expect(portConnectionProblem('graph', 'graph')).toBeNull();
+    expect(portConnectionProblem('any', 'ground_truth')).toBeNull();
+    expect(portConnectionProblem('data', 'any')).toBeNull();
+    expect(portConnectionProblem('data', 'graph')).toBe('Raw data cannot go into an input that expects predicted graph.');
+    expect(portConnectionProblem('scores', 'any')).toBe('Scores are final results; no node takes them as input.');
+  });
+
+  it('translates the untyped port ids of older graphs for the node type', () => {
+    expect(canonicalPortId('model', 'input-1')).toBe('data');
+    expect(canonicalPortId('metric', 'input-1')).toBe('prediction');
+    expect(canonicalPortId('metric', 'output-1')).toBe('output-1');
+    expect(canonicalPortId(undefined, 'input-1')).toBe('input-1');
+
+    const legacy = context(MAPPED, {}, [edge('e', 'd', 'output-1', 'p', 'input-1'), edge('typed', 'm', 'prediction', 'x', 'prediction')]);
+    const edges = canonicalEdges(legacy);
+    expect(edges[0]).toEqual(edge('e', 'd', 'data', 'p', 'input'));
+    expect(edges[1]).toBe(legacy.graph.edges[1]);
+  });
+});
+
+describe('fittingEdges', () => {
+  const wiring = [
+    edge('data', 'd', 'data', 'p', 'input'),
+    edge('processed', 'p', 'output', 'm', 'data'),
+    edge('truth', 'd', 'ground_truth', 'x', 'ground_truth'),
+    edge('prediction', 'm', 'prediction', 'x', 'prediction')
+  ];
+
+  it('keeps the same edge list while every edge fits', () => {
+    const state = context(MAPPED, { processor_id: 'normalize' }, wiring);
+    expect(fittingEdges(state)).toBe(state.graph.edges);
+  });
+
+  it('drops the ground-truth edge of a dataset mapped without a ground-truth file', () => {
+    expect(fittingEdges(context(DATA_ONLY, { processor_id: 'normalize' }, wiring), 'd').map(e => e.id))
+      .toEqual(['data', 'processed', 'prediction']);
+  });
+
+  it('drops the edges whose types no longer connect after a processor changed stage', () => {
+    expect(fittingEdges(context(MAPPED, { processor_id: 'threshold_adjacency' }, wiring), 'p').map(e => e.id))
+      .toEqual(['truth', 'prediction']);
+  });
+
+  it('only checks the edges of the given node', () => {
+    expect(fittingEdges(context(DATA_ONLY, { processor_id: 'normalize' }, wiring), 'm').map(e => e.id))
+      .toEqual(['data', 'processed', 'truth', 'prediction']);
+  });
+});
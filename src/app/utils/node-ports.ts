@@ -0,0 +1,147 @@
+import { findProcessor } from '../models/processor-catalog';
+import { ContextEdge, ContextState } from '../services/context-store.service';
+
+export type PortNodeType = 'dataset' | 'processor' | 'model' | 'metric';
+
+/** What flows through a node editor port. `any` is an unconfigured processor, which passes on whatever it gets. */
+export type PortDataType = 'data' | 'ground_truth' | 'graph' | 'scores' | 'any';
+
+export interface PortDefinition {
+  id: string;
+  name: string;
+  dataType: PortDataType;
+}
+
+export const PORT_DATA_TYPES: Record<PortDataType, { label: string; color: string }> = {
+  data: { label: 'Raw data', color: '#2980b9' },
+  ground_truth: { label: 'Ground truth', color: '#27ae60' },
+  graph: { label: 'Predicted graph', color: '#8e44ad' },
+  scores: { label: 'Scores', color: '#c0392b' },
+  any: { label: 'Any data', color: '#7f8c8d' }
+};
+
+// Every node had one `input-1` and one `output-1` port before ports were typed
+const LEGACY_PORT_IDS: Record<PortNodeType, Record<string, string>> = {
+  dataset: { 'output-1': 'data' },
+  processor: { 'input-1': 'input', 'output-1': 'output' },
+  model: { 'input-1': 'data', 'output-1': 'prediction' },
+  metric: { 'input-1': 'prediction' }
+};
+
+function fileMapping(data: any, key: 'data' | 'ground_truth'): string {
+  return data?.file_mappings?.[key] || '';
+}
+
+/** Stage of a configured processor decides its type; an unconfigured one accepts anything. */
+function processorDataType(data: any): PortDataType {
+  const stage = findProcessor(data?.processor_id)?.stage;
+  return stage === 'data' ? 'data' : stage === 'output' ? 'graph' : 'any';
+}
+
+export function nodeInputPorts(type: PortNodeType, data: any): PortDefinition[] {
+  switch (type) {
+    case 'processor':
+      return [{ id: 'input', name: 'Input', dataType: processorDataType(data) }];
+    case 'model':
+      return [{ id: 'data', name: 'Data', dataType: 'data' }];
+    case 'metric':
+      return [
+        { id: 'prediction', name: 'Prediction', dataType: 'graph' },
+        { id: 'ground_truth', name: 'Ground truth', dataType: 'ground_truth' }
+      ];
+    default:
+      return [];
+  }
+}
+
+/**
+ * A dataset's outputs follow its file mappings: they are named after the mapped files, and a dataset whose data
+ * file is mapped without a ground-truth file has no ground-truth output.
+ */
+export function nodeOutputPorts(type: PortNodeType, data: any): PortDefinition[] {
+  switch (type) {
+    case 'dataset': {
+      const dataFile = fileMapping(data, 'data');
+      const groundTruthFile = fileMapping(data, 'ground_truth');
+      const ports: PortDefinition[] = [{ id: 'data', name: dataFile || 'Data', dataType: 'data' }];
+      if (groundTruthFile || !dataFile) {
+        ports.push({ id: 'ground_truth', name: groundTruthFile || 'Ground truth', dataType: 'ground_truth' });
+      }
+      return ports;
+    }
+    case 'processor':
+      return [{ id: 'output', name: 'Output', dataType: processorDataType(data) }];
+    case 'model':
+      return [{ id: 'prediction', name: 'Predicted graph', dataType: 'graph' }];
+    case 'metric':
+      return [{ id: 'scores', name: 'Scores', dataType: 'scores' }];
+    default:
+      return [];
+  }
+}
+
+/** Why an output of type `source` cannot feed an input of type `target`, or null if it can. */
+export function portConnectionProblem(source: PortDataType, target: PortDataType): string | null {
+  if (source === 'scores' || target === 'scores') {
+    return 'Scores are final results; no node takes them as input.';
+  }
+  if (source === target || source === 'any' || target === 'any') {
+    return null;
+  }
+  return `${PORT_DATA_TYPES[source].label} cannot go into an input that expects ${PORT_DATA_TYPES[target].label.toLowerCase()}.`;
+}
+
+/**
+ * Current id of a port read from a stored edge. Graphs saved before ports were typed use `input-1`/`output-1`;
+ * those ids are translated for the node's type, other ids are returned unchanged.
+ */
+export function canonicalPortId(type: PortNodeType | undefined, portId: string): string {
+  return (type && LEGACY_PORT_IDS[type][portId]) || portId;
+}
+
+function nodeTypes(context: ContextState): Map<string, PortNodeType> {
+  const types = new Map<string, PortNodeType>();
+  context.datasets.forEach(item => types.set(item.id, 'dataset'));
+  context.models.forEach(item => types.set(item.id, 'model'));
+  context.metrics.forEach(item => types.set(item.id, 'metric'));
+  context.graph.processors.forEach(processor => types.set(processor.id, 'processor'));
+  return types;
+}
+
+/** The context's edges with legacy port ids translated. */
+export function canonicalEdges(context: ContextState): ContextEdge[] {
+  const types = nodeTypes(context);
+  return context.graph.edges.map(edge => {
+    const sourcePortId = canonicalPortId(types.get(edge.sourceNodeId), edge.sourcePortId);
+    const targetPortId = canonicalPortId(types.get(edge.targetNodeId), edge.targetPortId);
+    return sourcePortId === edge.sourcePortId && targetPortId === edge.targetPortId
+      ? edge
+      : { ...edge, sourcePortId, targetPortId };
+  });
+}
+
+/**
+ * The context's edges without those that no longer fit their nodes: a port that the node's data no longer has
+ * (a dataset mapped without a ground-truth file), or ports whose data types no longer connect (a processor
+ * configured for another stage). With `nodeId`, only that node's edges are checked, e.g. after it was reconfigured.
+ */
+export function fittingEdges(context: ContextState, nodeId?: string): ContextEdge[] {
+  const types = nodeTypes(context);
+  const data = new Map<string, any>();
+  [...context.datasets, ...context.models, ...context.metrics, ...context.graph.processors].forEach(node => data.set(node.id, node.data));
+  const fits = (edge: ContextEdge) => {
+    const sourceType = types.get(edge.sourceNodeId);
+    const targetType = types.get(edge.targetNodeId);
+    if (!sourceType || !targetType) {
+      return false;
+    }
+    const sourcePortId = canonicalPortId(sourceType, edge.sourcePortId);
+    const targetPortId = canonicalPortId(targetType, edge.targetPortId);
+    const source = nodeOutputPorts(sourceType, data.get(edge.sourceNodeId)).find(port => port.id === sourcePortId);
+    const target = nodeInputPorts(targetType, data.get(edge.targetNodeId)).find(port => port.id === targetPortId);
+    return !!source && !!target && portConnectionProblem(source.dataType, target.dataType) === null;
+  };
+  const edges = context.graph.edges;
+  const kept = edges.filter(edge => (nodeId !== undefined && edge.sourceNodeId !== nodeId && edge.targetNodeId !== nodeId) || fits(edge));
+  return kept.length === edges.length ? edges : kept;
+}
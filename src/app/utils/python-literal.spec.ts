@@ -0,0 +1,141 @@
+import { parsePythonLiteral } from './python-parser';
+import {
+  hyperparameterToPython,
+  parseHyperparameterValue,
+  pyValueToSource,
+  toPythonLiteral,
+  toPythonModuleRef,
+  toPythonString
+} from './python-literal';
+
+/** Round-trips a generated literal through the script parser, which follows Python's string rules. */
+function readBack(source: string): string {
+  const value = parsePythonLiteral(source);
+  if (value.kind !== 'str') {
+    throw new Error(`expected a string literal, got ${value.kind}`);
+  }
+  return value.value;
+}
+
+describe('toPythonString', () => {
+  const adversarial = [
+    '',
+    'plain text',
+    'it\'s here',
+    'say "hi"',
+    'back\\slash at the end\\',
+    '\'\'\'triple\'\'\' and """double"""',
+    'line one\nline two\n',
+    'ends with a quote\'',
+    'crlf\r\nline',
+    'tab\there',
+    'nul\0byte and bell\x07',
+    'ünïcødé ✓ 😀',
+    'separator\u2028here',
+    '\'); import os; os.system(\'rm -rf /\')#',
+    '\'\'\'\nimport os\n\'\'\''
+  ];
+
+  for (const text of adversarial) {
+    it(`round-trips ${JSON.stringify(text)}`, () => {
+      expect(readBack(toPythonString(text))).toBe(text);
+    });
+  }
+
+  it('keeps single-line text on a single line', () => {
+    const literal = toPythonString('a\rb\u2028c\x85d');
+    expect(literal).not.toMatch(/[\r\n\u2028\x85]/);
+    expect(literal.startsWith('\'')).toBeTrue();
+  });
+
+  it('uses triple quotes for multi-line text', () => {
+    expect(toPythonString('first\nsecond')).toBe('\'\'\'first\nsecond\'\'\'');
+  });
+
+  it('never lets injected code escape the string', () => {
+    const literal = toPythonString('\'); import os; os.system(\'rm -rf /\')#');
+    expect(literal).toBe('\'\\\'); import os; os.system(\\\'rm -rf /\\\')#\'');
+  });
+});
+
+describe('toPythonLiteral', () => {
+  it('serializes scalars', () => {
+    expect(toPythonLiteral(null)).toBe('None');
+    expect(toPythonLiteral(undefined)).toBe('None');
+    expect(toPythonLiteral(true)).toBe('True');
+    expect(toPythonLiteral(false)).toBe('False');
+    expect(toPythonLiteral(42)).toBe('42');
+    expect(toPythonLiteral(-0.5)).toBe('-0.5');
+    expect(toPythonLiteral(1e-7)).toBe('1e-7');
+    expect(toPythonLiteral(NaN)).toBe('float(\'nan\')');
+    expect(toPythonLiteral(-Infinity)).toBe('-float(\'inf\')');
+  });
+
+  it('serializes nested lists and dicts', () => {
+    expect(toPythonLiteral([1, 'a', [true, null]])).toBe('[1, \'a\', [True, None]]');
+    expect(toPythonLiteral({ 'k\'ey': { x: 1.5 } })).toBe('{\'k\\\'ey\': {\'x\': 1.5}}');
+  });
+});
+
+describe('toPythonModuleRef', () => {
+  it('keeps numeric ids as integers and quotes everything else', () => {
+    expect(toPythonModuleRef('12')).toBe('12');
+    expect(toPythonModuleRef(3)).toBe('3');
+    expect(toPythonModuleRef('1); import os')).toBe('\'1); import os\'');
+  });
+});
+
+describe('parseHyperparameterValue', () => {
+  it('converts values according to the declared data type', () => {
+    expect(parseHyperparameterValue('3', 'integer')).toBe(3);
+    expect(parseHyperparameterValue('0.25', 'float')).toBe(0.25);
+    expect(parseHyperparameterValue('yes', 'bool')).toBeTrue();
+    expect(parseHyperparameterValue('False', 'boolean')).toBeFalse();
+    expect(parseHyperparameterValue('None', 'NoneType')).toBeNull();
+    expect(parseHyperparameterValue('[1, 2]', 'list')).toEqual([1, 2]);
+    expect(parseHyperparameterValue('{"a": true}', 'dict')).toEqual({ a: true });
+  });
+
+  it('keeps the text when it does not match the declared type', () => {
+    expect(parseHyperparameterValue('abc', 'int')).toBe('abc');
+    expect(parseHyperparameterValue('1.5', 'int')).toBe('1.5');
+    expect(parseHyperparameterValue('maybe', 'bool')).toBe('maybe');
+    expect(parseHyperparameterValue('[1, os.system("x")]', 'list')).toBe('[1, os.system("x")]');
+  });
+
+  it('never converts values declared as strings', () => {
+    expect(parseHyperparameterValue('True', 'str')).toBe('True');
+    expect(parseHyperparameterValue('42', 'string')).toBe('42');
+  });
+});
+
+describe('hyperparameterToPython', () => {
+  it('emits typed literals driven by data_type', () => {
+    expect(hyperparameterToPython('5', 'int')).toBe('5');
+    expect(hyperparameterToPython('5', 'float')).toBe('5.0');
+    expect(hyperparameterToPython('1e-3', 'float')).toBe('0.001');
+    expect(hyperparameterToPython('true', 'bool')).toBe('True');
+    expect(hyperparameterToPython('None', 'none')).toBe('None');
+    expect(hyperparameterToPython('[0.1, \'a\']', 'list')).toBe('[0.1, \'a\']');
+    expect(hyperparameterToPython('True', 'string')).toBe('\'True\'');
+  });
+
+  it('quotes values that are not valid for their type instead of emitting them as code', () => {
+    expect(hyperparameterToPython('__import__("os")', 'int')).toBe('\'__import__("os")\'');
+    expect(hyperparameterToPython('os.system(\'ls\')', 'list')).toBe('\'os.system(\\\'ls\\\')\'');
+    expect(hyperparameterToPython('print(1)', undefined)).toBe('\'print(1)\'');
+  });
+
+  it('infers literals when no data type is declared', () => {
+    expect(hyperparameterToPython('10', '')).toBe('10');
+    expect(hyperparameterToPython('False', '')).toBe('False');
+    expect(hyperparameterToPython('{\'a\': [1]}', '')).toBe('{\'a\': [1]}');
+    expect(hyperparameterToPython('nan', '')).toBe('\'nan\'');
+  });
+});
+
+describe('pyValueToSource', () => {
+  it('renders parsed strings with Python escaping', () => {
+    expect(pyValueToSource(parsePythonLiteral('["it\'s", \'a\\tb\']'))).toBe('[\'it\\\'s\', \'a\\tb\']');
+  });
+});
@@ -0,0 +1,235 @@
+import { PyValue, PythonParseError, parsePythonLiteral } from './python-parser';
+
+/**
+ * Serializers that turn designer values into Python source literals for the exported context script.
+ * Every value that ends up in generated code must go through one of these, never through raw interpolation.
+ */
+
+export type HyperparameterKind = 'string' | 'int' | 'float' | 'bool' | 'none' | 'list' | 'dict' | 'any';
+
+const DATA_TYPE_KINDS: Record<string, HyperparameterKind> = {
+  'str': 'string', 'string': 'string', 'text': 'string', 'char': 'string',
+  'int': 'int', 'integer': 'int', 'long': 'int',
+  'float': 'float', 'double': 'float', 'number': 'float', 'decimal': 'float', 'real': 'float',
+  'bool': 'bool', 'boolean': 'bool',
+  'none': 'none', 'null': 'none', 'nonetype': 'none',
+  'list': 'list', 'array': 'list', 'tuple': 'list', 'sequence': 'list',
+  'dict': 'dict', 'map': 'dict', 'object': 'dict', 'json': 'dict'
+};
+
+/** Map a hyperparameter `data_type` from the API (e.g. "integer", "float", "str") onto the kind used for serialization. */
+export function hyperparameterKind(dataType: string | null | undefined): HyperparameterKind {
+  const key = String(dataType ?? '').trim().toLowerCase().replace(/^(typing\.|builtins\.)/, '');
+  if (DATA_TYPE_KINDS[key]) {
+    return DATA_TYPE_KINDS[key];
+  }
+  // Generic aliases such as list[int] or Dict[str, float]
+  if (/^(list|tuple|sequence)\[/.test(key)) return 'list';
+  if (/^dict\[/.test(key)) return 'dict';
+  return 'any';
+}
+
+const SIMPLE_ESCAPES: Record<string, string> = {
+  '\\': '\\\\',
+  '\n': '\\n',
+  '\r': '\\r',
+  '\t': '\\t',
+  '\0': '\\x00'
+};
+
+function escapeCharacter(ch: string, quote: string): string {
+  if (SIMPLE_ESCAPES[ch]) {
+    return SIMPLE_ESCAPES[ch];
+  }
+  if (ch === quote) {
+    return `\\${ch}`;
+  }
+  const code = ch.codePointAt(0)!;
+  // C0/C1 control characters and Unicode line/paragraph separators are escaped so the source stays on one line
+  if (code < 0x20 || (code >= 0x7f && code <= 0x9f)) {
+    return `\\x${code.toString(16).padStart(2, '0')}`;
+  }
+  if (code === 0x2028 || code === 0x2029) {
+    return `\\u${code.toString(16)}`;
+  }
+  return ch;
+}
+
+/**
+ * Python string literal for arbitrary text. Single-line text becomes a single-quoted string;
+ * text containing newlines becomes a triple-quoted string so long descriptions remain readable.
+ */
+export function toPythonString(text: string): string {
+  const value = String(text ?? '');
+
+  if (!/[\n]/.test(value)) {
+    return `'${Array.from(value).map(ch => escapeCharacter(ch, '\'')).join('')}'`;
+  }
+
+  // Inside ''' ... ''' newlines are kept literally; every quote is escaped so no run of quotes can close the string early
+  const body = Array.from(value).map(ch => ch === '\n' ? '\n' : escapeCharacter(ch, '\'')).join('');
+  return `'''${body}'''`;
+}
+
+function formatNumber(value: number, asFloat: boolean): string {
+  if (Number.isNaN(value)) {
+    return `float('nan')`;
+  }
+  if (!Number.isFinite(value)) {
+    return value > 0 ? `float('inf')` : `-float('inf')`;
+  }
+  const text = String(value);
+  if (asFloat && /^-?\d+$/.test(text)) {
+    return `${text}.0`;
+  }
+  return text;
+}
+
+/** Python literal for a plain JS value (string, number, boolean, null, arrays and objects). */
+export function toPythonLiteral(value: unknown): string {
+  if (value === null || value === undefined) {
+    return 'None';
+  }
+  if (typeof value === 'boolean') {
+    return value ? 'True' : 'False';
+  }
+  if (typeof value === 'number') {
+    return formatNumber(value, false);
+  }
+  if (typeof value === 'bigint') {
+    return value.toString();
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(toPythonLiteral).join(', ')}]`;
+  }
+  if (typeof value === 'object') {
+    return `{${Object.entries(value as Record<string, unknown>)
+      .map(([key, item]) => `${toPythonString(key)}: ${toPythonLiteral(item)}`)
+      .join(', ')}}`;
+  }
+  return toPythonString(String(value));
+}
+
+/** Ids and versions are integers on the server; anything else is emitted as a string rather than as raw code. */
+export function toPythonModuleRef(value: string | number): string {
+  const text = String(value ?? '').trim();
+  return /^\d+$/.test(text) ? text : toPythonString(text);
+}
+
+/** Render a parsed value back as Python source. */
+export function pyValueToSource(value: PyValue): string {
+  switch (value.kind) {
+    case 'str': return toPythonString(value.value);
+    case 'num': return value.raw;
+    case 'bool': return value.value ? 'True' : 'False';
+    case 'none': return 'None';
+    case 'name': return value.name;
+    case 'list': {
+      const items = value.items.map(pyValueToSource).join(', ');
+      if (!value.tuple) return `[${items}]`;
+      return value.items.length === 1 ? `(${items},)` : `(${items})`;
+    }
+    case 'dict': return `{${value.entries.map(([k, v]) => `${pyValueToSource(k)}: ${pyValueToSource(v)}`).join(', ')}}`;
+    case 'call': {
+      const args = [
+        ...value.args.map(pyValueToSource),
+        ...Object.entries(value.kwargs).map(([k, v]) => `${k}=${pyValueToSource(v)}`)
+      ];
+      return `${value.callee}(${args.join(', ')})`;
+    }
+  }
+}
+
+/** Convert a parsed literal into a plain JS value; JSON spellings (true/false/null) are accepted too. Calls and other names are rejected. */
+function pyValueToJs(value: PyValue): unknown {
+  switch (value.kind) {
+    case 'str': return value.value;
+    case 'num': return value.value;
+    case 'bool': return value.value;
+    case 'none': return null;
+    case 'list': return value.items.map(pyValueToJs);
+    case 'dict': return Object.fromEntries(value.entries.map(([k, v]) => {
+      if (k.kind !== 'str' && k.kind !== 'num') {
+        throw new PythonParseError('dictionary keys must be strings or numbers', 1);
+      }
+      return [String(k.value), pyValueToJs(v)];
+    }));
+    case 'name':
+      if (value.name === 'true' || value.name === 'false') return value.name === 'true';
+      if (value.name === 'null') return null;
+      throw new PythonParseError(`'${value.name}' is not a literal`, 1);
+    case 'call':
+      throw new PythonParseError(`'${value.callee}(...)' is not a literal`, 1);
+  }
+}
+
+/** Parse text as a Python (or JSON) literal; returns undefined when it is not one. */
+export function parseLiteralText(text: string): unknown {
+  try {
+    return pyValueToJs(parsePythonLiteral(text));
+  } catch {
+    return undefined;
+  }
+}
+
+const TRUE_WORDS = /^(true|yes|on|1)$/i;
+const FALSE_WORDS = /^(false|no|off|0)$/i;
+const INTEGER = /^[+-]?\d+$/;
+const FLOAT = /^[+-]?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?$|^[+-]?(inf|infinity|nan)$/i;
+
+/**
+ * Interpret a hyperparameter value (usually the text typed into the designer) according to its declared data type.
+ * Returns the typed JS value, or the original text when it cannot be interpreted as that type.
+ */
+export function parseHyperparameterValue(value: unknown, dataType: string | null | undefined): unknown {
+  if (typeof value !== 'string') {
+    return value;
+  }
+  const text = value.trim();
+
+  switch (hyperparameterKind(dataType)) {
+    case 'string':
+      return value;
+    case 'int':
+      return INTEGER.test(text) ? parseInt(text, 10) : value;
+    case 'float':
+      if (!FLOAT.test(text)) return value;
+      if (/nan/i.test(text)) return NaN;
+      if (/inf/i.test(text)) return text.startsWith('-') ? -Infinity : Infinity;
+      return parseFloat(text);
+    case 'bool':
+      if (TRUE_WORDS.test(text)) return true;
+      if (FALSE_WORDS.test(text)) return false;
+      return value;
+    case 'none':
+      return /^(none|null)?$/i.test(text) ? null : value;
+    case 'list': {
+      const parsed = parseLiteralText(text);
+      return Array.isArray(parsed) ? parsed : value;
+    }
+    case 'dict': {
+      const parsed = parseLiteralText(text);
+      return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : value;
+    }
+    case 'any': {
+      // Undeclared type: accept unambiguous literals (numbers, True/False/None, lists, dicts), otherwise keep the text
+      if (INTEGER.test(text) || FLOAT.test(text) && !/^[+-]?(inf|infinity|nan)$/i.test(text)) return Number(text);
+      if (text === 'True' || text === 'False') return text === 'True';
+      if (text === 'None') return null;
+      if (/^[[{(]/.test(text)) {
+        const parsed = parseLiteralText(text);
+        if (parsed !== undefined) return parsed;
+      }
+      return value;
+    }
+  }
+}
+
+/** Python literal for a hyperparameter value, driven by its declared data type. */
+export function hyperparameterToPython(value: unknown, dataType: string | null | undefined): string {
+  const typed = parseHyperparameterValue(value, dataType);
+  if (typeof typed === 'number' && hyperparameterKind(dataType) === 'float') {
+    return formatNumber(typed, true);
+  }
+  return toPythonLiteral(typed);
+}
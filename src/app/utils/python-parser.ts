@@ -0,0 +1,323 @@
+/**
+ * Minimal parser for the subset of Python used by exported context scripts:
+ * literals (str, int, float, True/False/None), lists, tuples, dicts, dotted names and calls with keyword arguments.
+ */
+export type PyValue =
+  | { kind: 'str'; value: string }
+  | { kind: 'num'; value: number; raw: string }
+  | { kind: 'bool'; value: boolean }
+  | { kind: 'none' }
+  | { kind: 'list'; items: PyValue[]; tuple: boolean }
+  | { kind: 'dict'; entries: [PyValue, PyValue][] }
+  | { kind: 'name'; name: string }
+  | { kind: 'call'; callee: string; args: PyValue[]; kwargs: Record<string, PyValue> };
+
+export class PythonParseError extends Error {
+  constructor(message: string, public readonly line: number) {
+    super(`Line ${line}: ${message}`);
+    this.name = 'PythonParseError';
+  }
+}
+
+type TokenType = 'name' | 'num' | 'str' | 'op' | 'eof';
+
+interface Token {
+  type: TokenType;
+  value: string;
+  line: number;
+}
+
+const STRING_ESCAPES: Record<string, string> = {
+  'n': '\n', 't': '\t', 'r': '\r', '0': '\0', '\\': '\\', '\'': '\'', '"': '"', 'a': '\x07', 'b': '\b', 'f': '\f', 'v': '\v'
+};
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let pos = 0;
+  let line = 1;
+
+  while (pos < source.length) {
+    const ch = source[pos];
+
+    if (ch === '\n') {
+      line++;
+      pos++;
+      continue;
+    }
+    if (/\s/.test(ch) || ch === '\\') {
+      pos++;
+      continue;
+    }
+    if (ch === '#') {
+      while (pos < source.length && source[pos] !== '\n') pos++;
+      continue;
+    }
+
+    // String literal, optionally prefixed (r'', u'', b'', rb'' ...)
+    const prefix = /^([rRuUbB]{0,2})(['"])/.exec(source.slice(pos, pos + 3));
+    if (prefix && (prefix[1].length > 0 || ch === '\'' || ch === '"')) {
+      const raw = /r/i.test(prefix[1]);
+      pos += prefix[1].length;
+      const startLine = line;
+      const quote = source[pos];
+      const triple = source.startsWith(quote.repeat(3), pos);
+      const delimiter = triple ? quote.repeat(3) : quote;
+      pos += delimiter.length;
+      let value = '';
+      for (;;) {
+        if (pos >= source.length) {
+          throw new PythonParseError('unterminated string literal', startLine);
+        }
+        if (source.startsWith(delimiter, pos)) {
+          pos += delimiter.length;
+          break;
+        }
+        const c = source[pos];
+        if (c === '\n') {
+          if (!triple) throw new PythonParseError('unterminated string literal', startLine);
+          line++;
+        }
+        if (c === '\\' && !raw) {
+          const next = source[pos + 1];
+          if (next === '\n') {
+            line++;
+            pos += 2;
+            continue;
+          }
+          if (next === 'x' || next === 'u' || next === 'U') {
+            const length = next === 'x' ? 2 : next === 'u' ? 4 : 8;
+            const hex = source.slice(pos + 2, pos + 2 + length);
+            if (!/^[0-9a-fA-F]+$/.test(hex) || hex.length !== length) {
+              throw new PythonParseError(`invalid \\${next} escape`, line);
+            }
+            value += String.fromCodePoint(parseInt(hex, 16));
+            pos += 2 + length;
+            continue;
+          }
+          value += STRING_ESCAPES[next] ?? `\\${next}`;
+          pos += 2;
+          continue;
+        }
+        value += c;
+        pos++;
+      }
+      tokens.push({ type: 'str', value, line: startLine });
+      continue;
+    }
+
+    const num = /^(\d[\d_]*\.?[\d_]*([eE][+-]?\d+)?|\.\d[\d_]*([eE][+-]?\d+)?)/.exec(source.slice(pos));
+    if (num) {
+      tokens.push({ type: 'num', value: num[0], line });
+      pos += num[0].length;
+      continue;
+    }
+
+    const name = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(pos));
+    if (name) {
+      tokens.push({ type: 'name', value: name[0], line });
+      pos += name[0].length;
+      continue;
+    }
+
+    tokens.push({ type: 'op', value: ch, line });
+    pos++;
+  }
+
+  tokens.push({ type: 'eof', value: '', line });
+  return tokens;
+}
+
+class Parser {
+  private index = 0;
+
+  constructor(private tokens: Token[]) { }
+
+  get current(): Token {
+    return this.tokens[this.index];
+  }
+
+  get position(): number {
+    return this.index;
+  }
+
+  seek(index: number) {
+    this.index = index;
+  }
+
+  /** Index of the first token sequence from `start` on matching the given values, or -1. */
+  find(values: string[], start = 0): number {
+    for (let i = start; i + values.length <= this.tokens.length; i++) {
+      if (values.every((v, offset) => this.tokens[i + offset].value === v && this.tokens[i + offset].type !== 'str')) {
+        return i;
+      }
+    }
+    return -1;
+  }
+
+  expect(value: string): Token {
+    const token = this.current;
+    if (token.value !== value || token.type === 'str') {
+      throw new PythonParseError(`expected '${value}' but found '${token.value || 'end of file'}'`, token.line);
+    }
+    this.index++;
+    return token;
+  }
+
+  private accept(value: string): boolean {
+    if (this.current.value === value && this.current.type === 'op') {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  parseExpression(): PyValue {
+    const token = this.current;
+
+    if (token.type === 'op' && (token.value === '-' || token.value === '+')) {
+      this.index++;
+      const operand = this.parseExpression();
+      if (operand.kind !== 'num') {
+        throw new PythonParseError(`unary '${token.value}' is only supported on numbers`, token.line);
+      }
+      return token.value === '-'
+        ? { kind: 'num', value: -operand.value, raw: `-${operand.raw}` }
+        : operand;
+    }
+
+    if (token.type === 'str') {
+      // Adjacent string literals are concatenated, as in Python
+      let value = '';
+      while (this.current.type === 'str') {
+        value += this.current.value;
+        this.index++;
+      }
+      return { kind: 'str', value };
+    }
+
+    if (token.type === 'num') {
+      this.index++;
+      const raw = token.value.replace(/_/g, '');
+      return { kind: 'num', value: Number(raw), raw };
+    }
+
+    if (token.type === 'name') {
+      this.index++;
+      if (token.value === 'True' || token.value === 'False') {
+        return { kind: 'bool', value: token.value === 'True' };
+      }
+      if (token.value === 'None') {
+        return { kind: 'none' };
+      }
+      let name = token.value;
+      while (this.current.value === '.' && this.current.type === 'op') {
+        this.index++;
+        const part = this.current;
+        if (part.type !== 'name') {
+          throw new PythonParseError(`expected a name after '.' but found '${part.value}'`, part.line);
+        }
+        name += `.${part.value}`;
+        this.index++;
+      }
+      if (this.accept('(')) {
+        return this.parseCallArguments(name);
+      }
+      return { kind: 'name', name };
+    }
+
+    if (this.accept('[')) {
+      return { kind: 'list', items: this.parseSequence(']'), tuple: false };
+    }
+
+    if (this.accept('(')) {
+      if (this.accept(')')) {
+        return { kind: 'list', items: [], tuple: true };
+      }
+      const first = this.parseExpression();
+      if (this.accept(')')) {
+        // Parenthesised expression, not a tuple
+        return first;
+      }
+      this.expect(',');
+      return { kind: 'list', items: [first, ...this.parseSequence(')')], tuple: true };
+    }
+
+    if (this.accept('{')) {
+      const entries: [PyValue, PyValue][] = [];
+      while (!this.accept('}')) {
+        const key = this.parseExpression();
+        this.expect(':');
+        entries.push([key, this.parseExpression()]);
+        if (!this.accept(',')) {
+          this.expect('}');
+          break;
+        }
+      }
+      return { kind: 'dict', entries };
+    }
+
+    throw new PythonParseError(`unexpected '${token.value || 'end of file'}'`, token.line);
+  }
+
+  /** Parse `a, b, c<close>` (trailing comma allowed); the opening bracket has already been consumed. */
+  private parseSequence(close: string): PyValue[] {
+    const items: PyValue[] = [];
+    while (!this.accept(close)) {
+      items.push(this.parseExpression());
+      if (!this.accept(',')) {
+        this.expect(close);
+        break;
+      }
+    }
+    return items;
+  }
+
+  /** Parse call arguments after the opening parenthesis. */
+  parseCallArguments(callee: string): PyValue {
+    const args: PyValue[] = [];
+    const kwargs: Record<string, PyValue> = {};
+    while (!this.accept(')')) {
+      const token = this.current;
+      const next = this.tokens[this.index + 1];
+      if (token.type === 'name' && next?.type === 'op' && next.value === '=') {
+        this.index += 2;
+        kwargs[token.value] = this.parseExpression();
+      } else {
+        if (Object.keys(kwargs).length > 0) {
+          throw new PythonParseError('positional argument follows keyword argument', token.line);
+        }
+        args.push(this.parseExpression());
+      }
+      if (!this.accept(',')) {
+        this.expect(')');
+        break;
+      }
+    }
+    return { kind: 'call', callee, args, kwargs };
+  }
+}
+
+/**
+ * Find every call to `callee` (e.g. 'Context.create') in a Python source file and parse them, in source order.
+ * Returns an empty list when the call does not appear in the source.
+ */
+export function parsePythonCalls(source: string, callee: string): Extract<PyValue, { kind: 'call' }>[] {
+  const parser = new Parser(tokenize(source));
+  const parts = callee.split('.').flatMap((part, i) => i === 0 ? [part] : ['.', part]);
+  const calls: Extract<PyValue, { kind: 'call' }>[] = [];
+  for (let start = parser.find([...parts, '(']); start >= 0; start = parser.find([...parts, '('], parser.position)) {
+    parser.seek(start + parts.length + 1);
+    calls.push(parser.parseCallArguments(callee) as Extract<PyValue, { kind: 'call' }>);
+  }
+  return calls;
+}
+
+/** Parse a whole source text as a single expression, e.g. a hyperparameter value such as `[1, 2.5, 'a']`. */
+export function parsePythonLiteral(source: string): PyValue {
+  const parser = new Parser(tokenize(source));
+  const value = parser.parseExpression();
+  if (parser.current.type !== 'eof') {
+    throw new PythonParseError(`unexpected '${parser.current.value}' after the value`, parser.current.line);
+  }
+  return value;
+}
@@ -0,0 +1,77 @@
+export type HighlightLanguage = 'python' | 'yaml' | 'json';
+
+interface TokenRule {
+  className: string;
+  pattern: RegExp;
+}
+
+const PYTHON_KEYWORDS = [
+  'and', 'as', 'assert', 'class', 'def', 'elif', 'else', 'except', 'for', 'from', 'if', 'import',
+  'in', 'is', 'lambda', 'not', 'or', 'pass', 'return', 'try', 'while', 'with', 'yield'
+];
+
+// Rules are tried in order at every position; the first match wins
+const RULES: Record<HighlightLanguage, TokenRule[]> = {
+  python: [
+    { className: 'tok-comment', pattern: /#[^\n]*/y },
+    { className: 'tok-string', pattern: /[rRbBuU]?("""[\s\S]*?"""|'''[\s\S]*?'''|"(?:\\.|[^"\\\n])*"|'(?:\\.|[^'\\\n])*')/y },
+    { className: 'tok-number', pattern: /\b\d[\d_]*(\.\d*)?([eE][+-]?\d+)?\b/y },
+    { className: 'tok-constant', pattern: /\b(True|False|None)\b/y },
+    { className: 'tok-keyword', pattern: new RegExp(`\\b(${PYTHON_KEYWORDS.join('|')})\\b`, 'y') },
+    { className: 'tok-type', pattern: /\b[A-Z][A-Za-z0-9_]*\b/y }
+  ],
+  yaml: [
+    { className: 'tok-comment', pattern: /#[^\n]*/y },
+    { className: 'tok-key', pattern: /[^\s:\-"'#][^:\n]*(?=:(\s|$))/y },
+    { className: 'tok-string', pattern: /"(?:\\.|[^"\\\n])*"|'(?:''|[^'\n])*'/y },
+    { className: 'tok-number', pattern: /-?\b\d+(\.\d+)?([eE][+-]?\d+)?\b/y },
+    { className: 'tok-constant', pattern: /\b(true|false|null)\b/y }
+  ],
+  json: [
+    { className: 'tok-key', pattern: /"(?:\\.|[^"\\\n])*"(?=\s*:)/y },
+    { className: 'tok-string', pattern: /"(?:\\.|[^"\\\n])*"/y },
+    { className: 'tok-number', pattern: /-?\b\d+(\.\d+)?([eE][+-]?\d+)?\b/y },
+    { className: 'tok-constant', pattern: /\b(true|false|null)\b/y }
+  ]
+};
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/** Convert source code into HTML with `tok-*` class spans for a lightweight read-only preview. */
+export function highlightCode(code: string, language: HighlightLanguage): string {
+  const rules = RULES[language];
+  let html = '';
+  let plain = '';
+  let pos = 0;
+
+  while (pos < code.length) {
+    let matched = false;
+    // Only start tokens at word boundaries so identifiers are not split up
+    const atBoundary = pos === 0 || !/\w/.test(code[pos - 1]) || !/\w/.test(code[pos]);
+    if (atBoundary) {
+      for (const rule of rules) {
+        rule.pattern.lastIndex = pos;
+        const match = rule.pattern.exec(code);
+        if (match && match[0].length > 0) {
+          html += escapeHtml(plain) + `<span class="${rule.className}">${escapeHtml(match[0])}</span>`;
+          plain = '';
+          pos += match[0].length;
+          matched = true;
+          break;
+        }
+      }
+    }
+    if (!matched) {
+      plain += code[pos];
+      pos++;
+    }
+  }
+
+  return html + escapeHtml(plain);
+}
@@ -0,0 +1,118 @@
+import { Hyperparameter, VersionInfo } from '../models/catalog';
+
+/** How a compared value differs from the older version to the newer one. */
+export type VersionChange = 'added' | 'removed' | 'changed' | 'unchanged';
+
+export interface VersionDiffRow {
+  label: string;
+  /** Empty when the entry does not exist in that version */
+  before: string;
+  after: string;
+  change: VersionChange;
+}
+
+export interface VersionDiffSection {
+  title: string;
+  rows: VersionDiffRow[];
+}
+
+/** Order version numbers such as "2", "1.10" and "1.9" numerically, part by part (negative when `a` is older). */
+export function compareVersionNumbers(a: string, b: string): number {
+  const partsA = String(a).split('.');
+  const partsB = String(b).split('.');
+  for (let i = 0; i < Math.max(partsA.length, partsB.length); i++) {
+    const diff = (parseFloat(partsA[i]) || 0) - (parseFloat(partsB[i]) || 0);
+    if (diff !== 0) {
+      return diff;
+    }
+  }
+  return 0;
+}
+
+function compareText(label: string, before: string, after: string): VersionDiffRow {
+  return { label, before, after, change: before === after ? 'unchanged' : 'changed' };
+}
+
+/** Rows for entries keyed by name: present in one version only, or in both with the same or a different description. */
+function compareKeyed<T>(before: T[], after: T[], key: (entry: T) => string, describe: (entry: T) => string): VersionDiffRow[] {
+  const beforeByKey = new Map(before.map(entry => [key(entry), entry]));
+  const afterByKey = new Map(after.map(entry => [key(entry), entry]));
+  const keys = Array.from(new Set([...beforeByKey.keys(), ...afterByKey.keys()]));
+  return keys.map(name => {
+    const a = beforeByKey.get(name);
+    const b = afterByKey.get(name);
+    if (!a) {
+      return { label: name, before: '', after: describe(b!), change: 'added' };
+    }
+    if (!b) {
+      return { label: name, before: describe(a), after: '', change: 'removed' };
+    }
+    return compareText(name, describe(a), describe(b));
+  });
+}
+
+function describeHyperparameter(param: Hyperparameter): string {
+  const parts = [param.hyperparameter_value === '' ? '(no default)' : `default ${param.hyperparameter_value}`];
+  if (param.hyperparameter_data_type) {
+    parts.push(param.hyperparameter_data_type);
+  }
+  if (param.allowed_values.length > 0) {
+    parts.push(`allowed [${param.allowed_values.join(', ')}]`);
+  }
+  return parts.join(' · ');
+}
+
+function describeRange(min: number | null | undefined, max: number | null | undefined): string {
+  if (min == null && max == null) {
+    return '';
+  }
+  return min === max || min == null || max == null ? String(min ?? max) : `${min}–${max}`;
+}
+
+/** Field-by-field comparison of two versions of the same dataset, model or metric; empty sections are left out. */
+export function diffVersions(before: VersionInfo, after: VersionInfo): VersionDiffSection[] {
+  const sections: VersionDiffSection[] = [
+    {
+      title: 'Details',
+      rows: [
+        compareText('Description', before.description.description_text, after.description.description_text),
+        compareText('Author', before.description.author, after.description.author),
+        compareText('Visibility', before.metadata.visibility, after.metadata.visibility),
+        compareText('URL', before.metadata.url, after.metadata.url),
+        compareText('Uploaded', before.metadata.upload_timestamp, after.metadata.upload_timestamp)
+      ]
+    },
+    {
+      title: 'Hyperparameters',
+      rows: compareKeyed(before.version.hyperparameters, after.version.hyperparameters, p => p.hyperparameter_name, describeHyperparameter)
+    },
+    {
+      title: 'Supported tasks',
+      rows: compareKeyed(
+        before.version.tasks,
+        after.version.tasks,
+        task => task.task_name || String(task.task_id),
+        task => task.version_number !== null ? `task ${task.task_id}, version ${task.version_number}` : `task ${task.task_id}`
+      )
+    },
+    {
+      title: 'Files',
+      rows: compareKeyed(before.version.features, after.version.features, f => f.file_type || f.file_name, f => f.file_name)
+    },
+    {
+      title: 'Size',
+      rows: [
+        compareText('Rows', describeRange(before.version.min_row_count, before.version.max_row_count),
+          describeRange(after.version.min_row_count, after.version.max_row_count)),
+        compareText('Columns', describeRange(before.version.min_column_count, before.version.max_column_count),
+          describeRange(after.version.min_column_count, after.version.max_column_count))
+      ].filter(row => row.before !== '' || row.after !== '')
+    }
+  ];
+  return sections.filter(section => section.rows.length > 0);
+}
+
+/** Number of rows that differ between the two versions. */
+export function countVersionChanges(sections: VersionDiffSection[]): number {
+  return sections.reduce((total, section) => total + section.rows.filter(row => row.change !== 'unchanged').length, 0);
+}
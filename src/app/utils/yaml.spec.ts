@@ -0,0 +1,29 @@
+import { toYaml } from './yaml';
+
+describe('toYaml', () => {
+  it('keeps ordinary strings plain', () => {
+    expect(toYaml({ name: 'sachs', path: './data/file.csv', dotted: '.hidden' })).toBe(
+      'name: sachs\npath: ./data/file.csv\ndotted: .hidden\n'
+    );
+  });
+
+  it('quotes strings YAML would read as floats', () => {
+    for (const text of ['.5', '.25e3', '.inf', '.Inf', '.INF', '.nan', '.NaN']) {
+      expect(toYaml({ value: text })).toBe(`value: ${JSON.stringify(text)}\n`);
+    }
+  });
+
+  it('quotes strings YAML would read as booleans or null', () => {
+    for (const text of ['true', 'No', 'on', 'null', '~']) {
+      expect(toYaml({ value: text })).toBe(`value: ${JSON.stringify(text)}\n`);
+    }
+  });
+
+  it('quotes strings that start with a digit or a sign', () => {
+    expect(toYaml({ int: '42', float: '1.5', negative: '-3' })).toBe('int: "42"\nfloat: "1.5"\nnegative: "-3"\n');
+  });
+
+  it('writes non-finite numbers as YAML floats', () => {
+    expect(toYaml([NaN, Infinity, -Infinity])).toBe('- .nan\n- .inf\n- -.inf\n');
+  });
+});
@@ -0,0 +1,59 @@
+/** Minimal YAML emitter for plain JSON-like data (objects, arrays, strings, numbers, booleans, null). */
+export function toYaml(value: unknown): string {
+  return emit(value, 0).replace(/^\n/, '') + '\n';
+}
+
+const PLAIN_STRING = /^[A-Za-z_./][A-Za-z0-9_ ./()+-]*$/;
+const RESERVED_WORDS = /^(true|false|yes|no|on|off|null|~)$/i;
+// Plain strings starting with a dot that YAML resolves as floats: .5, .inf, .NaN
+const FLOAT_LIKE = /^\.([0-9]|(inf|nan)$)/i;
+
+function scalar(value: unknown): string {
+  if (value === null || value === undefined) {
+    return 'null';
+  }
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? String(value) : (Number.isNaN(value) ? '.nan' : (value > 0 ? '.inf' : '-.inf'));
+  }
+  if (typeof value === 'boolean') {
+    return value ? 'true' : 'false';
+  }
+  const text = String(value);
+  // Double-quoted YAML strings accept JSON escapes, so JSON.stringify is a safe fallback
+  if (text === '' || !PLAIN_STRING.test(text) || RESERVED_WORDS.test(text) || FLOAT_LIKE.test(text) || text !== text.trim()) {
+    return JSON.stringify(text);
+  }
+  return text;
+}
+
+function isContainer(value: unknown): value is object {
+  return typeof value === 'object' && value !== null;
+}
+
+function emit(value: unknown, indent: number): string {
+  const pad = '  '.repeat(indent);
+
+  if (Array.isArray(value)) {
+    if (value.length === 0) {
+      return ' []';
+    }
+    return value.map(item => {
+      if (isContainer(item) && !(Array.isArray(item) ? item.length === 0 : Object.keys(item).length === 0)) {
+        // First key of a mapping goes on the same line as the dash
+        const nested = emit(item, indent + 1).replace(/^\n\s*/, '');
+        return `\n${pad}- ${nested}`;
+      }
+      return `\n${pad}-${emit(item, indent + 1)}`;
+    }).join('');
+  }
+
+  if (isContainer(value)) {
+    const entries = Object.entries(value);
+    if (entries.length === 0) {
+      return ' {}';
+    }
+    return entries.map(([key, item]) => `\n${pad}${scalar(key)}:${emit(item, indent + 1)}`).join('');
+  }
+
+  return ` ${scalar(value)}`;
+}
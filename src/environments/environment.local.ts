@@ -0,0 +1,6 @@
+import { EnvironmentProfileName } from './profiles';
+
+export const environment: { production: boolean; profile: EnvironmentProfileName } = {
+  production: false,
+  profile: 'local'
+};
@@ -0,0 +1,7 @@
+import { EnvironmentProfileName } from './profiles';
+
+// Replaced at build time by environment.<profile>.ts (see the fileReplacements in angular.json)
+export const environment: { production: boolean; profile: EnvironmentProfileName } = {
+  production: true,
+  profile: 'production'
+};
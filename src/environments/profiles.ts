@@ -0,0 +1,26 @@
+export type EnvironmentProfileName = 'production' | 'staging' | 'local';
+
+/** Server endpoints of one deployment. The portal is where the access token comes from and where users are sent without one. */
+export interface EnvironmentProfile {
+  label: string;
+  apiBaseUrl: string;
+  portalUrl: string;
+}
+
+export const ENVIRONMENT_PROFILES: Record<EnvironmentProfileName, EnvironmentProfile> = {
+  production: {
+    label: 'Production',
+    apiBaseUrl: 'https://causalbench.org/api',
+    portalUrl: 'https://causalbench.org'
+  },
+  staging: {
+    label: 'Staging',
+    apiBaseUrl: 'https://staging.causalbench.org/api',
+    portalUrl: 'https://staging.causalbench.org'
+  },
+  local: {
+    label: 'Local',
+    apiBaseUrl: 'http://localhost:8000/api',
+    portalUrl: 'http://localhost:3000'
+  }
+};